@@ -15,22 +15,40 @@ import type {
 } from "convex/server";
 import type * as acl from "../acl.js";
 import type * as anomalyDetection from "../anomalyDetection.js";
+import type * as anthropic from "../anthropic.js";
+import type * as attachments from "../attachments.js";
 import type * as auth from "../auth.js";
+import type * as batches from "../batches.js";
+import type * as boardSettings from "../boardSettings.js";
 import type * as boards from "../boards.js";
+import type * as context from "../context.js";
+import type * as crons from "../crons.js";
 import type * as edges from "../edges.js";
 import type * as exports from "../exports.js";
+import type * as frames from "../frames.js";
+import type * as google from "../google.js";
 import type * as http from "../http.js";
+import type * as imports from "../imports.js";
+import type * as jobs from "../jobs.js";
 import type * as keys from "../keys.js";
-import type * as llm from "../llm.js";
 import type * as llmSecure from "../llmSecure.js";
 import type * as logging from "../logging.js";
 import type * as nodes from "../nodes.js";
 import type * as observability from "../observability.js";
+import type * as openai from "../openai.js";
+import type * as providerErrors from "../providerErrors.js";
+import type * as providers from "../providers.js";
 import type * as router from "../router.js";
+import type * as search from "../search.js";
 import type * as security from "../security.js";
 import type * as shares from "../shares.js";
+import type * as snapshots from "../snapshots.js";
+import type * as tags from "../tags.js";
+import type * as templates from "../templates.js";
+import type * as tools from "../tools.js";
 import type * as usage from "../usage.js";
 import type * as validation from "../validation.js";
+import type * as versions from "../versions.js";
 
 /**
  * A utility for referencing Convex functions in your app's API.
@@ -43,22 +61,40 @@ import type * as validation from "../validation.js";
 declare const fullApi: ApiFromModules<{
   acl: typeof acl;
   anomalyDetection: typeof anomalyDetection;
+  anthropic: typeof anthropic;
+  attachments: typeof attachments;
   auth: typeof auth;
+  batches: typeof batches;
+  boardSettings: typeof boardSettings;
   boards: typeof boards;
+  context: typeof context;
+  crons: typeof crons;
   edges: typeof edges;
   exports: typeof exports;
+  frames: typeof frames;
+  google: typeof google;
   http: typeof http;
+  imports: typeof imports;
+  jobs: typeof jobs;
   keys: typeof keys;
-  llm: typeof llm;
   llmSecure: typeof llmSecure;
   logging: typeof logging;
   nodes: typeof nodes;
   observability: typeof observability;
+  openai: typeof openai;
+  providerErrors: typeof providerErrors;
+  providers: typeof providers;
   router: typeof router;
+  search: typeof search;
   security: typeof security;
   shares: typeof shares;
+  snapshots: typeof snapshots;
+  tags: typeof tags;
+  templates: typeof templates;
+  tools: typeof tools;
   usage: typeof usage;
   validation: typeof validation;
+  versions: typeof versions;
 }>;
 export declare const api: FilterApi<
   typeof fullApi,
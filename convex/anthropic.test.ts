@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { callAnthropicStream } from "./anthropic";
+import { streamResponse } from "./test.helpers";
+
+function sse(event: Record<string, unknown>): string {
+  return `event: ${String(event.type)}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+async function collect(chunks: string[]) {
+  vi.stubGlobal("fetch", vi.fn(async () => streamResponse(chunks)));
+  const results = [];
+  for await (const chunk of callAnthropicStream("key", "claude-sonnet-4-5", [{ role: "user", content: "Hi" }], 0.7, 100)) {
+    results.push(chunk);
+  }
+  return results;
+}
+
+describe("callAnthropicStream", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("yields text deltas and finishes with the final token counts", async () => {
+    const results = await collect([
+      sse({ type: "message_start", message: { usage: { input_tokens: 12, output_tokens: 1 } } }),
+      sse({ type: "content_block_start", index: 0, content_block: { type: "text", text: "" } }),
+      sse({ type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Hello" } }),
+      sse({ type: "content_block_delta", index: 0, delta: { type: "text_delta", text: " there" } }),
+      sse({ type: "message_delta", delta: { stop_reason: "end_turn" }, usage: { output_tokens: 5 } }),
+      sse({ type: "message_stop" }),
+    ]);
+
+    expect(results.map((chunk) => chunk.content).join("")).toBe("Hello there");
+    expect(results[0]).toEqual({ content: "Hello", inputTokens: 12, outputTokens: 1 });
+    expect(results[results.length - 1]).toEqual({ content: "", inputTokens: 12, outputTokens: 5, done: true });
+  });
+
+  it("reassembles events split across network chunks", async () => {
+    const event = sse({ type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "split" } });
+    const results = await collect([
+      event.slice(0, 20),
+      event.slice(20, 45),
+      event.slice(45),
+      sse({ type: "message_stop" }),
+    ]);
+
+    expect(results.map((chunk) => chunk.content)).toEqual(["split", ""]);
+  });
+
+  it("skips malformed lines and non-text deltas", async () => {
+    const results = await collect([
+      "data: {not json\n\n",
+      ": keep-alive\n\n",
+      sse({ type: "content_block_delta", index: 0, delta: { type: "input_json_delta", partial_json: "{}" } }),
+      sse({ type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "ok" } }),
+      sse({ type: "message_stop" }),
+    ]);
+
+    expect(results.map((chunk) => chunk.content)).toEqual(["ok", ""]);
+  });
+
+  it("ignores anything after message_stop", async () => {
+    const results = await collect([
+      sse({ type: "message_stop" }),
+      sse({ type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "late" } }),
+    ]);
+
+    expect(results).toEqual([{ content: "", inputTokens: 0, outputTokens: 0, done: true }]);
+  });
+
+  it("throws on a stream error event", async () => {
+    await expect(collect([
+      sse({ type: "error", error: { type: "overloaded_error", message: "Overloaded" } }),
+    ])).rejects.toThrow("Anthropic API error: Overloaded");
+  });
+});
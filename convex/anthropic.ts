@@ -0,0 +1,255 @@
+/**
+ * Anthropic Messages API adapter
+ */
+
+import { providerError } from "./providerErrors";
+import type { ChatAttachment, ChatMessage, ToolCall, ToolSpec } from "./providers";
+
+const ANTHROPIC_API_VERSION = "2023-06-01";
+
+type AnthropicBlock =
+  | { type: "text"; text: string }
+  | { type: "tool_use"; id: string; name: string; input: Record<string, unknown> }
+  | { type: "tool_result"; tool_use_id: string; content: string }
+  | { type: "image" | "document"; source: { type: "base64"; media_type: string; data: string } };
+
+type AnthropicTurn = {
+  role: "user" | "assistant";
+  content: string | AnthropicBlock[];
+};
+
+// Base URL can be overridden (e.g. to point at a local stub server in tests)
+function getAnthropicBaseUrl(): string {
+  return (process.env.ANTHROPIC_BASE_URL || "https://api.anthropic.com").replace(/\/+$/, "");
+}
+
+function toBlocks(content: string | AnthropicBlock[]): AnthropicBlock[] {
+  return typeof content === "string" ? [{ type: "text", text: content }] : content;
+}
+
+function toAttachmentBlock(attachment: ChatAttachment): AnthropicBlock {
+  return {
+    type: attachment.kind === "image" ? "image" : "document",
+    source: { type: "base64", media_type: attachment.mimeType, data: attachment.data },
+  };
+}
+
+/**
+ * Convert our chat message array into the Messages API shape.
+ * System messages are hoisted into the top-level `system` field and
+ * consecutive turns with the same role are merged, since the API
+ * requires alternating user/assistant turns starting with a user turn.
+ * Tool calls become `tool_use` blocks and their results `tool_result`
+ * blocks in the following user turn. Attachments precede the turn's text.
+ */
+export function toAnthropicMessages(messages: ChatMessage[]): {
+  system?: string;
+  messages: AnthropicTurn[];
+} {
+  const systemParts: string[] = [];
+  const turns: AnthropicTurn[] = [];
+
+  for (const message of messages) {
+    const hasToolCalls = !!message.toolCalls && message.toolCalls.length > 0;
+    const hasAttachments = !!message.attachments && message.attachments.length > 0;
+    if (!message.content && !hasToolCalls && !hasAttachments) continue;
+
+    if (message.role === "system") {
+      systemParts.push(message.content);
+      continue;
+    }
+
+    const role = message.role === "assistant" ? "assistant" : "user";
+    let content: string | AnthropicBlock[] = message.content;
+    if (message.role === "tool") {
+      content = [{ type: "tool_result", tool_use_id: message.toolCallId ?? "", content: message.content }];
+    } else if (hasToolCalls) {
+      content = [
+        ...(message.content ? toBlocks(message.content) : []),
+        ...message.toolCalls!.map((call): AnthropicBlock => ({
+          type: "tool_use",
+          id: call.id,
+          name: call.name,
+          input: call.arguments,
+        })),
+      ];
+    } else if (hasAttachments) {
+      content = [
+        ...message.attachments!.map(toAttachmentBlock),
+        ...(message.content ? toBlocks(message.content) : []),
+      ];
+    }
+
+    const last = turns[turns.length - 1];
+    if (last && last.role === role) {
+      if (typeof last.content === "string" && typeof content === "string") {
+        last.content += `\n\n${content}`;
+      } else {
+        last.content = [...toBlocks(last.content), ...toBlocks(content)];
+      }
+    } else {
+      turns.push({ role, content });
+    }
+  }
+
+  if (turns.length > 0 && turns[0].role !== "user") {
+    turns.unshift({ role: "user", content: "(continued)" });
+  }
+
+  return {
+    system: systemParts.length > 0 ? systemParts.join("\n\n") : undefined,
+    messages: turns,
+  };
+}
+
+async function anthropicRequest(apiKey: string, body: any, signal?: AbortSignal): Promise<Response> {
+  const response = await fetch(`${getAnthropicBaseUrl()}/v1/messages`, {
+    method: "POST",
+    signal,
+    headers: {
+      "x-api-key": apiKey,
+      "anthropic-version": ANTHROPIC_API_VERSION,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw await providerError("Anthropic", response);
+  }
+
+  return response;
+}
+
+export async function callAnthropic(
+  apiKey: string,
+  model: string,
+  messages: ChatMessage[],
+  temperature: number,
+  maxTokens: number,
+  tools?: ToolSpec[],
+  signal?: AbortSignal
+) {
+  const { system, messages: turns } = toAnthropicMessages(messages);
+
+  const response = await anthropicRequest(apiKey, {
+    model,
+    system,
+    messages: turns,
+    temperature: Math.min(temperature, 1), // Anthropic accepts 0-1
+    max_tokens: maxTokens,
+    tools: tools && tools.length > 0
+      ? tools.map((tool) => ({ name: tool.name, description: tool.description, input_schema: tool.parameters }))
+      : undefined,
+  }, signal);
+
+  const data = await response.json();
+  const blocks = data.content || [];
+  const text = blocks
+    .filter((block: any) => block.type === "text")
+    .map((block: any) => block.text)
+    .join("");
+
+  const toolCalls: ToolCall[] = blocks
+    .filter((block: any) => block.type === "tool_use")
+    .map((block: any) => ({ id: block.id, name: block.name, arguments: block.input || {} }));
+
+  return {
+    text,
+    inputTokens: data.usage?.input_tokens || 0,
+    outputTokens: data.usage?.output_tokens || 0,
+    toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+  };
+}
+
+export async function* callAnthropicStream(
+  apiKey: string,
+  model: string,
+  messages: ChatMessage[],
+  temperature: number,
+  maxTokens: number,
+  signal?: AbortSignal
+): AsyncGenerator<{content: string, inputTokens: number, outputTokens: number, done?: boolean}, void, unknown> {
+  const { system, messages: turns } = toAnthropicMessages(messages);
+
+  const response = await anthropicRequest(apiKey, {
+    model,
+    system,
+    messages: turns,
+    temperature: Math.min(temperature, 1), // Anthropic accepts 0-1
+    max_tokens: maxTokens,
+    stream: true,
+  }, signal);
+
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error("No response body reader available");
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let finished = false;
+
+  try {
+    while (!finished) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        const trimmedLine = line.trim();
+        if (!trimmedLine.startsWith('data:')) continue;
+
+        let event: any;
+        try {
+          event = JSON.parse(trimmedLine.slice(5).trim());
+        } catch (e) {
+          // Skip invalid JSON
+          continue;
+        }
+
+        switch (event.type) {
+          case "message_start":
+            inputTokens = event.message?.usage?.input_tokens || 0;
+            outputTokens = event.message?.usage?.output_tokens || 0;
+            break;
+          case "content_block_delta":
+            if (event.delta?.type === "text_delta" && event.delta.text) {
+              yield {
+                content: event.delta.text,
+                inputTokens,
+                outputTokens,
+              };
+            }
+            break;
+          case "message_delta":
+            // Output token count here is cumulative for the message
+            if (event.usage?.output_tokens !== undefined) {
+              outputTokens = event.usage.output_tokens;
+            }
+            break;
+          case "message_stop":
+            finished = true;
+            break;
+          case "error":
+            throw new Error(`Anthropic API error: ${event.error?.message || "stream error"}`);
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  // Return final token counts
+  yield {
+    content: "",
+    inputTokens,
+    outputTokens,
+    done: true,
+  };
+}
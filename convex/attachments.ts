@@ -0,0 +1,231 @@
+import { query, mutation } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { requireAuth } from "./security";
+import { ATTACHMENT_LIMITS, attachmentKind, validateAttachment } from "./validation";
+import type { ChatAttachment, ChatMessage } from "./providers";
+
+/**
+ * Attachments: images and files on message nodes, kept in Convex file storage.
+ *
+ * The client uploads to a URL from `generateUploadUrl`, then attaches the
+ * stored file with `addAttachment`, which validates it against the limits
+ * in validation.ts. When a response is generated, images and PDFs are sent
+ * to vision-capable models and text files are inlined into the message.
+ */
+
+type Attachment = NonNullable<Doc<"nodes">["attachments"]>[number];
+
+// A conversation turn as built from the board, still referring to stored files
+type MessageWithFiles = {
+  role: ChatMessage["role"];
+  content: string;
+  attachments?: Attachment[];
+};
+
+// Security: only files uploaded recently can be attached, so an old storage
+// id seen elsewhere cannot be used to read someone else's file
+const MAX_UPLOAD_AGE_MS = 60 * 60 * 1000;
+
+// Inlined text is capped separately from the upload limit to protect the context window
+const MAX_INLINED_TEXT_CHARS = 50000;
+
+async function getOwnedMessageNode(ctx: any, userId: Id<"users">, nodeId: Id<"nodes">): Promise<Doc<"nodes">> {
+  const node: Doc<"nodes"> | null = await ctx.db.get(nodeId);
+  if (!node || (node.type !== "message" && node.type !== "prompt")) {
+    throw new Error("Message node not found");
+  }
+
+  // Check board access
+  const board = await ctx.db.get(node.boardId);
+  if (!board || board.ownerUserId !== userId) {
+    throw new Error("Access denied");
+  }
+
+  return node;
+}
+
+export const generateUploadUrl = mutation({
+  args: {},
+  handler: async (ctx) => {
+    await requireAuth(ctx);
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+export const addAttachment = mutation({
+  args: {
+    nodeId: v.id("nodes"),
+    storageId: v.id("_storage"),
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const node = await getOwnedMessageNode(ctx, userId, args.nodeId);
+
+    const file = await ctx.db.system.get(args.storageId);
+    if (!file || Date.now() - file._creationTime > MAX_UPLOAD_AGE_MS) {
+      throw new Error("Uploaded file not found");
+    }
+
+    const existing = node.attachments ?? [];
+    if (existing.some((attachment) => attachment.storageId === args.storageId)) {
+      throw new Error("File is already attached");
+    }
+
+    // Validate and sanitize inputs; a rejected upload is not kept
+    let validated;
+    try {
+      if (existing.length >= ATTACHMENT_LIMITS.MAX_PER_NODE) {
+        throw new Error(`A message can have at most ${ATTACHMENT_LIMITS.MAX_PER_NODE} attachments`);
+      }
+      validated = validateAttachment(args.name, file.contentType, file.size);
+    } catch (error) {
+      await ctx.storage.delete(args.storageId);
+      throw error;
+    }
+
+    const attachment: Attachment = {
+      storageId: args.storageId,
+      name: validated.name,
+      mimeType: validated.mimeType,
+      size: file.size,
+    };
+
+    await ctx.db.patch(args.nodeId, {
+      attachments: [...existing, attachment],
+      updatedAt: Date.now(),
+    });
+
+    return attachment;
+  },
+});
+
+export const removeAttachment = mutation({
+  args: {
+    nodeId: v.id("nodes"),
+    storageId: v.id("_storage"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const node = await getOwnedMessageNode(ctx, userId, args.nodeId);
+
+    const existing = node.attachments ?? [];
+    if (!existing.some((attachment) => attachment.storageId === args.storageId)) {
+      throw new Error("Attachment not found");
+    }
+
+    await ctx.db.patch(args.nodeId, {
+      attachments: existing.filter((attachment) => attachment.storageId !== args.storageId),
+      updatedAt: Date.now(),
+    });
+    await deleteAttachmentFile(ctx, args.storageId);
+  },
+});
+
+/**
+ * A node's attachments with URLs for thumbnails and downloads
+ */
+export const listAttachments = query({
+  args: { nodeId: v.id("nodes") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+
+    const node = await ctx.db.get(args.nodeId);
+    if (!node) {
+      return [];
+    }
+
+    // Check board access (public boards are readable, as in listNodesByBoard)
+    const board = await ctx.db.get(node.boardId);
+    if (!board || (board.ownerUserId !== userId && !board.isPublic)) {
+      throw new Error("Access denied");
+    }
+
+    return await Promise.all((node.attachments ?? []).map(async (attachment) => ({
+      ...attachment,
+      kind: attachmentKind(attachment.mimeType),
+      url: await ctx.storage.getUrl(attachment.storageId),
+    })));
+  },
+});
+
+/**
+ * Delete an attachment's stored file, unless a board snapshot still needs it
+ * (the snapshot deletes it once nothing else does, see snapshots.ts)
+ */
+export async function deleteAttachmentFile(ctx: any, storageId: Id<"_storage">): Promise<void> {
+  const snapshotFile = await ctx.db
+    .query("snapshotFiles")
+    .withIndex("by_storage", (q: any) => q.eq("storageId", storageId))
+    .first();
+  if (!snapshotFile) {
+    await ctx.storage.delete(storageId);
+  }
+}
+
+/**
+ * Delete the stored files of nodes that are being deleted
+ */
+export async function deleteAttachmentFiles(ctx: any, nodes: Doc<"nodes">[]): Promise<void> {
+  for (const node of nodes) {
+    for (const attachment of node.attachments ?? []) {
+      await deleteAttachmentFile(ctx, attachment.storageId);
+    }
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Load the files attached to messages for a completion (actions only).
+ * Text files are inlined into the message; images and PDFs are attached
+ * for vision models and otherwise replaced by a note that they were omitted.
+ */
+export async function loadAttachments(
+  ctx: any,
+  messages: MessageWithFiles[],
+  vision: boolean
+): Promise<ChatMessage[]> {
+  return await Promise.all(messages.map(async ({ attachments: files, ...message }) => {
+    if (!files || files.length === 0) {
+      return message;
+    }
+
+    const attachments: ChatAttachment[] = [];
+    const notes: string[] = [];
+    for (const file of files) {
+      const kind = attachmentKind(file.mimeType);
+      const blob: Blob | null = kind ? await ctx.storage.get(file.storageId) : null;
+      if (!kind || !blob) {
+        notes.push(`[Attachment ${file.name} is no longer available]`);
+      } else if (kind === "text") {
+        const text = await blob.text();
+        const inlined = text.length > MAX_INLINED_TEXT_CHARS ? `${text.slice(0, MAX_INLINED_TEXT_CHARS)}\n[truncated]` : text;
+        notes.push(`Attached file ${file.name}:\n\`\`\`\n${inlined}\n\`\`\``);
+      } else if (vision) {
+        attachments.push({
+          kind,
+          name: file.name,
+          mimeType: file.mimeType,
+          data: toBase64(new Uint8Array(await blob.arrayBuffer())),
+        });
+      } else {
+        notes.push(`[Attached ${kind === "image" ? "image" : "file"} ${file.name} omitted: this model cannot read it]`);
+      }
+    }
+
+    return {
+      ...message,
+      content: [message.content, ...notes].filter(Boolean).join("\n\n"),
+      attachments: attachments.length > 0 ? attachments : undefined,
+    };
+  }));
+}
@@ -0,0 +1,253 @@
+import { query, mutation } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { requireAuth } from "./security";
+import { validateNodeContent } from "./validation";
+import { calculateCost, getContextWindow } from "./providers";
+import { assembleContext, contextBudget, estimateTokens } from "./context";
+import { frameBounds, findFrameAt, findFrameChildren } from "./frames";
+import { cancelActiveJob } from "./jobs";
+import { GenerationSettings, resolveGenerationSettings, scheduleResponse } from "./nodes";
+
+/**
+ * Batch runs: one instruction applied to every node inside a frame. Each
+ * child gets an instruction message branched from it and its own response;
+ * progress is read back from those response nodes.
+ */
+
+// Items share the per-user generation rate limit with everything else the
+// user runs; jobs over it wait for the limit (see jobs.markJobRunning) rather than fail
+const MAX_BATCH_ITEMS = 25;
+
+// Instruction messages stack in a column to the right of the frame
+const BATCH_COLUMN_GAP = 100;
+const BATCH_ROW_HEIGHT = 400;
+
+type BatchPlan = {
+  frame: Doc<"nodes">;
+  children: Doc<"nodes">[];
+  skipped: number;
+  instruction: string;
+  settings: GenerationSettings;
+};
+
+// Nodes a batch can answer: anything with text, except tool records
+function isBatchable(node: Doc<"nodes">): boolean {
+  return node.type !== "toolCall" && node.type !== "toolResult" && node.content.trim().length > 0;
+}
+
+// Validate a batch request and work out what it would run
+async function planBatch(
+  ctx: any,
+  userId: Id<"users">,
+  args: { frameNodeId: Id<"nodes">; instruction: string; provider?: string; model?: string }
+): Promise<BatchPlan> {
+  const frame: Doc<"nodes"> | null = await ctx.db.get(args.frameNodeId);
+  if (!frame || frame.type !== "frame") {
+    throw new Error("Frame not found");
+  }
+
+  // Check board access
+  const board = await ctx.db.get(frame.boardId);
+  if (!board || board.ownerUserId !== userId) {
+    throw new Error("Access denied");
+  }
+
+  // Validate and sanitize inputs
+  const instruction = validateNodeContent(args.instruction);
+  if (instruction.length === 0) {
+    throw new Error("Instruction cannot be empty");
+  }
+
+  const candidates = await findFrameChildren(ctx, frame);
+  const children = candidates.filter(isBatchable);
+  if (children.length === 0) {
+    throw new Error("The frame has no nodes to run against");
+  }
+  if (children.length > MAX_BATCH_ITEMS) {
+    throw new Error(`A batch can run against at most ${MAX_BATCH_ITEMS} nodes`);
+  }
+
+  const settings = await resolveGenerationSettings(ctx, board, { provider: args.provider, model: args.model });
+  return { frame, children, skipped: candidates.length - children.length, instruction, settings };
+}
+
+// Upper bound on cost: each child's context plus the instruction, and a full max-length reply
+async function estimateBatch(ctx: any, plan: BatchPlan) {
+  const { settings } = plan;
+  const budget = contextBudget(getContextWindow(settings.provider, settings.model), settings.maxTokens);
+
+  let inputTokens = 0;
+  for (const child of plan.children) {
+    const { report } = await assembleContext(ctx, child._id, settings.systemPrompt, budget);
+    inputTokens += Math.min(budget, report.estimatedTokens + estimateTokens(plan.instruction));
+  }
+  const maxOutputTokens = settings.maxTokens * plan.children.length;
+
+  return {
+    items: plan.children.length,
+    skipped: plan.skipped,
+    provider: settings.provider,
+    model: settings.model,
+    inputTokens,
+    maxOutputTokens,
+    estimatedCost: calculateCost(settings.provider, settings.model, inputTokens, maxOutputTokens),
+  };
+}
+
+/**
+ * What a batch run would do and cost, shown before starting it
+ */
+export const estimateBatchRun = query({
+  args: {
+    frameNodeId: v.id("nodes"),
+    instruction: v.string(),
+    provider: v.optional(v.string()),
+    model: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    return await estimateBatch(ctx, await planBatch(ctx, userId, args));
+  },
+});
+
+export const startBatchRun = mutation({
+  args: {
+    frameNodeId: v.id("nodes"),
+    instruction: v.string(),
+    provider: v.optional(v.string()),
+    model: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<Id<"batchRuns">> => {
+    const userId = await requireAuth(ctx);
+    const plan = await planBatch(ctx, userId, args);
+    const estimate = await estimateBatch(ctx, plan);
+    const bounds = frameBounds(plan.frame);
+
+    const items: Doc<"batchRuns">["items"] = [];
+    for (const [row, child] of plan.children.entries()) {
+      // Messages landing inside another frame join it
+      const position = { x: bounds.right + BATCH_COLUMN_GAP, y: bounds.top + row * BATCH_ROW_HEIGHT };
+      const frame = await findFrameAt(ctx, plan.frame.boardId, position);
+      const messageNodeId = await ctx.db.insert("nodes", {
+        boardId: plan.frame.boardId,
+        type: "message",
+        role: "user",
+        content: plan.instruction,
+        position,
+        collapsed: false,
+        parentFrameId: frame?._id,
+        meta: {},
+        createdBy: userId,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      });
+
+      await ctx.db.insert("edges", {
+        boardId: plan.frame.boardId,
+        srcNodeId: child._id,
+        dstNodeId: messageNodeId,
+        kind: "lineage",
+        createdBy: userId,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      });
+
+      const messageNode = await ctx.db.get(messageNodeId);
+      const responseNodeId = await scheduleResponse(ctx, userId, messageNode!, plan.settings);
+      items.push({ childNodeId: child._id, messageNodeId, responseNodeId });
+    }
+
+    return await ctx.db.insert("batchRuns", {
+      boardId: plan.frame.boardId,
+      frameNodeId: plan.frame._id,
+      userId,
+      instruction: plan.instruction,
+      provider: plan.settings.provider,
+      model: plan.settings.model,
+      items,
+      estimatedCost: estimate.estimatedCost,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * The frame's most recent batch run with its progress, or null if it has none
+ */
+export const getLatestBatchRun = query({
+  args: { frameNodeId: v.id("nodes") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+
+    const runs = await ctx.db
+      .query("batchRuns")
+      .withIndex("by_frame", (q) => q.eq("frameNodeId", args.frameNodeId))
+      .collect();
+    const run = runs.sort((a, b) => b.createdAt - a.createdAt)[0];
+    if (!run) {
+      return null;
+    }
+    if (run.userId !== userId) {
+      throw new Error("Access denied");
+    }
+
+    // Deleted responses count as removed rather than pending
+    const progress = { total: run.items.length, done: 0, generating: 0, failed: 0, stopped: 0, removed: 0 };
+    let actualCost = 0;
+    for (const item of run.items) {
+      const response = await ctx.db.get(item.responseNodeId);
+      if (!response) {
+        progress.removed++;
+      } else if (response.meta.status) {
+        progress[response.meta.status]++;
+      } else {
+        progress.done++;
+      }
+      if (response?.meta.tokens) {
+        actualCost += calculateCost(run.provider, run.model, response.meta.tokens.input, response.meta.tokens.output);
+      }
+    }
+
+    return {
+      _id: run._id,
+      instruction: run.instruction,
+      provider: run.provider,
+      model: run.model,
+      estimatedCost: run.estimatedCost,
+      actualCost,
+      cancelled: !!run.cancelled,
+      createdAt: run.createdAt,
+      progress,
+    };
+  },
+});
+
+export const cancelBatchRun = mutation({
+  args: { batchRunId: v.id("batchRuns") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+
+    const run = await ctx.db.get(args.batchRunId);
+    if (!run || run.userId !== userId) {
+      throw new Error("Batch run not found");
+    }
+
+    // Check board access
+    const board = await ctx.db.get(run.boardId);
+    if (!board || board.ownerUserId !== userId) {
+      throw new Error("Access denied");
+    }
+
+    let cancelled = 0;
+    for (const item of run.items) {
+      if (await cancelActiveJob(ctx, item.responseNodeId)) {
+        cancelled++;
+      }
+    }
+
+    await ctx.db.patch(args.batchRunId, { cancelled: true, updatedAt: Date.now() });
+    return cancelled;
+  },
+});
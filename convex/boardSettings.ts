@@ -0,0 +1,119 @@
+import { v } from "convex/values";
+import {
+  validateMaxTokens,
+  validateModelName,
+  validateProviderName,
+  validateSystemPrompt,
+  validateTemperature,
+} from "./validation";
+
+/**
+ * Typed per-board settings, stored as JSON in `boards.settingsJson`
+ */
+
+export type WebSearchPolicy = "off" | "auto" | "always";
+
+export type BoardSettings = {
+  systemPrompt?: string;
+  defaultProvider?: string;
+  defaultModel?: string;
+  temperature?: number;
+  maxTokens?: number;
+  webSearch?: WebSearchPolicy;
+  // Let responses call the tools in tools.ts
+  tools?: boolean;
+};
+
+export const DEFAULT_SYSTEM_PROMPT = "You are a helpful assistant. Respond to the user's message based on the context provided.";
+
+export const webSearchPolicyValidator = v.union(v.literal("off"), v.literal("auto"), v.literal("always"));
+
+/**
+ * Whether to search the web when answering a message. The board policy is
+ * the default: "off" disables search outright, "always" searches unless a
+ * message is set to "off", and "auto" (the default) leaves search off unless
+ * a message is set to "always". A message set to "auto" follows the board.
+ */
+export function resolveWebSearch(
+  boardPolicy: WebSearchPolicy | undefined,
+  messagePolicy: WebSearchPolicy | undefined
+): boolean {
+  if (boardPolicy === "off") return false;
+  if (messagePolicy && messagePolicy !== "auto") return messagePolicy === "always";
+  return boardPolicy === "always";
+}
+
+export const boardSettingsValidator = v.object({
+  systemPrompt: v.optional(v.string()),
+  defaultProvider: v.optional(v.string()),
+  defaultModel: v.optional(v.string()),
+  temperature: v.optional(v.number()),
+  maxTokens: v.optional(v.number()),
+  webSearch: v.optional(webSearchPolicyValidator),
+  tools: v.optional(v.boolean()),
+});
+
+function isWebSearchPolicy(value: unknown): value is WebSearchPolicy {
+  return value === "off" || value === "auto" || value === "always";
+}
+
+// Validate each field; lenient mode drops invalid fields instead of throwing,
+// so settings saved before a provider or model was removed still load
+function normalizeSettings(raw: any, lenient: boolean): BoardSettings {
+  const settings: BoardSettings = {};
+
+  const apply = <K extends keyof BoardSettings>(field: K, validate: (value: any) => BoardSettings[K]) => {
+    if (raw[field] === undefined || raw[field] === null || raw[field] === "") return;
+    try {
+      const value = validate(raw[field]);
+      if (value !== undefined) settings[field] = value;
+    } catch (error) {
+      if (!lenient) throw error;
+    }
+  };
+
+  apply("systemPrompt", validateSystemPrompt);
+  apply("defaultProvider", validateProviderName);
+  if (settings.defaultProvider) {
+    apply("defaultModel", (model) => validateModelName(model, settings.defaultProvider));
+  } else if (raw.defaultModel && !lenient) {
+    throw new Error("A default model requires a default provider");
+  }
+  apply("temperature", validateTemperature);
+  apply("maxTokens", validateMaxTokens);
+  apply("webSearch", (policy) => {
+    if (!isWebSearchPolicy(policy)) {
+      throw new Error("Web search policy must be off, auto or always");
+    }
+    return policy;
+  });
+  apply("tools", (enabled) => {
+    if (typeof enabled !== "boolean") {
+      throw new Error("Tools setting must be true or false");
+    }
+    return enabled;
+  });
+
+  return settings;
+}
+
+/**
+ * Validate settings submitted by a client, throwing on the first invalid field
+ */
+export function validateBoardSettings(settings: BoardSettings): BoardSettings {
+  return normalizeSettings(settings, false);
+}
+
+/**
+ * Read a board's stored settings, ignoring anything malformed
+ */
+export function parseBoardSettings(settingsJson: string | undefined): BoardSettings {
+  if (!settingsJson) return {};
+
+  try {
+    const raw = JSON.parse(settingsJson);
+    return raw && typeof raw === "object" ? normalizeSettings(raw, true) : {};
+  } catch (error) {
+    return {};
+  }
+}
@@ -4,6 +4,10 @@ import { getAuthUserId } from "@convex-dev/auth/server";
 import { requireAuth, requireUserOwnership } from "./security";
 import { validateBoardTitle, validateBoardDescription } from "./validation";
 import { checkAccess, requireAccess, logAccessAttempt } from "./acl";
+import { deleteAttachmentFiles } from "./attachments";
+import { cancelActiveJob } from "./jobs";
+import { deleteBoardSnapshots, takeAutoSnapshot } from "./snapshots";
+import { boardSettingsValidator, parseBoardSettings, validateBoardSettings } from "./boardSettings";
 
 export const listBoards = query({
   args: {},
@@ -77,6 +81,7 @@ export const updateBoardMeta = mutation({
     title: v.optional(v.string()),
     description: v.optional(v.string()),
     isPublic: v.optional(v.boolean()),
+    defaultApiKeyId: v.optional(v.union(v.id("apiKeys"), v.null())),
   },
   handler: async (ctx, args) => {
     const userId = await requireAuth(ctx);
@@ -98,6 +103,17 @@ export const updateBoardMeta = mutation({
     if (args.title !== undefined) updates.title = validateBoardTitle(args.title);
     if (args.description !== undefined) updates.description = validateBoardDescription(args.description);
     if (args.isPublic !== undefined) updates.isPublic = args.isPublic;
+    if (args.defaultApiKeyId !== undefined) {
+      if (args.defaultApiKeyId === null) {
+        updates.defaultApiKeyId = undefined;
+      } else {
+        const key = await ctx.db.get(args.defaultApiKeyId);
+        if (!key || key.ownerUserId !== userId || key.status !== "active") {
+          throw new Error("API key not found or access denied");
+        }
+        updates.defaultApiKeyId = args.defaultApiKeyId;
+      }
+    }
 
     await ctx.db.patch(args.boardId, updates);
     
@@ -106,6 +122,62 @@ export const updateBoardMeta = mutation({
   },
 });
 
+export const getBoardSettings = query({
+  args: { boardId: v.id("boards") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+
+    // Check access using ACL system
+    const hasAccess = await checkAccess(ctx, "board", args.boardId, "read");
+    if (!hasAccess) {
+      await logAccessAttempt(ctx, userId, "board", args.boardId, "read", false);
+      throw new Error("Access denied");
+    }
+
+    const board = await ctx.db.get(args.boardId);
+    if (!board) {
+      throw new Error("Board not found");
+    }
+
+    return parseBoardSettings(board.settingsJson);
+  },
+});
+
+export const updateBoardSettings = mutation({
+  args: {
+    boardId: v.id("boards"),
+    settings: boardSettingsValidator,
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+
+    // Check write access using ACL system
+    const hasAccess = await checkAccess(ctx, "board", args.boardId, "write");
+    if (!hasAccess) {
+      await logAccessAttempt(ctx, userId, "board", args.boardId, "update", false);
+      throw new Error("Access denied");
+    }
+
+    const board = await ctx.db.get(args.boardId);
+    if (!board) {
+      throw new Error("Board not found");
+    }
+
+    // Validate and sanitize inputs (replaces the stored settings wholesale)
+    const settings = validateBoardSettings(args.settings);
+
+    await ctx.db.patch(args.boardId, {
+      settingsJson: JSON.stringify(settings),
+      updatedAt: Date.now(),
+    });
+
+    // Log successful update
+    await logAccessAttempt(ctx, userId, "board", args.boardId, "update", true);
+
+    return settings;
+  },
+});
+
 export const clearBoard = mutation({
   args: { boardId: v.id("boards") },
   handler: async (ctx, args) => {
@@ -118,6 +190,9 @@ export const clearBoard = mutation({
       throw new Error("Access denied");
     }
 
+    // Keep the board restorable
+    const snapshot = await takeAutoSnapshot(ctx, userId, args.boardId, "Before clearing the board");
+
     try {
       // Delete all nodes for this board
       const nodes = await ctx.db
@@ -125,7 +200,15 @@ export const clearBoard = mutation({
         .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
         .collect();
       
+      // Stop generations first so they don't keep streaming into deleted nodes
+      for (const node of nodes) {
+        if (node.type === "response") {
+          await cancelActiveJob(ctx, node._id);
+        }
+      }
+
       // Security: No logging of sensitive data
+      await deleteAttachmentFiles(ctx, nodes);
       for (const node of nodes) {
         await ctx.db.delete(node._id);
       }
@@ -141,6 +224,26 @@ export const clearBoard = mutation({
         await ctx.db.delete(edge._id);
       }
 
+      // Delete all response versions for this board
+      const versions = await ctx.db
+        .query("responseVersions")
+        .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+        .collect();
+
+      for (const version of versions) {
+        await ctx.db.delete(version._id);
+      }
+
+      // Batch runs only point at the deleted nodes
+      const batchRuns = await ctx.db
+        .query("batchRuns")
+        .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+        .collect();
+
+      for (const batchRun of batchRuns) {
+        await ctx.db.delete(batchRun._id);
+      }
+
       // Delete all tags for this board
       const tags = await ctx.db
         .query("tags")
@@ -165,7 +268,7 @@ export const clearBoard = mutation({
 
       // Board cleared successfully
       await logAccessAttempt(ctx, userId, "board", args.boardId, "clear", true);
-      return { success: true, deleted: { nodes: nodes.length, edges: edges.length, tags: tags.length, nodeTags: boardNodeTags.length } };
+      return { success: true, deleted: { nodes: nodes.length, edges: edges.length, tags: tags.length, nodeTags: boardNodeTags.length }, snapshot };
     } catch (error) {
       // Security: Log error without sensitive data
       await logAccessAttempt(ctx, userId, "board", args.boardId, "clear", false, error instanceof Error ? error.message : String(error));
@@ -192,12 +295,16 @@ export const deleteBoard = mutation({
       throw new Error("Board not found");
     }
 
+    // Snapshots go first: they only release attachment files no node still uses
+    await deleteBoardSnapshots(ctx, args.boardId);
+
     // Delete all nodes, edges, tags, etc. for this board
     const nodes = await ctx.db
       .query("nodes")
       .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
       .collect();
     
+    await deleteAttachmentFiles(ctx, nodes);
     for (const node of nodes) {
       await ctx.db.delete(node._id);
     }
@@ -211,6 +318,42 @@ export const deleteBoard = mutation({
       await ctx.db.delete(edge._id);
     }
 
+    const versions = await ctx.db
+      .query("responseVersions")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+
+    for (const version of versions) {
+      await ctx.db.delete(version._id);
+    }
+
+    const jobs = await ctx.db
+      .query("generationJobs")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+
+    for (const job of jobs) {
+      await ctx.db.delete(job._id);
+    }
+
+    const batchRuns = await ctx.db
+      .query("batchRuns")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+
+    for (const batchRun of batchRuns) {
+      await ctx.db.delete(batchRun._id);
+    }
+
+    const templates = await ctx.db
+      .query("promptTemplates")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+
+    for (const template of templates) {
+      await ctx.db.delete(template._id);
+    }
+
     // Delete all tags for this board
     const tags = await ctx.db
       .query("tags")
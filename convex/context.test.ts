@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { Doc, Id } from "./_generated/dataModel";
+import { assembleContext, estimateTokens } from "./context";
+import { setupBoard } from "./test.helpers";
+
+type NodeSpec = { type: Doc<"nodes">["type"]; content: string; title?: string };
+
+// A conversation chain (each node a lineage child of the one before) and any
+// reference nodes attached to its last node
+async function setupConversation(chain: NodeSpec[], references: NodeSpec[] = []) {
+  const { t, userId, boardId } = await setupBoard();
+  const ids = await t.run(async (ctx) => {
+    const insertNode = (spec: NodeSpec, index: number) => ctx.db.insert("nodes", {
+      boardId,
+      ...spec,
+      position: { x: 0, y: index * 300 },
+      collapsed: false,
+      meta: {},
+      createdBy: userId,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+    const insertEdge = (srcNodeId: Id<"nodes">, dstNodeId: Id<"nodes">, kind: "lineage" | "reference") =>
+      ctx.db.insert("edges", { boardId, srcNodeId, dstNodeId, kind, createdBy: userId, createdAt: Date.now(), updatedAt: Date.now() });
+
+    const chainIds: Id<"nodes">[] = [];
+    for (const [index, spec] of chain.entries()) {
+      chainIds.push(await insertNode(spec, index));
+      if (index > 0) await insertEdge(chainIds[index - 1], chainIds[index], "lineage");
+    }
+    const referenceIds: Id<"nodes">[] = [];
+    for (const spec of references) {
+      referenceIds.push(await insertNode(spec, 0));
+      await insertEdge(referenceIds[referenceIds.length - 1], chainIds[chainIds.length - 1], "reference");
+    }
+    return { chainIds, referenceIds };
+  });
+
+  const assemble = (budget: number, systemPrompt = "Be helpful.") =>
+    t.run(async (ctx) => await assembleContext(ctx, ids.chainIds[ids.chainIds.length - 1], systemPrompt, budget));
+  return { ...ids, assemble };
+}
+
+// Text of about 100 tokens, with no sentence breaks to summarize at
+const LONG = "abcd".repeat(100);
+
+describe("assembleContext", () => {
+  it("sends the whole lineage in order when it fits", async () => {
+    const { chainIds, referenceIds, assemble } = await setupConversation(
+      [
+        { type: "message", content: "What is a frame?" },
+        { type: "response", content: "A container for nodes." },
+        { type: "message", content: "Can frames nest?" },
+      ],
+      [{ type: "note", title: "Spec", content: "Frames nest inside larger frames." }]
+    );
+
+    const { messages, report } = await assemble(10000);
+
+    expect(messages.map((message) => message.role)).toEqual(["system", "system", "user", "assistant", "user"]);
+    expect(messages[1].content).toContain("[Reference 1: Spec]\nFrames nest inside larger frames.");
+    expect(messages.slice(2).map((message) => message.content)).toEqual([
+      "What is a frame?",
+      "A container for nodes.",
+      "Can frames nest?",
+    ]);
+    expect(report.included).toEqual([chainIds[2], referenceIds[0], chainIds[1], chainIds[0]]);
+    expect(report.truncated).toEqual([]);
+    expect(report.summarized).toEqual([]);
+    expect(report.dropped).toEqual([]);
+    expect(report.estimatedTokens).toBe(messages.reduce((total, message) => total + estimateTokens(message.content), 0));
+  });
+
+  it("keeps the newest turns, summarizes older ones and drops what doesn't fit", async () => {
+    const { chainIds, assemble } = await setupConversation([
+      { type: "message", content: LONG },
+      { type: "response", content: LONG },
+      { type: "message", content: LONG },
+      { type: "response", content: LONG },
+      { type: "message", content: LONG },
+    ]);
+
+    const { messages, report } = await assemble(300, "S");
+
+    expect(report.included).toEqual([chainIds[4], chainIds[3]]);
+    expect(report.summarized).toEqual([chainIds[2]]);
+    expect(report.dropped).toEqual([chainIds[0], chainIds[1]]);
+    expect(messages.map((message) => message.role)).toEqual(["system", "system", "assistant", "user"]);
+    expect(messages[1].content).toMatch(/^Summary of earlier conversation .*\n- User: a/);
+    expect(report.estimatedTokens).toBeLessThanOrEqual(300);
+  });
+
+  it("truncates the node being answered when it alone exceeds the budget", async () => {
+    const { chainIds, assemble } = await setupConversation([
+      { type: "message", content: "Earlier question" },
+      { type: "message", content: LONG.repeat(5) },
+    ]);
+
+    const { messages, report } = await assemble(100, "S");
+
+    expect(report.truncated).toEqual([chainIds[1]]);
+    expect(report.dropped).toEqual([chainIds[0]]);
+    expect(messages[messages.length - 1].content).toMatch(/\[\.\.\.truncated\]$/);
+    expect(report.estimatedTokens).toBeLessThanOrEqual(100);
+  });
+
+  it("limits references to half of the remaining budget", async () => {
+    const { referenceIds, assemble } = await setupConversation(
+      [{ type: "message", content: "Summarize the attached notes" }],
+      [
+        { type: "note", content: LONG.repeat(2) },
+        { type: "note", content: LONG.repeat(2) },
+      ]
+    );
+
+    const { report } = await assemble(500, "S");
+
+    // ~200 tokens each against a reference budget of ~240
+    expect(report.included).toContain(referenceIds[0]);
+    expect(report.dropped).toEqual([referenceIds[1]]);
+  });
+});
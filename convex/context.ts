@@ -0,0 +1,269 @@
+import { Doc, Id } from "./_generated/dataModel";
+import { validateNodeContent } from "./validation";
+
+/**
+ * Conversation context building from the board graph
+ */
+
+export type ContextMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+  // Stored files, loaded when the completion runs (see attachments.ts)
+  attachments?: Doc<"nodes">["attachments"];
+};
+
+// Guard against pathological graphs (cycles are also tracked explicitly)
+const MAX_LINEAGE_DEPTH = 500;
+
+/**
+ * Walk incoming lineage edges from a node back to its root.
+ * Returns the path ordered root -> node (inclusive). Where a node has
+ * several lineage parents, the earliest-created edge is followed.
+ */
+export async function collectLineage(ctx: any, nodeId: Id<"nodes">): Promise<Doc<"nodes">[]> {
+  const path: Doc<"nodes">[] = [];
+  const visited = new Set<string>();
+  let currentId: Id<"nodes"> | null = nodeId;
+
+  while (currentId && !visited.has(currentId) && path.length < MAX_LINEAGE_DEPTH) {
+    visited.add(currentId);
+
+    const node: Doc<"nodes"> | null = await ctx.db.get(currentId);
+    if (!node) break;
+    path.push(node);
+
+    const incoming: Doc<"edges">[] = await ctx.db
+      .query("edges")
+      .withIndex("by_dst", (q: any) => q.eq("dstNodeId", currentId))
+      .collect();
+
+    const parentEdge = incoming
+      .filter((edge) => edge.kind === "lineage")
+      .sort((a, b) => a.createdAt - b.createdAt)[0];
+
+    currentId = parentEdge ? parentEdge.srcNodeId : null;
+  }
+
+  return path.reverse();
+}
+
+/**
+ * Nodes attached via `reference` edges to any node on the path,
+ * excluding nodes that are already part of the path
+ */
+export async function collectReferences(ctx: any, path: Doc<"nodes">[]): Promise<Doc<"nodes">[]> {
+  const onPath = new Set<string>(path.map((node) => node._id));
+  const seen = new Set<string>();
+  const references: Doc<"nodes">[] = [];
+
+  for (const node of path) {
+    const incoming: Doc<"edges">[] = await ctx.db
+      .query("edges")
+      .withIndex("by_dst", (q: any) => q.eq("dstNodeId", node._id))
+      .collect();
+
+    for (const edge of incoming) {
+      if (edge.kind !== "reference") continue;
+      if (onPath.has(edge.srcNodeId) || seen.has(edge.srcNodeId)) continue;
+      seen.add(edge.srcNodeId);
+
+      const referenced = await ctx.db.get(edge.srcNodeId);
+      if (referenced && referenced.content) {
+        references.push(referenced);
+      }
+    }
+  }
+
+  return references;
+}
+
+/**
+ * Chat role a node plays in a conversation
+ */
+export function roleForNode(node: Doc<"nodes">): "user" | "assistant" {
+  if (node.role) return node.role;
+  return node.type === "response" ? "assistant" : "user";
+}
+
+/**
+ * Render referenced nodes as a single, clearly labelled block of attached context
+ */
+export function formatReferences(references: Doc<"nodes">[]): string {
+  const sections = references.map((node, index) => {
+    const label = node.title || `${node.type} ${index + 1}`;
+    return `[Reference ${index + 1}: ${label}]\n${node.content}`;
+  });
+
+  return [
+    "The user has attached the following reference material from their board. Use it as context; it is not part of the conversation itself.",
+    ...sections,
+  ].join("\n\n");
+}
+
+// Rough token estimate (~4 characters per token) plus per-message overhead.
+// Deliberately conservative; we never need an exact count, only a safe fit.
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Headroom left for estimation error and provider-side framing
+const CONTEXT_SAFETY_RATIO = 0.9;
+const MIN_CONTEXT_BUDGET = 1024;
+
+// Below this, a truncated reference is not worth sending at all
+const MIN_TRUNCATED_TOKENS = 64;
+const SUMMARY_LINE_CHARS = 240;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Prompt token budget for a model: its context window, less the tokens
+ * reserved for the response
+ */
+export function contextBudget(contextWindow: number, maxOutputTokens: number): number {
+  return Math.max(MIN_CONTEXT_BUDGET, Math.floor(contextWindow * CONTEXT_SAFETY_RATIO) - maxOutputTokens);
+}
+
+function truncateToTokens(text: string, tokens: number): string {
+  const maxChars = Math.max(0, (tokens - MESSAGE_OVERHEAD_TOKENS) * CHARS_PER_TOKEN - 20);
+  if (text.length <= maxChars) return text;
+  return `${text.slice(0, maxChars).trimEnd()}\n[...truncated]`;
+}
+
+// Extractive one-line summary: the opening of the text, cut at a sentence
+// boundary where possible. Mutations cannot call a model, so this stays local.
+function summarizeContent(text: string): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  if (flat.length <= SUMMARY_LINE_CHARS) return flat;
+
+  const head = flat.slice(0, SUMMARY_LINE_CHARS);
+  const sentenceEnd = Math.max(head.lastIndexOf(". "), head.lastIndexOf("? "), head.lastIndexOf("! "));
+  return sentenceEnd > SUMMARY_LINE_CHARS / 2 ? head.slice(0, sentenceEnd + 1) : `${head.trimEnd()}...`;
+}
+
+export type ContextReport = {
+  included: Id<"nodes">[];
+  truncated: Id<"nodes">[];
+  summarized: Id<"nodes">[];
+  dropped: Id<"nodes">[];
+  estimatedTokens: number;
+  budget: number;
+};
+
+export type AssembledContext = {
+  messages: ContextMessage[];
+  report: ContextReport;
+};
+
+/**
+ * Build the message array for a node within a token budget: system prompt,
+ * attached references, then the turns along the lineage path in graph order.
+ *
+ * The node itself is always sent (truncated if it alone exceeds the budget).
+ * References may use up to half of what remains, then ancestors are added
+ * newest first. Once an ancestor no longer fits, it and everything older is
+ * condensed into a summary block; whatever does not fit even summarized is
+ * dropped. The report records what happened to every node.
+ */
+export async function assembleContext(
+  ctx: any,
+  nodeId: Id<"nodes">,
+  systemPrompt: string,
+  budget: number
+): Promise<AssembledContext> {
+  const path = await collectLineage(ctx, nodeId);
+  const references = await collectReferences(ctx, path);
+  const turns = path.filter((node) => (node.content || node.attachments?.length) && node.type !== "frame");
+
+  const report: ContextReport = {
+    included: [],
+    truncated: [],
+    summarized: [],
+    dropped: [],
+    estimatedTokens: 0,
+    budget,
+  };
+  let remaining = budget - estimateTokens(systemPrompt);
+
+  // The node being answered
+  const latest = turns.pop();
+  let latestMessage: ContextMessage | undefined;
+  if (latest) {
+    let content = validateNodeContent(latest.content);
+    if (estimateTokens(content) > remaining) {
+      content = truncateToTokens(content, remaining);
+      report.truncated.push(latest._id);
+    } else {
+      report.included.push(latest._id);
+    }
+    latestMessage = { role: roleForNode(latest), content, attachments: latest.attachments };
+    remaining -= estimateTokens(content);
+  }
+
+  // Attached references
+  let referenceBudget = Math.floor(remaining / 2);
+  const beforeReferences = remaining;
+  const keptReferences: Doc<"nodes">[] = [];
+  for (const node of references) {
+    let content = validateNodeContent(node.content);
+    const cost = estimateTokens(content);
+    if (cost <= referenceBudget) {
+      report.included.push(node._id);
+    } else if (referenceBudget >= MIN_TRUNCATED_TOKENS) {
+      content = truncateToTokens(content, referenceBudget);
+      report.truncated.push(node._id);
+    } else {
+      report.dropped.push(node._id);
+      continue;
+    }
+    keptReferences.push({ ...node, content });
+    referenceBudget -= estimateTokens(content);
+  }
+
+  let referenceMessage: ContextMessage | undefined;
+  if (keptReferences.length > 0) {
+    referenceMessage = { role: "system", content: formatReferences(keptReferences) };
+    remaining = beforeReferences - estimateTokens(referenceMessage.content);
+  }
+
+  // Ancestors, newest first, until the first one that does not fit
+  const fullTurns: ContextMessage[] = [];
+  let index = turns.length - 1;
+  for (; index >= 0; index--) {
+    const content = validateNodeContent(turns[index].content);
+    const cost = estimateTokens(content);
+    if (cost > remaining) break;
+    fullTurns.unshift({ role: roleForNode(turns[index]), content, attachments: turns[index].attachments });
+    report.included.push(turns[index]._id);
+    remaining -= cost;
+  }
+
+  // Everything older is condensed, newest first, while the summary still fits
+  const summaryLines: string[] = [];
+  const summaryHeader = "Summary of earlier conversation (condensed to fit the context window):";
+  remaining -= estimateTokens(summaryHeader);
+  for (; index >= 0; index--) {
+    const node = turns[index];
+    const line = `- ${roleForNode(node) === "assistant" ? "Assistant" : "User"}: ${summarizeContent(validateNodeContent(node.content))}`;
+    const cost = Math.ceil((line.length + 1) / CHARS_PER_TOKEN);
+    if (cost > remaining) break;
+    summaryLines.unshift(line);
+    report.summarized.unshift(node._id);
+    remaining -= cost;
+  }
+  for (; index >= 0; index--) {
+    report.dropped.unshift(turns[index]._id);
+  }
+
+  const messages: ContextMessage[] = [{ role: "system", content: systemPrompt }];
+  if (referenceMessage) messages.push(referenceMessage);
+  if (summaryLines.length > 0) {
+    messages.push({ role: "system", content: [summaryHeader, ...summaryLines].join("\n") });
+  }
+  messages.push(...fullTurns);
+  if (latestMessage) messages.push(latestMessage);
+
+  report.estimatedTokens = messages.reduce((total, message) => total + estimateTokens(message.content), 0);
+  return { messages, report };
+}
@@ -0,0 +1,10 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Automatic board snapshots and their retention (see snapshots.ts)
+crons.interval("snapshot changed boards", { hours: 1 }, internal.snapshots.snapshotActiveBoards, {});
+crons.daily("prune expired snapshots", { hourUTC: 4, minuteUTC: 0 }, internal.snapshots.pruneExpiredSnapshots, {});
+
+export default crons;
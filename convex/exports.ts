@@ -1,8 +1,11 @@
-import { query, mutation } from "./_generated/server";
+import { query } from "./_generated/server";
 import { v } from "convex/values";
 import { getAuthUserId } from "@convex-dev/auth/server";
 import { requireAuth } from "./security";
 
+// Version of the exportJson document; bump when its shape changes incompatibly
+export const EXPORT_FORMAT_VERSION = 1;
+
 export const exportMarkdown = query({
   args: { boardId: v.id("boards") },
   handler: async (ctx, args) => {
@@ -61,7 +64,7 @@ export const exportMarkdown = query({
     if (citations.length > 0) {
       markdown += "\n## Citations\n\n";
       citations.forEach((citation, index) => {
-        markdown += `[${index + 1}]: ${citation}\n`;
+        markdown += `${index + 1}. ${citation}\n`;
       });
     }
 
@@ -98,7 +101,25 @@ export const exportJson = query({
       .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
       .collect();
 
+    const tags = await ctx.db
+      .query("tags")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+
+    const nodeTagIds: Record<string, string[]> = {};
+    for (const tag of tags) {
+      const nodeTags = await ctx.db
+        .query("nodeTags")
+        .withIndex("by_tag", (q) => q.eq("tagId", tag._id))
+        .collect();
+      for (const nodeTag of nodeTags) {
+        (nodeTagIds[nodeTag.nodeId] ??= []).push(tag._id);
+      }
+    }
+
+    // Read back by importBoardJson (see imports.ts)
     return JSON.stringify({
+      version: EXPORT_FORMAT_VERSION,
       board: {
         id: board._id,
         title: board.title,
@@ -109,11 +130,15 @@ export const exportJson = query({
       nodes: nodes.map(node => ({
         id: node._id,
         type: node.type,
+        role: node.role,
         title: node.title,
         content: node.content,
         position: node.position,
         size: node.size,
         collapsed: node.collapsed,
+        color: node.color,
+        parentFrameId: node.parentFrameId,
+        tags: nodeTagIds[node._id] ?? [],
         meta: node.meta,
         createdAt: node._creationTime,
         updatedAt: node.updatedAt,
@@ -126,6 +151,11 @@ export const exportJson = query({
         label: edge.label,
         createdAt: edge._creationTime,
       })),
+      tags: tags.map(tag => ({
+        id: tag._id,
+        name: tag.name,
+        color: tag.color,
+      })),
     }, null, 2);
   },
 });
@@ -144,15 +174,23 @@ function generateNodeMarkdown(
   const heading = "#".repeat(Math.min(depth, 6));
   let markdown = `${heading} ${node.title}\n\n`;
   
+  const sources: any[] = node.meta?.sources ?? [];
+
   if (node.content) {
-    markdown += `${node.content}\n\n`;
+    // Responses cite their own sources as [1], [2], ...; renumber into the document-wide list
+    const offset = citations.length;
+    const content = sources.length > 0
+      ? node.content.replace(/\[(\d+)\]/g, (marker: string, n: string) =>
+        Number(n) >= 1 && Number(n) <= sources.length ? `[${offset + Number(n)}]` : marker)
+      : node.content;
+    markdown += `${content}\n\n`;
   }
 
   // Add citations from node meta
-  if (node.meta?.sources) {
-    node.meta.sources.forEach((source: any) => {
+  if (sources.length > 0) {
+    sources.forEach((source: any) => {
       const citationIndex = citations.length + 1;
-      citations.push(`${source.title} - ${source.url}`);
+      citations.push(`[${source.title || source.url}](${source.url})`);
       markdown += `[${citationIndex}] `;
     });
     markdown += "\n\n";
@@ -172,66 +210,3 @@ function generateNodeMarkdown(
 
   return markdown;
 }
-
-export const clearBoard = mutation({
-  args: { boardId: v.id("boards") },
-  handler: async (ctx, args) => {
-    const userId = await requireAuth(ctx);
-    if (!userId) {
-      throw new Error("Not authenticated");
-    }
-
-    try {
-      // Delete all nodes for this board
-      const nodes = await ctx.db
-        .query("nodes")
-        .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
-        .collect();
-      
-      // Security: No logging of sensitive data
-      for (const node of nodes) {
-        await ctx.db.delete(node._id);
-      }
-
-      // Delete all edges for this board
-      const edges = await ctx.db
-        .query("edges")
-        .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
-        .collect();
-      
-      // Security: No logging of sensitive data
-      for (const edge of edges) {
-        await ctx.db.delete(edge._id);
-      }
-
-      // Delete all tags for this board
-      const tags = await ctx.db
-        .query("tags")
-        .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
-        .collect();
-      
-      // Security: No logging of sensitive data
-      for (const tag of tags) {
-        await ctx.db.delete(tag._id);
-      }
-
-      // Delete all node tags - get all node tags and filter by board
-      const allNodeTags = await ctx.db.query("nodeTags").collect();
-      const boardNodeTags = allNodeTags.filter(nt => 
-        nodes.some(node => node._id === nt.nodeId)
-      );
-      
-      // Security: No logging of sensitive data
-      for (const nodeTag of boardNodeTags) {
-        await ctx.db.delete(nodeTag._id);
-      }
-
-      // Board cleared successfully
-      return { success: true, deleted: { nodes: nodes.length, edges: edges.length, tags: tags.length, nodeTags: boardNodeTags.length } };
-    } catch (error) {
-      // Security: Log error without sensitive data
-      console.error("Error clearing board");
-      throw new Error(`Failed to clear board: ${error instanceof Error ? error.message : String(error)}`);
-    }
-  },
-});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { api } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { setupBoard } from "./test.helpers";
+
+async function setupFrames() {
+  const setup = await setupBoard();
+  const { t, userId, boardId } = setup;
+  const addNote = (x: number, y: number) =>
+    t.run(async (ctx) => await ctx.db.insert("nodes", {
+      boardId,
+      type: "note",
+      content: "Note",
+      position: { x, y },
+      collapsed: false,
+      meta: {},
+      createdBy: userId,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    }));
+  const getNode = (nodeId: Id<"nodes">) => t.run(async (ctx) => await ctx.db.get(nodeId));
+  return { ...setup, addNote, getNode };
+}
+
+describe("frame membership", () => {
+  it("puts a node in the innermost frame it lands in", async () => {
+    const { user, boardId, addNote, getNode } = await setupFrames();
+    const outer = await user.mutation(api.frames.createFrame, { boardId, position: { x: 0, y: 0 }, size: { width: 2000, height: 2000 } });
+    const inner = await user.mutation(api.frames.createFrame, { boardId, position: { x: 100, y: 100 }, size: { width: 500, height: 500 } });
+    const note = await addNote(3000, 3000);
+
+    await user.mutation(api.frames.moveNode, { nodeId: note, position: { x: 200, y: 200 } });
+    expect((await getNode(note))?.parentFrameId).toBe(inner);
+    expect((await getNode(inner))?.parentFrameId).toBe(outer);
+
+    await user.mutation(api.frames.moveNode, { nodeId: note, position: { x: 1500, y: 1500 } });
+    expect((await getNode(note))?.parentFrameId).toBe(outer);
+
+    await user.mutation(api.frames.moveNode, { nodeId: note, position: { x: 3000, y: 3000 } });
+    expect((await getNode(note))?.parentFrameId).toBeUndefined();
+  });
+
+  it("adopts nodes when a frame is drawn around them, without nesting larger frames in smaller ones", async () => {
+    const { user, boardId, addNote, getNode } = await setupFrames();
+    const note = await addNote(150, 150);
+    const small = await user.mutation(api.frames.createFrame, { boardId, position: { x: 100, y: 100 }, size: { width: 300, height: 300 } });
+    // Its corner lies inside the small frame, but it is larger, so it can't go in it
+    const large = await user.mutation(api.frames.createFrame, { boardId, position: { x: 120, y: 120 }, size: { width: 1000, height: 1000 } });
+
+    expect((await getNode(note))?.parentFrameId).toBe(small);
+    expect((await getNode(large))?.parentFrameId).toBeUndefined();
+    expect((await getNode(small))?.parentFrameId).toBeUndefined();
+  });
+
+  it("moves nested frames and their contents with the outer frame", async () => {
+    const { user, boardId, addNote, getNode } = await setupFrames();
+    const outer = await user.mutation(api.frames.createFrame, { boardId, position: { x: 0, y: 0 }, size: { width: 2000, height: 2000 } });
+    const inner = await user.mutation(api.frames.createFrame, { boardId, position: { x: 100, y: 100 }, size: { width: 500, height: 500 } });
+    const note = await addNote(200, 200);
+    await user.mutation(api.frames.moveNode, { nodeId: note, position: { x: 200, y: 200 } });
+
+    await user.mutation(api.frames.moveNode, { nodeId: outer, position: { x: 5000, y: 0 } });
+
+    expect((await getNode(inner))?.position).toEqual({ x: 5100, y: 100 });
+    expect((await getNode(note))?.position).toEqual({ x: 5200, y: 200 });
+    expect((await getNode(inner))?.parentFrameId).toBe(outer);
+    expect((await getNode(note))?.parentFrameId).toBe(inner);
+  });
+
+  it("moves a frame out of the frame it was in", async () => {
+    const { user, boardId, getNode } = await setupFrames();
+    await user.mutation(api.frames.createFrame, { boardId, position: { x: 0, y: 0 }, size: { width: 2000, height: 2000 } });
+    const inner = await user.mutation(api.frames.createFrame, { boardId, position: { x: 100, y: 100 }, size: { width: 500, height: 500 } });
+
+    await user.mutation(api.frames.moveNode, { nodeId: inner, position: { x: 4000, y: 4000 } });
+
+    expect((await getNode(inner))?.parentFrameId).toBeUndefined();
+  });
+
+  it("hands a deleted frame's children to the frame around it", async () => {
+    const { user, boardId, addNote, getNode } = await setupFrames();
+    const outer = await user.mutation(api.frames.createFrame, { boardId, position: { x: 0, y: 0 }, size: { width: 2000, height: 2000 } });
+    const inner = await user.mutation(api.frames.createFrame, { boardId, position: { x: 100, y: 100 }, size: { width: 500, height: 500 } });
+    const note = await addNote(200, 200);
+    await user.mutation(api.frames.moveNode, { nodeId: note, position: { x: 200, y: 200 } });
+
+    await user.mutation(api.nodes.deleteNode, { nodeId: inner });
+
+    expect(await getNode(inner)).toBeNull();
+    expect((await getNode(note))?.parentFrameId).toBe(outer);
+  });
+});
@@ -0,0 +1,280 @@
+import { mutation } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { requireAuth } from "./security";
+import { validateAndSanitizeText, validateNodeColor, validatePosition, MAX_LENGTHS } from "./validation";
+
+/**
+ * Frames: resizable containers that group the nodes dropped inside them.
+ *
+ * Membership is stored on the child (`parentFrameId`) and follows position:
+ * a node belongs to the innermost frame its top-left corner lands in. Frames
+ * nest the same way, inside the innermost larger frame (so membership can't
+ * form a cycle). Moving a frame moves everything in it, nested frames
+ * included, and collapsing it hides all of that.
+ */
+
+// Size of a frame that was never resized
+export const DEFAULT_FRAME_SIZE = { width: 800, height: 600 };
+const MIN_FRAME_SIZE = { width: 200, height: 120 };
+const MAX_FRAME_SIZE = 20000;
+
+type Position = { x: number; y: number };
+
+export function frameBounds(frame: Doc<"nodes">) {
+  const size = frame.size ?? DEFAULT_FRAME_SIZE;
+  return {
+    left: frame.position.x,
+    top: frame.position.y,
+    right: frame.position.x + size.width,
+    bottom: frame.position.y + size.height,
+  };
+}
+
+function containsPoint(frame: Doc<"nodes">, position: Position): boolean {
+  const bounds = frameBounds(frame);
+  return position.x >= bounds.left && position.x < bounds.right &&
+    position.y >= bounds.top && position.y < bounds.bottom;
+}
+
+function validateFrameSize(size: { width: number; height: number }) {
+  if (typeof size.width !== "number" || typeof size.height !== "number") {
+    throw new Error("Frame size must be numbers");
+  }
+  if (size.width > MAX_FRAME_SIZE || size.height > MAX_FRAME_SIZE) {
+    throw new Error("Frame is too large");
+  }
+  return {
+    width: Math.round(Math.max(MIN_FRAME_SIZE.width, size.width)),
+    height: Math.round(Math.max(MIN_FRAME_SIZE.height, size.height)),
+  };
+}
+
+async function listBoardNodes(ctx: any, boardId: Id<"boards">): Promise<Doc<"nodes">[]> {
+  return await ctx.db
+    .query("nodes")
+    .withIndex("by_board", (q: any) => q.eq("boardId", boardId))
+    .collect();
+}
+
+function frameArea(frame: Doc<"nodes">): number {
+  const size = frame.size ?? DEFAULT_FRAME_SIZE;
+  return size.width * size.height;
+}
+
+// Innermost frame among `frames` that `node` belongs to at `position`
+function innermostFrame(frames: Doc<"nodes">[], node: Doc<"nodes"> | undefined, position: Position): Doc<"nodes"> | undefined {
+  return frames
+    .filter((frame) =>
+      frame._id !== node?._id &&
+      containsPoint(frame, position) &&
+      (node?.type !== "frame" || frameArea(frame) > frameArea(node))
+    )
+    .sort((a, b) => frameArea(a) - frameArea(b))[0];
+}
+
+/**
+ * The innermost (smallest) frame on a board containing a position, if any.
+ * Pass the node being placed when it is a frame, so it only lands in larger frames.
+ */
+export async function findFrameAt(
+  ctx: any,
+  boardId: Id<"boards">,
+  position: Position,
+  node?: Doc<"nodes">
+): Promise<Doc<"nodes"> | undefined> {
+  const frames = (await listBoardNodes(ctx, boardId)).filter((candidate) => candidate.type === "frame");
+  return innermostFrame(frames, node, position);
+}
+
+/**
+ * A frame's children, top to bottom then left to right
+ */
+export async function findFrameChildren(ctx: any, frame: Doc<"nodes">): Promise<Doc<"nodes">[]> {
+  const children: Doc<"nodes">[] = await ctx.db
+    .query("nodes")
+    .withIndex("by_parent_frame", (q: any) => q.eq("parentFrameId", frame._id))
+    .collect();
+  return children.sort((a, b) => a.position.y - b.position.y || a.position.x - b.position.x);
+}
+
+/**
+ * Everything inside a frame, nested frames and their contents included
+ */
+async function findFrameDescendants(ctx: any, frame: Doc<"nodes">): Promise<Doc<"nodes">[]> {
+  const descendants: Doc<"nodes">[] = [];
+  const pending = [frame];
+  while (pending.length > 0) {
+    for (const child of await findFrameChildren(ctx, pending.pop()!)) {
+      descendants.push(child);
+      if (child.type === "frame") pending.push(child);
+    }
+  }
+  return descendants;
+}
+
+/**
+ * Hand a frame's children to the frame around it (if any), e.g. before the frame is deleted
+ */
+export async function releaseFrameChildren(ctx: any, frame: Doc<"nodes">): Promise<void> {
+  for (const child of await findFrameChildren(ctx, frame)) {
+    await ctx.db.patch(child._id, { parentFrameId: frame.parentFrameId });
+  }
+}
+
+// Recompute membership on a board after a frame is created, moved or resized:
+// every node, frames included, belongs to the innermost frame it now lies in
+async function syncFrameMembership(ctx: any, boardId: Id<"boards">): Promise<void> {
+  const nodes = await listBoardNodes(ctx, boardId);
+  const frames = nodes.filter((node) => node.type === "frame");
+
+  for (const node of nodes) {
+    const parentFrameId = innermostFrame(frames, node, node.position)?._id;
+    if (node.parentFrameId !== parentFrameId) {
+      await ctx.db.patch(node._id, { parentFrameId });
+    }
+  }
+}
+
+async function getOwnedNode(ctx: any, userId: Id<"users">, nodeId: Id<"nodes">): Promise<Doc<"nodes">> {
+  const node = await ctx.db.get(nodeId);
+  if (!node) {
+    throw new Error("Node not found");
+  }
+
+  // Check board access
+  const board = await ctx.db.get(node.boardId);
+  if (!board || board.ownerUserId !== userId) {
+    throw new Error("Access denied");
+  }
+
+  return node;
+}
+
+export const createFrame = mutation({
+  args: {
+    boardId: v.id("boards"),
+    position: v.object({
+      x: v.number(),
+      y: v.number(),
+    }),
+    size: v.optional(v.object({
+      width: v.number(),
+      height: v.number(),
+    })),
+    title: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<Id<"nodes">> => {
+    const userId = await requireAuth(ctx);
+
+    // Check board access
+    const board = await ctx.db.get(args.boardId);
+    if (!board || board.ownerUserId !== userId) {
+      throw new Error("Board not found or access denied");
+    }
+
+    // Validate and sanitize inputs
+    const frameId = await ctx.db.insert("nodes", {
+      boardId: args.boardId,
+      type: "frame",
+      title: validateAndSanitizeText(args.title ?? "Frame", MAX_LENGTHS.NODE_TITLE),
+      content: "",
+      position: validatePosition(args.position),
+      size: validateFrameSize(args.size ?? DEFAULT_FRAME_SIZE),
+      collapsed: false,
+      color: "purple",
+      meta: {},
+      createdBy: userId,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+
+    // A frame drawn around existing nodes (or frames) adopts them
+    await syncFrameMembership(ctx, args.boardId);
+    return frameId;
+  },
+});
+
+/**
+ * Rename, recolor, collapse or resize a frame. Resizing from the top or
+ * left edge also moves it, so position and size are set together.
+ */
+export const updateFrame = mutation({
+  args: {
+    frameId: v.id("nodes"),
+    title: v.optional(v.string()),
+    color: v.optional(v.string()),
+    collapsed: v.optional(v.boolean()),
+    position: v.optional(v.object({
+      x: v.number(),
+      y: v.number(),
+    })),
+    size: v.optional(v.object({
+      width: v.number(),
+      height: v.number(),
+    })),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const frame = await getOwnedNode(ctx, userId, args.frameId);
+    if (frame.type !== "frame") {
+      throw new Error("Frame not found");
+    }
+
+    // Validate and sanitize inputs
+    const updates: Partial<Doc<"nodes">> = { updatedAt: Date.now() };
+    if (args.title !== undefined) updates.title = validateAndSanitizeText(args.title, MAX_LENGTHS.NODE_TITLE);
+    if (args.color !== undefined) updates.color = validateNodeColor(args.color);
+    if (args.collapsed !== undefined) updates.collapsed = args.collapsed;
+    if (args.position !== undefined) updates.position = validatePosition(args.position);
+    if (args.size !== undefined) updates.size = validateFrameSize(args.size);
+
+    await ctx.db.patch(args.frameId, updates);
+
+    if (args.position !== undefined || args.size !== undefined) {
+      await syncFrameMembership(ctx, frame.boardId);
+    }
+  },
+});
+
+/**
+ * Drop a node at a new position. A frame carries everything inside it along;
+ * the node joins the innermost frame it lands in (or leaves its frame).
+ */
+export const moveNode = mutation({
+  args: {
+    nodeId: v.id("nodes"),
+    position: v.object({
+      x: v.number(),
+      y: v.number(),
+    }),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const node = await getOwnedNode(ctx, userId, args.nodeId);
+    const position = validatePosition(args.position);
+
+    if (node.type === "frame") {
+      const dx = position.x - node.position.x;
+      const dy = position.y - node.position.y;
+      for (const descendant of await findFrameDescendants(ctx, node)) {
+        await ctx.db.patch(descendant._id, {
+          position: validatePosition({ x: descendant.position.x + dx, y: descendant.position.y + dy }),
+          updatedAt: Date.now(),
+        });
+      }
+      await ctx.db.patch(args.nodeId, { position, updatedAt: Date.now() });
+
+      // The frame may have been dropped into (or out of) another frame
+      await syncFrameMembership(ctx, node.boardId);
+      return;
+    }
+
+    const frame = await findFrameAt(ctx, node.boardId, position);
+    await ctx.db.patch(args.nodeId, {
+      position,
+      parentFrameId: frame?._id,
+      updatedAt: Date.now(),
+    });
+  },
+});
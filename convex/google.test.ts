@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { callGeminiStream } from "./google";
+import { streamResponse } from "./test.helpers";
+
+// Gemini's SSE stream separates events with CRLF
+function sse(data: Record<string, unknown>): string {
+  return `data: ${JSON.stringify(data)}\r\n\r\n`;
+}
+
+function textChunk(text: string, usage?: { promptTokenCount: number; candidatesTokenCount: number }) {
+  return sse({
+    candidates: [{ content: { role: "model", parts: [{ text }] } }],
+    usageMetadata: usage,
+  });
+}
+
+async function collect(chunks: string[]) {
+  vi.stubGlobal("fetch", vi.fn(async () => streamResponse(chunks)));
+  const results = [];
+  for await (const chunk of callGeminiStream("key", "gemini-2.5-flash", [{ role: "user", content: "Hi" }], 0.7, 100)) {
+    results.push(chunk);
+  }
+  return results;
+}
+
+describe("callGeminiStream", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("yields text parts and finishes with the last usage metadata", async () => {
+    const results = await collect([
+      textChunk("Hello", { promptTokenCount: 8, candidatesTokenCount: 1 }),
+      textChunk(" world", { promptTokenCount: 8, candidatesTokenCount: 3 }),
+    ]);
+
+    expect(results).toEqual([
+      { content: "Hello", inputTokens: 8, outputTokens: 1 },
+      { content: " world", inputTokens: 8, outputTokens: 3 },
+      { content: "", inputTokens: 8, outputTokens: 3, done: true },
+    ]);
+  });
+
+  it("reassembles events split across network chunks", async () => {
+    const event = textChunk("split");
+    const results = await collect([event.slice(0, 15), event.slice(15, 40), event.slice(40)]);
+
+    expect(results.map((chunk) => chunk.content)).toEqual(["split", ""]);
+  });
+
+  it("joins multiple text parts and skips chunks without text", async () => {
+    const results = await collect([
+      sse({ candidates: [{ content: { parts: [{ text: "a" }, { text: "b" }] } }] }),
+      sse({ candidates: [{ finishReason: "STOP" }], usageMetadata: { promptTokenCount: 4, candidatesTokenCount: 2 } }),
+    ]);
+
+    expect(results).toEqual([
+      { content: "ab", inputTokens: 0, outputTokens: 0 },
+      { content: "", inputTokens: 4, outputTokens: 2, done: true },
+    ]);
+  });
+
+  it("skips malformed lines", async () => {
+    const results = await collect(["data: {oops\r\n\r\n", textChunk("ok")]);
+
+    expect(results.map((chunk) => chunk.content)).toEqual(["ok", ""]);
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Google Gemini API adapter
+ */
+
+import { providerError } from "./providerErrors";
+import type { ChatMessage, ToolCall, ToolSpec } from "./providers";
+
+type GeminiPart =
+  | { text: string }
+  | { functionCall: { name: string; args: Record<string, unknown> } }
+  | { functionResponse: { name: string; response: { content: string } } }
+  | { inlineData: { mimeType: string; data: string } };
+
+// Base URL can be overridden (e.g. to point at a local stub server in tests)
+function getGeminiBaseUrl(): string {
+  return (process.env.GEMINI_BASE_URL || "https://generativelanguage.googleapis.com").replace(/\/+$/, "");
+}
+
+/**
+ * Convert our chat message array into Gemini's `contents` format.
+ * System messages become `systemInstruction`, assistant turns use the
+ * "model" role, and consecutive turns with the same role are merged.
+ * Tool calls become `functionCall` parts and their results
+ * `functionResponse` parts in the following user turn. Attachments are
+ * sent as `inlineData` parts.
+ */
+export function toGeminiContents(messages: ChatMessage[]): {
+  systemInstruction?: { parts: Array<{ text: string }> };
+  contents: Array<{ role: "user" | "model"; parts: GeminiPart[] }>;
+} {
+  const systemParts: Array<{ text: string }> = [];
+  const contents: Array<{ role: "user" | "model"; parts: GeminiPart[] }> = [];
+
+  for (const message of messages) {
+    const hasToolCalls = !!message.toolCalls && message.toolCalls.length > 0;
+    const hasAttachments = !!message.attachments && message.attachments.length > 0;
+    if (!message.content && !hasToolCalls && !hasAttachments) continue;
+
+    if (message.role === "system") {
+      systemParts.push({ text: message.content });
+      continue;
+    }
+
+    const role = message.role === "assistant" ? "model" : "user";
+    let parts: GeminiPart[] = [{ text: message.content }];
+    if (message.role === "tool") {
+      parts = [{ functionResponse: { name: message.toolName ?? "", response: { content: message.content } } }];
+    } else if (hasToolCalls) {
+      parts = [
+        ...(message.content ? [{ text: message.content }] : []),
+        ...message.toolCalls!.map((call) => ({ functionCall: { name: call.name, args: call.arguments } })),
+      ];
+    } else if (hasAttachments) {
+      parts = [
+        ...(message.content ? [{ text: message.content }] : []),
+        ...message.attachments!.map((attachment) => ({
+          inlineData: { mimeType: attachment.mimeType, data: attachment.data },
+        })),
+      ];
+    }
+
+    const last = contents[contents.length - 1];
+    if (last && last.role === role) {
+      last.parts.push(...parts);
+    } else {
+      contents.push({ role, parts });
+    }
+  }
+
+  return {
+    systemInstruction: systemParts.length > 0 ? { parts: systemParts } : undefined,
+    contents,
+  };
+}
+
+async function geminiRequest(apiKey: string, model: string, method: string, body: any, signal?: AbortSignal): Promise<Response> {
+  const query = method === "streamGenerateContent" ? "?alt=sse" : "";
+  const response = await fetch(`${getGeminiBaseUrl()}/v1beta/models/${encodeURIComponent(model)}:${method}${query}`, {
+    method: "POST",
+    signal,
+    headers: {
+      "x-goog-api-key": apiKey,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw await providerError("Gemini", response);
+  }
+
+  return response;
+}
+
+// Gemini rejects object schemas without properties, so argument-less tools omit `parameters`
+function toFunctionDeclaration(tool: ToolSpec) {
+  const properties = (tool.parameters as { properties?: Record<string, unknown> }).properties;
+  return {
+    name: tool.name,
+    description: tool.description,
+    parameters: properties && Object.keys(properties).length > 0 ? tool.parameters : undefined,
+  };
+}
+
+function buildGeminiBody(
+  messages: ChatMessage[],
+  temperature: number,
+  maxTokens: number,
+  tools?: ToolSpec[],
+  // Only JSON mode is requested; the schema itself is enforced by our validation
+  jsonOutput?: boolean
+) {
+  const { systemInstruction, contents } = toGeminiContents(messages);
+  return {
+    systemInstruction,
+    contents,
+    tools: tools && tools.length > 0
+      ? [{ functionDeclarations: tools.map(toFunctionDeclaration) }]
+      : undefined,
+    generationConfig: {
+      temperature,
+      maxOutputTokens: maxTokens,
+      responseMimeType: jsonOutput ? "application/json" : undefined,
+    },
+  };
+}
+
+function extractText(data: any): string {
+  const parts = data.candidates?.[0]?.content?.parts || [];
+  return parts.map((part: any) => part.text || "").join("");
+}
+
+export async function callGemini(
+  apiKey: string,
+  model: string,
+  messages: ChatMessage[],
+  temperature: number,
+  maxTokens: number,
+  tools?: ToolSpec[],
+  signal?: AbortSignal,
+  responseSchema?: Record<string, unknown>
+) {
+  const response = await geminiRequest(
+    apiKey, model, "generateContent", buildGeminiBody(messages, temperature, maxTokens, tools, !!responseSchema), signal
+  );
+  const data = await response.json();
+
+  // Gemini does not assign call ids, so they are derived from the position
+  const parts = data.candidates?.[0]?.content?.parts || [];
+  const toolCalls: ToolCall[] = parts
+    .filter((part: any) => part.functionCall)
+    .map((part: any, index: number) => ({
+      id: `${part.functionCall.name}-${index}`,
+      name: part.functionCall.name,
+      arguments: part.functionCall.args || {},
+    }));
+
+  return {
+    text: extractText(data),
+    inputTokens: data.usageMetadata?.promptTokenCount || 0,
+    outputTokens: data.usageMetadata?.candidatesTokenCount || 0,
+    toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+  };
+}
+
+export async function* callGeminiStream(
+  apiKey: string,
+  model: string,
+  messages: ChatMessage[],
+  temperature: number,
+  maxTokens: number,
+  signal?: AbortSignal
+): AsyncGenerator<{content: string, inputTokens: number, outputTokens: number, done?: boolean}, void, unknown> {
+  const response = await geminiRequest(apiKey, model, "streamGenerateContent", buildGeminiBody(messages, temperature, maxTokens), signal);
+
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error("No response body reader available");
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let inputTokens = 0;
+  let outputTokens = 0;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        const trimmedLine = line.trim();
+        if (!trimmedLine.startsWith('data:')) continue;
+
+        let parsed: any;
+        try {
+          parsed = JSON.parse(trimmedLine.slice(5).trim());
+        } catch (e) {
+          // Skip invalid JSON
+          continue;
+        }
+
+        // Usage metadata is cumulative; the last chunk carries the final counts
+        if (parsed.usageMetadata) {
+          inputTokens = parsed.usageMetadata.promptTokenCount || inputTokens;
+          outputTokens = parsed.usageMetadata.candidatesTokenCount || outputTokens;
+        }
+
+        const text = extractText(parsed);
+        if (text) {
+          yield {
+            content: text,
+            inputTokens,
+            outputTokens,
+          };
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  // Return final token counts
+  yield {
+    content: "",
+    inputTokens,
+    outputTokens,
+    done: true,
+  };
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { api } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { EXPORT_FORMAT_VERSION } from "./exports";
+import { setupBoard } from "./test.helpers";
+
+const EXPORT = {
+  version: EXPORT_FORMAT_VERSION,
+  board: { title: "Research", description: "Notes" },
+  nodes: [
+    { id: "frame", type: "frame", title: "Ideas", content: "", position: { x: 0, y: 0 }, size: { width: 1000, height: 800 } },
+    { id: "prompt", type: "message", role: "user", content: "Why?", position: { x: 100, y: 100 }, parentFrameId: "frame", tags: ["tag-1", "tag-1"] },
+    { id: "answer", type: "response", role: "assistant", content: "Because.", position: { x: 100, y: 400 }, parentFrameId: "frame" },
+    { id: "bad", type: "widget", content: "?", position: { x: 0, y: 0 } },
+    { id: "prompt", type: "note", content: "Same id", position: { x: 0, y: 0 } },
+  ],
+  edges: [
+    { id: "e1", source: "prompt", target: "answer", kind: "lineage" },
+    { id: "e2", source: "prompt", target: "bad", kind: "lineage" },
+    { id: "e3", source: "prompt", target: "answer", kind: "lineage" },
+    { id: "e4", source: "answer", target: "answer", kind: "reference" },
+  ],
+  tags: [{ id: "tag-1", name: "Open question", color: "blue" }],
+};
+
+async function readBoard(t: Awaited<ReturnType<typeof setupBoard>>["t"], boardId: Id<"boards">) {
+  const contents = await t.run(async (ctx) => ({
+    board: await ctx.db.get(boardId),
+    nodes: await ctx.db.query("nodes").withIndex("by_board", (q) => q.eq("boardId", boardId)).collect(),
+    edges: await ctx.db.query("edges").withIndex("by_board", (q) => q.eq("boardId", boardId)).collect(),
+    tags: await ctx.db.query("tags").withIndex("by_board", (q) => q.eq("boardId", boardId)).collect(),
+    nodeTags: await ctx.db.query("nodeTags").collect(),
+  }));
+  const byContent = (content: string) => contents.nodes.find((node) => node.content === content)!;
+  return { ...contents, byContent };
+}
+
+describe("importBoardJson", () => {
+  it("creates a board with fresh ids, remapping edges, frames and tags", async () => {
+    const { t, user } = await setupBoard();
+
+    const report = await user.mutation(api.imports.importBoardJson, { json: JSON.stringify(EXPORT) });
+
+    expect(report.imported).toEqual({ nodes: 3, edges: 1, tags: 1 });
+    expect(report.skipped).toEqual([
+      { kind: "node", id: "bad", reason: "Unknown node type" },
+      { kind: "node", id: "prompt", reason: "Duplicate id" },
+      { kind: "edge", id: "e2", reason: "Connects a node that was not imported" },
+      { kind: "edge", id: "e3", reason: "Duplicate edge" },
+      { kind: "edge", id: "e4", reason: "Connects a node to itself" },
+    ]);
+
+    const { board, nodes, edges, tags, nodeTags, byContent } = await readBoard(t, report.boardId);
+    expect(board?.title).toBe("Research");
+    const frame = nodes.find((node) => node.type === "frame")!;
+    const prompt = byContent("Why?");
+    const answer = byContent("Because.");
+    expect(prompt.parentFrameId).toBe(frame._id);
+    expect(answer.parentFrameId).toBe(frame._id);
+    // Nothing is offset on an empty board
+    expect(prompt.position).toEqual({ x: 100, y: 100 });
+    expect(edges.map((edge) => [edge.srcNodeId, edge.dstNodeId, edge.kind])).toEqual([[prompt._id, answer._id, "lineage"]]);
+    expect(tags.map((tag) => tag.name)).toEqual(["Open question"]);
+    expect(nodeTags.map((nodeTag) => [nodeTag.nodeId, nodeTag.tagId])).toEqual([[prompt._id, tags[0]._id]]);
+  });
+
+  it("imports next to an existing board's content, reusing its tags by name", async () => {
+    const { t, user, userId, boardId } = await setupBoard();
+    const existingTag = await t.run(async (ctx) => {
+      await ctx.db.insert("nodes", {
+        boardId,
+        type: "note",
+        content: "Already here",
+        position: { x: 50, y: -200 },
+        size: { width: 400, height: 300 },
+        collapsed: false,
+        meta: {},
+        createdBy: userId,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      });
+      return await ctx.db.insert("tags", {
+        boardId,
+        name: "open QUESTION",
+        color: "red",
+        createdBy: userId,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      });
+    });
+
+    const report = await user.mutation(api.imports.importBoardJson, { json: JSON.stringify(EXPORT), boardId });
+
+    expect(report.boardId).toBe(boardId);
+    expect(report.imported).toEqual({ nodes: 3, edges: 1, tags: 0 });
+    const { tags, nodeTags, byContent } = await readBoard(t, boardId);
+    expect(tags.map((tag) => tag._id)).toEqual([existingTag]);
+    expect(nodeTags.map((nodeTag) => nodeTag.tagId)).toEqual([existingTag]);
+    // Right of the existing node's edge (50 + 400) plus the gap, aligned with its top
+    expect(byContent("Why?").position).toEqual({ x: 950, y: -100 });
+  });
+
+  it("rejects files that are not board exports", async () => {
+    const { user } = await setupBoard();
+
+    await expect(user.mutation(api.imports.importBoardJson, { json: "{" })).rejects.toThrow("Import file is not valid JSON");
+    await expect(user.mutation(api.imports.importBoardJson, { json: '{"nodes": []}' }))
+      .rejects.toThrow("Not a board export: expected nodes and edges");
+    await expect(user.mutation(api.imports.importBoardJson, { json: JSON.stringify({ ...EXPORT, version: 99 }) }))
+      .rejects.toThrow("Unsupported export version 99");
+  });
+});
@@ -0,0 +1,711 @@
+import { mutation } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { requireAuth } from "./security";
+import {
+  MAX_LENGTHS,
+  NODE_COLORS,
+  validateAndSanitizeText,
+  validateBoardDescription,
+  validateBoardTitle,
+  validateModelName,
+  validateNodeContent,
+  validateOutputSchema,
+  validatePosition,
+  validateProviderName,
+} from "./validation";
+import { EXPORT_FORMAT_VERSION } from "./exports";
+import { MAX_TAGS_PER_BOARD } from "./tags";
+
+/**
+ * Board imports: our own exportJson format, and conversations from ChatGPT
+ * and Claude data exports. Everything in a file is untrusted: each node, edge
+ * and tag is validated and sanitized on its own, and anything that fails is
+ * skipped and reported rather than failing the whole import. Ids are
+ * remapped; ids of other records (response versions, context reports) are
+ * not carried over.
+ */
+
+const MAX_IMPORT_BYTES = 5_000_000;
+const MAX_IMPORT_NODES = 2000;
+const MAX_IMPORT_EDGES = 4000;
+// Convex limits the documents one mutation can write; everything an import
+// writes (board, tags, nodes, node tags, frame membership, edges) counts
+const MAX_IMPORT_WRITES = 8000;
+// Only the first skips are listed; the rest are counted
+const MAX_REPORTED_SKIPS = 100;
+
+// Imports into a board with content land this far to the right of it
+const IMPORT_GAP = 400;
+
+const NODE_TYPES = ["prompt", "message", "response", "note", "frame", "toolCall", "toolResult"] as const;
+const EDGE_KINDS = ["lineage", "reference", "tool"] as const;
+
+type NodeType = (typeof NODE_TYPES)[number];
+type EdgeKind = (typeof EDGE_KINDS)[number];
+
+type ImportReport = {
+  boardId: Id<"boards">;
+  imported: { nodes: number; edges: number; tags: number };
+  skipped: { kind: "node" | "edge" | "tag"; id?: string; reason: string }[];
+  skippedCount: number;
+};
+
+function createReport(boardId: Id<"boards">): ImportReport {
+  return { boardId, imported: { nodes: 0, edges: 0, tags: 0 }, skipped: [], skippedCount: 0 };
+}
+
+function reportSkip(report: ImportReport, kind: "node" | "edge" | "tag", id: unknown, reason: string) {
+  report.skippedCount++;
+  if (report.skipped.length < MAX_REPORTED_SKIPS) {
+    report.skipped.push({ kind, id: typeof id === "string" ? id.slice(0, 100) : undefined, reason });
+  }
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+/**
+ * The board an import writes into: an existing board the user owns, or a new one
+ */
+async function resolveImportBoard(
+  ctx: any,
+  userId: Id<"users">,
+  args: { boardId?: Id<"boards">; title: string; description?: string }
+): Promise<Id<"boards">> {
+  if (args.boardId) {
+    const board = await ctx.db.get(args.boardId);
+    if (!board || board.ownerUserId !== userId) {
+      throw new Error("Board not found or access denied");
+    }
+    return args.boardId;
+  }
+
+  return await ctx.db.insert("boards", {
+    ownerUserId: userId,
+    title: validateBoardTitle(args.title.slice(0, MAX_LENGTHS.BOARD_TITLE)),
+    description: validateBoardDescription(args.description?.slice(0, MAX_LENGTHS.BOARD_DESCRIPTION)),
+    isPublic: false,
+    createdBy: userId,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  });
+}
+
+/**
+ * Shift that puts imported positions to the right of the board's existing nodes
+ */
+async function importOffset(
+  ctx: any,
+  boardId: Id<"boards">,
+  positions: { x: number; y: number }[]
+): Promise<{ x: number; y: number }> {
+  const existing: Doc<"nodes">[] = await ctx.db
+    .query("nodes")
+    .withIndex("by_board", (q: any) => q.eq("boardId", boardId))
+    .collect();
+  if (existing.length === 0 || positions.length === 0) {
+    return { x: 0, y: 0 };
+  }
+
+  const right = Math.max(...existing.map((node) => node.position.x + (node.size?.width ?? 600)));
+  const top = Math.min(...existing.map((node) => node.position.y));
+  return {
+    x: right + IMPORT_GAP - Math.min(...positions.map((position) => position.x)),
+    y: top - Math.min(...positions.map((position) => position.y)),
+  };
+}
+
+// Text fields: sanitized and cut to length rather than rejected
+function sanitizeOptionalText(value: unknown, maxLength: number): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const sanitized = validateAndSanitizeText(value.slice(0, maxLength), maxLength);
+  return sanitized.length > 0 ? sanitized : undefined;
+}
+
+function optional<T>(read: () => T): T | undefined {
+  try {
+    return read();
+  } catch {
+    return undefined;
+  }
+}
+
+// Keep the meta fields that describe the node itself; drop ones pointing at
+// records of the source board (versions, context reports) and generation state
+function sanitizeMeta(meta: unknown): Doc<"nodes">["meta"] {
+  if (!isRecord(meta)) return {};
+  const result: Doc<"nodes">["meta"] = {};
+
+  if (typeof meta.provider === "string") result.provider = optional(() => validateProviderName(meta.provider));
+  if (typeof meta.model === "string") result.model = optional(() => validateModelName(meta.model));
+  if (isRecord(meta.tokens) && isFiniteNumber(meta.tokens.input) && isFiniteNumber(meta.tokens.output)) {
+    result.tokens = { input: Math.max(0, meta.tokens.input), output: Math.max(0, meta.tokens.output) };
+  }
+  if (Array.isArray(meta.sources)) {
+    result.sources = meta.sources
+      .filter((source: unknown) =>
+        isRecord(source) && typeof source.url === "string" && /^https?:\/\//i.test(source.url) && source.url.length <= 2048
+      )
+      .slice(0, 20)
+      .map((source: Record<string, any>) => ({
+        url: source.url,
+        title: optional(() => sanitizeOptionalText(source.title, MAX_LENGTHS.NODE_TITLE)) ?? source.url,
+        at: isFiniteNumber(source.at) ? source.at : Date.now(),
+      }));
+  }
+  if (meta.webSearch === "off" || meta.webSearch === "auto" || meta.webSearch === "always") {
+    result.webSearch = meta.webSearch;
+  }
+  if (typeof meta.outputSchema === "string") result.outputSchema = optional(() => validateOutputSchema(meta.outputSchema));
+  if (isRecord(meta.structured) && typeof meta.structured.valid === "boolean" && isFiniteNumber(meta.structured.attempts)) {
+    const { parsed, errors } = meta.structured;
+    result.structured = {
+      parsed: typeof parsed === "string" && parsed.length <= MAX_LENGTHS.NODE_CONTENT ? parsed : undefined,
+      valid: meta.structured.valid,
+      errors: Array.isArray(errors)
+        ? errors.filter((error: unknown) => typeof error === "string").slice(0, 20).map((error: string) => error.slice(0, 500))
+        : undefined,
+      attempts: meta.structured.attempts,
+    };
+  }
+  if (isRecord(meta.tool) && typeof meta.tool.callId === "string" && typeof meta.tool.name === "string") {
+    result.tool = {
+      callId: meta.tool.callId.slice(0, 100),
+      name: meta.tool.name.slice(0, 100),
+      isError: meta.tool.isError === true ? true : undefined,
+    };
+  }
+
+  return result;
+}
+
+type ParsedNode = {
+  sourceId: string;
+  fields: {
+    type: NodeType;
+    role?: "user" | "assistant";
+    title?: string;
+    content: string;
+    position: { x: number; y: number };
+    size?: { width: number; height: number };
+    collapsed: boolean;
+    color?: string;
+    meta: Doc<"nodes">["meta"];
+  };
+  parentFrameId?: string;
+  tagIds: string[];
+};
+
+// Validate one exported node; throws with the reason it can't be imported
+function parseNode(raw: unknown): ParsedNode {
+  if (!isRecord(raw)) throw new Error("Not an object");
+  if (typeof raw.id !== "string") throw new Error("Missing id");
+  if (!NODE_TYPES.includes(raw.type)) throw new Error("Unknown node type");
+  if (typeof raw.content !== "string") throw new Error("Missing content");
+  if (!isRecord(raw.position) || !isFiniteNumber(raw.position.x) || !isFiniteNumber(raw.position.y)) {
+    throw new Error("Invalid position");
+  }
+
+  const size = isRecord(raw.size) && isFiniteNumber(raw.size.width) && isFiniteNumber(raw.size.height) &&
+    raw.size.width > 0 && raw.size.height > 0 && raw.size.width <= 20000 && raw.size.height <= 20000
+    ? { width: Math.round(raw.size.width), height: Math.round(raw.size.height) }
+    : undefined;
+
+  return {
+    sourceId: raw.id,
+    fields: {
+      type: raw.type,
+      role: raw.role === "user" || raw.role === "assistant" ? raw.role : undefined,
+      title: sanitizeOptionalText(raw.title, MAX_LENGTHS.NODE_TITLE),
+      content: validateNodeContent(raw.content),
+      position: validatePosition({ x: raw.position.x, y: raw.position.y }),
+      size,
+      collapsed: raw.collapsed === true,
+      color: (NODE_COLORS as readonly string[]).includes(raw.color) ? raw.color : undefined,
+      meta: sanitizeMeta(raw.meta),
+    },
+    parentFrameId: typeof raw.parentFrameId === "string" ? raw.parentFrameId : undefined,
+    tagIds: Array.isArray(raw.tags) ? raw.tags.filter((tagId: unknown) => typeof tagId === "string") : [],
+  };
+}
+
+/**
+ * Import a board exported with exportJson, into a new board or (with
+ * `boardId`) next to the content of an existing one
+ */
+export const importBoardJson = mutation({
+  args: {
+    json: v.string(),
+    boardId: v.optional(v.id("boards")),
+  },
+  handler: async (ctx, args): Promise<ImportReport> => {
+    const userId = await requireAuth(ctx);
+
+    if (args.json.length > MAX_IMPORT_BYTES) {
+      throw new Error("Import file is too large");
+    }
+    let document: unknown;
+    try {
+      document = JSON.parse(args.json);
+    } catch {
+      throw new Error("Import file is not valid JSON");
+    }
+    if (!isRecord(document) || !Array.isArray(document.nodes) || !Array.isArray(document.edges)) {
+      throw new Error("Not a board export: expected nodes and edges");
+    }
+    // Exports from before versioning have no version field
+    if (document.version !== undefined && document.version !== EXPORT_FORMAT_VERSION) {
+      throw new Error(`Unsupported export version ${String(document.version)}`);
+    }
+
+    const sourceBoard = isRecord(document.board) ? document.board : {};
+    const boardId = await resolveImportBoard(ctx, userId, {
+      boardId: args.boardId,
+      title: (typeof sourceBoard.title === "string" && sourceBoard.title.trim()) || "Imported board",
+      description: typeof sourceBoard.description === "string" ? sourceBoard.description : undefined,
+    });
+    const report = createReport(boardId);
+
+    // The board itself, and its final updatedAt
+    let writes = 2;
+    // Whether one more document fits in the import; counts it if so
+    const claimWrite = () => {
+      if (writes >= MAX_IMPORT_WRITES) return false;
+      writes++;
+      return true;
+    };
+
+    // Tags: reuse a board tag with the same name, otherwise create it
+    const boardTags: Doc<"tags">[] = await ctx.db
+      .query("tags")
+      .withIndex("by_board", (q) => q.eq("boardId", boardId))
+      .collect();
+    const tagIds = new Map<string, Id<"tags">>();
+    for (const raw of Array.isArray(document.tags) ? document.tags : []) {
+      try {
+        if (!isRecord(raw) || typeof raw.id !== "string") throw new Error("Missing id");
+        const name = sanitizeOptionalText(raw.name, MAX_LENGTHS.TAG_NAME);
+        if (!name) throw new Error("Missing name");
+
+        const existing = boardTags.find((tag) => tag.name.toLowerCase() === name.toLowerCase());
+        if (existing) {
+          tagIds.set(raw.id, existing._id);
+          continue;
+        }
+        if (boardTags.length >= MAX_TAGS_PER_BOARD) throw new Error("Board tag limit reached");
+
+        if (!claimWrite()) throw new Error("Import limit reached");
+        const tagId = await ctx.db.insert("tags", {
+          boardId,
+          name,
+          color: (NODE_COLORS as readonly string[]).includes(raw.color) ? raw.color : "gray",
+          createdBy: userId,
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+        });
+        boardTags.push((await ctx.db.get(tagId))!);
+        tagIds.set(raw.id, tagId);
+        report.imported.tags++;
+      } catch (error) {
+        reportSkip(report, "tag", isRecord(raw) ? raw.id : undefined, errorMessage(error));
+      }
+    }
+
+    // Nodes: validate everything first so the layout offset covers what is imported
+    const parsedNodes: ParsedNode[] = [];
+    const seenNodeIds = new Set<string>();
+    for (const raw of document.nodes) {
+      const id = isRecord(raw) ? raw.id : undefined;
+      try {
+        if (parsedNodes.length >= MAX_IMPORT_NODES) throw new Error("Import limit reached");
+        const parsed = parseNode(raw);
+        if (seenNodeIds.has(parsed.sourceId)) throw new Error("Duplicate id");
+        seenNodeIds.add(parsed.sourceId);
+        parsedNodes.push(parsed);
+      } catch (error) {
+        reportSkip(report, "node", id, errorMessage(error));
+      }
+    }
+
+    const offset = await importOffset(ctx, boardId, parsedNodes.map((node) => node.fields.position));
+    const nodeIds = new Map<string, Id<"nodes">>();
+    for (const node of parsedNodes) {
+      let position: { x: number; y: number };
+      try {
+        position = validatePosition({ x: node.fields.position.x + offset.x, y: node.fields.position.y + offset.y });
+      } catch (error) {
+        reportSkip(report, "node", node.sourceId, errorMessage(error));
+        continue;
+      }
+      if (!claimWrite()) {
+        reportSkip(report, "node", node.sourceId, "Import limit reached");
+        continue;
+      }
+
+      const nodeId = await ctx.db.insert("nodes", {
+        ...node.fields,
+        boardId,
+        position,
+        createdBy: userId,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      });
+      nodeIds.set(node.sourceId, nodeId);
+
+      const nodeTagIds = new Set<Id<"tags">>();
+      for (const sourceTagId of node.tagIds) {
+        const tagId = tagIds.get(sourceTagId);
+        if (!tagId || nodeTagIds.has(tagId)) continue;
+        if (!claimWrite()) {
+          reportSkip(report, "tag", sourceTagId, `Import limit reached tagging node ${node.sourceId}`);
+          continue;
+        }
+        nodeTagIds.add(tagId);
+        await ctx.db.insert("nodeTags", { nodeId, tagId, createdBy: userId, createdAt: Date.now() });
+      }
+      report.imported.nodes++;
+    }
+
+    // Frame membership, for frames that made it in
+    const frameSourceIds = new Set(parsedNodes.filter((node) => node.fields.type === "frame").map((node) => node.sourceId));
+    for (const node of parsedNodes) {
+      if (!node.parentFrameId || !frameSourceIds.has(node.parentFrameId)) continue;
+      const nodeId = nodeIds.get(node.sourceId);
+      const parentFrameId = nodeIds.get(node.parentFrameId);
+      if (!nodeId || !parentFrameId) continue;
+      if (!claimWrite()) {
+        reportSkip(report, "node", node.sourceId, "Import limit reached adding it to its frame");
+        continue;
+      }
+      await ctx.db.patch(nodeId, { parentFrameId });
+    }
+
+    const seenEdges = new Set<string>();
+    for (const raw of document.edges) {
+      const id = isRecord(raw) ? raw.id : undefined;
+      try {
+        if (!isRecord(raw)) throw new Error("Not an object");
+        if (report.imported.edges >= MAX_IMPORT_EDGES) throw new Error("Import limit reached");
+        if (!EDGE_KINDS.includes(raw.kind)) throw new Error("Unknown edge kind");
+
+        const srcNodeId = nodeIds.get(raw.source);
+        const dstNodeId = nodeIds.get(raw.target);
+        if (!srcNodeId || !dstNodeId) throw new Error("Connects a node that was not imported");
+        if (srcNodeId === dstNodeId) throw new Error("Connects a node to itself");
+
+        const key = `${srcNodeId}:${dstNodeId}:${raw.kind}`;
+        if (seenEdges.has(key)) throw new Error("Duplicate edge");
+        seenEdges.add(key);
+        if (!claimWrite()) throw new Error("Import limit reached");
+
+        await ctx.db.insert("edges", {
+          boardId,
+          srcNodeId,
+          dstNodeId,
+          kind: raw.kind as EdgeKind,
+          label: sanitizeOptionalText(raw.label, MAX_LENGTHS.NODE_TITLE),
+          createdBy: userId,
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+        });
+        report.imported.edges++;
+      } catch (error) {
+        reportSkip(report, "edge", id, errorMessage(error));
+      }
+    }
+
+    await ctx.db.patch(boardId, { updatedAt: Date.now() });
+    return report;
+  },
+});
+
+// Conversation imports: one conversation from a ChatGPT or Claude export
+// becomes a board of message/response nodes linked by lineage edges
+
+type ChatTurn = {
+  id: string;
+  // Nearest earlier turn that is kept; absent for the first turn of a branch root
+  parentId?: string;
+  role: "user" | "assistant";
+  content: string;
+  model?: string;
+};
+
+type ParsedConversation = { title: string; turns: ChatTurn[] };
+
+// Tree layout: each turn one column right of its parent, branches on rows below
+const CONVERSATION_COLUMN_WIDTH = 850;
+const CONVERSATION_ROW_GAP = 120;
+const MIN_ROW_HEIGHT = 260;
+
+const textOf = (value: unknown) => (typeof value === "string" ? value : "");
+
+/**
+ * ChatGPT conversations.json entry: a tree of messages in `mapping`, linked
+ * through `parent`/`children`. System, tool and hidden messages are dropped and
+ * their children attached to the nearest kept ancestor.
+ */
+function parseChatGptConversation(raw: unknown): ParsedConversation {
+  if (!isRecord(raw) || !isRecord(raw.mapping)) {
+    throw new Error("Not a ChatGPT conversation: expected a mapping");
+  }
+  const mapping: Record<string, any> = raw.mapping;
+
+  const readTurn = (entry: Record<string, any>): Omit<ChatTurn, "id" | "parentId"> | undefined => {
+    const message = entry.message;
+    if (!isRecord(message) || !isRecord(message.author) || !isRecord(message.content)) return undefined;
+    const role = message.author.role;
+    if (role !== "user" && role !== "assistant") return undefined;
+    if (isRecord(message.metadata) && message.metadata.is_visually_hidden_from_conversation) return undefined;
+    // Assistant messages addressed to a tool (code, browsing) aren't part of the chat
+    if (role === "assistant" && message.recipient !== undefined && message.recipient !== "all") return undefined;
+    if (message.content.content_type !== "text" && message.content.content_type !== "multimodal_text") return undefined;
+
+    const parts = Array.isArray(message.content.parts) ? message.content.parts : [];
+    const content = parts
+      .map((part: unknown) => (typeof part === "string" ? part : isRecord(part) && part.content_type === "image_asset_pointer" ? "[Image]" : ""))
+      .filter((part: string) => part.length > 0)
+      .join("\n\n");
+    const model = isRecord(message.metadata) ? textOf(message.metadata.model_slug) : "";
+    return { role, content, model: role === "assistant" && model ? model : undefined };
+  };
+
+  // Walk from the roots so turns come out in conversation order, parents first
+  const turns: ChatTurn[] = [];
+  const visited = new Set<string>();
+  const roots = Object.keys(mapping).filter((id) => {
+    const parent = isRecord(mapping[id]) ? mapping[id].parent : undefined;
+    return typeof parent !== "string" || !isRecord(mapping[parent]);
+  });
+  const stack: { id: string; keptParentId?: string }[] = roots.reverse().map((id) => ({ id }));
+  while (stack.length > 0) {
+    const { id, keptParentId } = stack.pop()!;
+    const entry = mapping[id];
+    if (visited.has(id) || !isRecord(entry)) continue;
+    visited.add(id);
+
+    const turn = readTurn(entry);
+    let parentId = keptParentId;
+    if (turn) {
+      turns.push({ id, parentId, ...turn });
+      parentId = id;
+    }
+    const children = Array.isArray(entry.children) ? entry.children.filter((child: unknown) => typeof child === "string") : [];
+    for (const child of [...children].reverse()) {
+      stack.push({ id: child, keptParentId: parentId });
+    }
+  }
+
+  return { title: textOf(raw.title), turns };
+}
+
+/**
+ * Claude conversations.json entry: `chat_messages` in order, each optionally
+ * naming its `parent_message_uuid` (edited and retried messages branch)
+ */
+function parseClaudeConversation(raw: unknown): ParsedConversation {
+  if (!isRecord(raw) || !Array.isArray(raw.chat_messages)) {
+    throw new Error("Not a Claude conversation: expected chat_messages");
+  }
+
+  const turns: ChatTurn[] = [];
+  // Every message id to the kept turn that stands in for it
+  const resolved = new Map<string, string | undefined>();
+  let previousId: string | undefined;
+  for (const message of raw.chat_messages) {
+    if (!isRecord(message) || typeof message.uuid !== "string") continue;
+
+    const parentId = typeof message.parent_message_uuid === "string"
+      ? resolved.get(message.parent_message_uuid)
+      : previousId;
+
+    const blocks = Array.isArray(message.content) ? message.content : [];
+    const text = blocks.some((block: unknown) => isRecord(block) && block.type === "text")
+      ? blocks
+          .filter((block: unknown) => isRecord(block) && block.type === "text")
+          .map((block: Record<string, any>) => textOf(block.text))
+          .join("\n\n")
+      : textOf(message.text);
+    const files = [...(Array.isArray(message.attachments) ? message.attachments : []), ...(Array.isArray(message.files) ? message.files : [])]
+      .map((file: unknown) => (isRecord(file) ? textOf(file.file_name) : ""))
+      .filter((name: string) => name.length > 0)
+      .map((name: string) => `[Attached: ${name}]`);
+    const content = [text.trim(), ...files].filter((part) => part.length > 0).join("\n\n");
+    const role = message.sender === "human" ? "user" : message.sender === "assistant" ? "assistant" : undefined;
+
+    if (role && content.length > 0) {
+      turns.push({ id: message.uuid, parentId, role, content });
+      resolved.set(message.uuid, message.uuid);
+      previousId = message.uuid;
+    } else {
+      resolved.set(message.uuid, parentId);
+    }
+  }
+
+  return { title: textOf(raw.name), turns };
+}
+
+// Rough rendered height of a card, so long turns don't overlap the next row
+function estimateHeight(content: string): number {
+  const lines = content.split("\n").reduce((total, line) => total + Math.max(1, Math.ceil(line.length / 80)), 0);
+  return 140 + lines * 20;
+}
+
+/**
+ * Lay out turns as a tree and insert them as nodes and lineage edges
+ */
+async function insertConversation(
+  ctx: any,
+  userId: Id<"users">,
+  boardId: Id<"boards">,
+  turns: ChatTurn[],
+  provider: string,
+  report: ImportReport
+): Promise<void> {
+  const childCount = new Map<string, number>();
+  for (const turn of turns) {
+    if (turn.parentId) childCount.set(turn.parentId, (childCount.get(turn.parentId) ?? 0) + 1);
+  }
+
+  // Validate turns, folding a turn into its parent when it continues the same
+  // speaker without branching (e.g. an answer split around a tool call)
+  // (`lastTurnId` is the last turn folded into a node, where its chain ends)
+  const kept = new Map<string, ChatTurn & { children: string[]; lastTurnId: string }>();
+  const standIn = new Map<string, string | undefined>();
+  const roots: string[] = [];
+  for (const turn of turns) {
+    const parentId = turn.parentId ? standIn.get(turn.parentId) : undefined;
+    const parent = parentId ? kept.get(parentId) : undefined;
+
+    if (parent && parent.role === turn.role && parent.lastTurnId === turn.parentId && childCount.get(turn.parentId) === 1) {
+      const content = `${parent.content}\n\n${turn.content}`.slice(0, MAX_LENGTHS.NODE_CONTENT);
+      if (optional(() => validateNodeContent(content)) !== undefined) {
+        parent.content = content;
+        parent.lastTurnId = turn.id;
+        standIn.set(turn.id, parent.id);
+        continue;
+      }
+    }
+
+    try {
+      if (kept.size >= MAX_IMPORT_NODES) throw new Error("Import limit reached");
+      validateNodeContent(turn.content.slice(0, MAX_LENGTHS.NODE_CONTENT));
+    } catch (error) {
+      reportSkip(report, "node", turn.id, errorMessage(error));
+      standIn.set(turn.id, parentId);
+      continue;
+    }
+
+    kept.set(turn.id, { ...turn, parentId, children: [], lastTurnId: turn.id });
+    standIn.set(turn.id, turn.id);
+    if (parent) {
+      parent.children.push(turn.id);
+    } else {
+      roots.push(turn.id);
+    }
+  }
+
+  // First child continues its parent's row; other branches start a new row
+  // below everything laid out so far
+  const placement = new Map<string, { column: number; row: number }>();
+  let lastRow = -1;
+  const stack = [...roots].reverse().map((id) => ({ id, column: 0, row: undefined as number | undefined }));
+  while (stack.length > 0) {
+    const { id, column, row: parentRow } = stack.pop()!;
+    const row = parentRow ?? ++lastRow;
+    placement.set(id, { column, row });
+    const children = kept.get(id)!.children;
+    for (let i = children.length - 1; i >= 0; i--) {
+      stack.push({ id: children[i], column: column + 1, row: i === 0 ? row : undefined });
+    }
+  }
+
+  const rowHeights: number[] = Array(lastRow + 1).fill(MIN_ROW_HEIGHT);
+  for (const [id, { row }] of placement) {
+    rowHeights[row] = Math.max(rowHeights[row], estimateHeight(kept.get(id)!.content));
+  }
+  const rowTops: number[] = [];
+  rowHeights.reduce((top, height, row) => {
+    rowTops[row] = top;
+    return top + height + CONVERSATION_ROW_GAP;
+  }, 0);
+
+  const nodeIds = new Map<string, Id<"nodes">>();
+  for (const turn of kept.values()) {
+    const { column, row } = placement.get(turn.id)!;
+    const nodeId = await ctx.db.insert("nodes", {
+      boardId,
+      type: turn.role === "user" ? "message" : "response",
+      role: turn.role,
+      content: validateNodeContent(turn.content.slice(0, MAX_LENGTHS.NODE_CONTENT)),
+      position: validatePosition({ x: column * CONVERSATION_COLUMN_WIDTH, y: rowTops[row] }),
+      collapsed: false,
+      meta: turn.role === "assistant"
+        ? { provider, model: turn.model ? optional(() => validateModelName(turn.model!)) : undefined }
+        : {},
+      createdBy: userId,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+    nodeIds.set(turn.id, nodeId);
+    report.imported.nodes++;
+
+    if (turn.parentId) {
+      await ctx.db.insert("edges", {
+        boardId,
+        srcNodeId: nodeIds.get(turn.parentId)!,
+        dstNodeId: nodeId,
+        kind: "lineage",
+        createdBy: userId,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      });
+      report.imported.edges++;
+    }
+  }
+}
+
+/**
+ * Import one conversation from a ChatGPT or Claude data export as a new board.
+ * The client splits the export file and calls this once per conversation.
+ */
+export const importConversation = mutation({
+  args: {
+    format: v.union(v.literal("chatgpt"), v.literal("claude")),
+    json: v.string(),
+  },
+  handler: async (ctx, args): Promise<ImportReport> => {
+    const userId = await requireAuth(ctx);
+
+    if (args.json.length > MAX_IMPORT_BYTES) {
+      throw new Error("Conversation is too large to import");
+    }
+    let conversation: unknown;
+    try {
+      conversation = JSON.parse(args.json);
+    } catch {
+      throw new Error("Conversation is not valid JSON");
+    }
+
+    const { title, turns } = args.format === "chatgpt"
+      ? parseChatGptConversation(conversation)
+      : parseClaudeConversation(conversation);
+    if (turns.length === 0) {
+      throw new Error("Conversation has no messages to import");
+    }
+
+    const boardId = await resolveImportBoard(ctx, userId, {
+      title: title.trim() || "Imported conversation",
+      description: args.format === "chatgpt" ? "Imported from ChatGPT" : "Imported from Claude",
+    });
+    const report = createReport(boardId);
+    await insertConversation(ctx, userId, boardId, turns, args.format === "chatgpt" ? "openai" : "anthropic", report);
+
+    return report;
+  },
+});
@@ -0,0 +1,361 @@
+import { query, mutation, internalQuery, internalMutation } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { requireAuth } from "./security";
+import { attachmentValidator } from "./schema";
+
+/**
+ * Generation jobs: one record per requested completion. Jobs are queued,
+ * run by `llmSecure.runGenerationJob`, retried with backoff on transient
+ * provider failures, deferred while the user is over the generation rate
+ * limit, and can be cancelled while queued or running.
+ */
+
+export const MAX_JOB_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 60000;
+const MAX_ERROR_LENGTH = 500;
+
+// Per-user generation rate limit: job starts per window
+const RATE_LIMIT_MAX_STARTS = 30;
+const RATE_LIMIT_WINDOW_MS = 60000;
+
+export const finalJobStatus = v.union(v.literal("succeeded"), v.literal("failed"), v.literal("cancelled"));
+
+// Everything the runner needs to (re)issue the completion
+export const generationRequestValidator = v.object({
+  messages: v.array(v.object({
+    role: v.union(v.literal("system"), v.literal("user"), v.literal("assistant")),
+    content: v.string(),
+    attachments: v.optional(v.array(attachmentValidator)),
+  })),
+  provider: v.string(),
+  model: v.string(),
+  temperature: v.number(),
+  maxTokens: v.number(),
+  enableWebSearch: v.optional(v.boolean()),
+  // Offer the registered tools (see tools.ts)
+  enableTools: v.optional(v.boolean()),
+  // JSON Schema the response must follow (see jsonSchema.ts)
+  outputSchema: v.optional(v.string()),
+  // Extend an existing response instead of replacing it
+  continueFrom: v.optional(v.object({
+    content: v.string(),
+    tokens: v.object({
+      input: v.number(),
+      output: v.number(),
+    }),
+  })),
+});
+
+type GenerationRequest = typeof generationRequestValidator.type;
+
+type StartGenerationArgs = {
+  userId: Id<"users">;
+  boardId: Id<"boards">;
+  nodeId: Id<"nodes">;
+  responseNodeId: Id<"nodes">;
+  request: GenerationRequest;
+};
+
+function isActive(job: Doc<"generationJobs">): boolean {
+  return job.status === "queued" || job.status === "running";
+}
+
+/**
+ * How long until a user may start another generation, or 0 if they may now.
+ * Counted from the jobs themselves, so the limit holds across action isolates.
+ */
+async function rateLimitDelayMs(ctx: any, userId: Id<"users">): Promise<number> {
+  const now = Date.now();
+  const recent: Doc<"generationJobs">[] = await ctx.db
+    .query("generationJobs")
+    .withIndex("by_user_started", (q: any) => q.eq("userId", userId).gt("startedAt", now - RATE_LIMIT_WINDOW_MS))
+    .take(RATE_LIMIT_MAX_STARTS);
+  if (recent.length < RATE_LIMIT_MAX_STARTS) {
+    return 0;
+  }
+  // The window has room once the oldest of these starts drops out of it
+  return Math.max(1000, recent[0].startedAt! + RATE_LIMIT_WINDOW_MS - now);
+}
+
+function truncateError(error: string): string {
+  return error.length > MAX_ERROR_LENGTH ? `${error.slice(0, MAX_ERROR_LENGTH)}...` : error;
+}
+
+/**
+ * Exponential backoff with jitter, honouring the provider's Retry-After when longer
+ */
+export function retryDelayMs(attempt: number, retryAfterMs?: number): number {
+  const exponential = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+  const jittered = exponential / 2 + Math.random() * (exponential / 2);
+  return Math.min(RETRY_MAX_DELAY_MS, Math.max(jittered, retryAfterMs ?? 0));
+}
+
+async function findActiveJob(ctx: any, responseNodeId: Id<"nodes">): Promise<Doc<"generationJobs"> | null> {
+  const jobs: Doc<"generationJobs">[] = await ctx.db
+    .query("generationJobs")
+    .withIndex("by_response_node", (q: any) => q.eq("responseNodeId", responseNodeId))
+    .collect();
+  return jobs.find(isActive) ?? null;
+}
+
+/**
+ * Record a queued job for a response node and schedule its first attempt
+ */
+export async function startGenerationJob(ctx: any, args: StartGenerationArgs): Promise<Id<"generationJobs">> {
+  if (await findActiveJob(ctx, args.responseNodeId)) {
+    throw new Error("This response is already being generated");
+  }
+
+  const jobId = await ctx.db.insert("generationJobs", {
+    boardId: args.boardId,
+    nodeId: args.nodeId,
+    responseNodeId: args.responseNodeId,
+    userId: args.userId,
+    provider: args.request.provider,
+    model: args.request.model,
+    status: "queued",
+    attempts: 0,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  });
+
+  const responseNode = await ctx.db.get(args.responseNodeId);
+  await ctx.db.patch(args.responseNodeId, {
+    meta: { ...responseNode.meta, status: "generating", error: undefined },
+  });
+
+  await ctx.scheduler.runAfter(0, internal.llmSecure.runGenerationJob, {
+    jobId,
+    request: args.request,
+  });
+
+  return jobId;
+}
+
+export const listBoardJobs = query({
+  args: { boardId: v.id("boards") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+
+    // Check board access
+    const board = await ctx.db.get(args.boardId);
+    if (!board || board.ownerUserId !== userId) {
+      throw new Error("Access denied");
+    }
+
+    const jobs: Doc<"generationJobs">[] = [];
+    for (const status of ["queued", "running"] as const) {
+      jobs.push(...await ctx.db
+        .query("generationJobs")
+        .withIndex("by_board_status", (q) => q.eq("boardId", args.boardId).eq("status", status))
+        .collect());
+    }
+
+    return jobs
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map((job) => ({
+        _id: job._id,
+        responseNodeId: job.responseNodeId,
+        provider: job.provider,
+        model: job.model,
+        status: job.status,
+        attempts: job.attempts,
+        nextAttemptAt: job.nextAttemptAt,
+        error: job.error,
+        createdAt: job.createdAt,
+      }));
+  },
+});
+
+export const cancelGeneration = mutation({
+  args: { responseNodeId: v.id("nodes") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+
+    const node = await ctx.db.get(args.responseNodeId);
+    if (!node) {
+      throw new Error("Node not found");
+    }
+
+    // Check board access
+    const board = await ctx.db.get(node.boardId);
+    if (!board || board.ownerUserId !== userId) {
+      throw new Error("Access denied");
+    }
+
+    return await cancelActiveJob(ctx, args.responseNodeId);
+  },
+});
+
+/**
+ * Cancel the active job of a response node, if any. Access must already be checked.
+ */
+export async function cancelActiveJob(ctx: any, responseNodeId: Id<"nodes">): Promise<boolean> {
+  const job = await findActiveJob(ctx, responseNodeId);
+  if (!job) {
+    return false;
+  }
+
+  // The streaming action notices between chunks and finalises the node
+  await ctx.db.patch(job._id, {
+    status: "cancelled",
+    updatedAt: Date.now(),
+  });
+
+  // A queued job never starts (or retries), so settle the node now
+  if (job.status === "queued") {
+    const node = await ctx.db.get(responseNodeId);
+    await ctx.db.patch(responseNodeId, {
+      meta: { ...node.meta, status: "stopped" },
+      updatedAt: Date.now(),
+    });
+  }
+
+  return true;
+}
+
+/**
+ * A job together with its board, for the runner (which has no auth context)
+ */
+export const getJobRun = internalQuery({
+  args: { jobId: v.id("generationJobs") },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job) return null;
+
+    const board = await ctx.db.get(job.boardId);
+    if (!board) return null;
+
+    return { job, board };
+  },
+});
+
+export const getJobStatus = internalQuery({
+  args: { jobId: v.id("generationJobs") },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    return job?.status ?? null;
+  },
+});
+
+/**
+ * Move a queued job to running; returns false if it was cancelled first, or
+ * if the user is over the generation rate limit. Waiting for the limit is not
+ * a failure (e.g. a batch running alongside other generations), so such a job
+ * stays queued and is rescheduled for when the window has room.
+ */
+export const markJobRunning = internalMutation({
+  args: {
+    jobId: v.id("generationJobs"),
+    request: generationRequestValidator,
+  },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job || job.status !== "queued") {
+      return false;
+    }
+
+    // Retries were counted when the job first started
+    if (job.startedAt === undefined) {
+      const delayMs = await rateLimitDelayMs(ctx, job.userId);
+      if (delayMs > 0) {
+        // Spread deferred jobs out so they don't all retry the moment the window has room
+        const jitteredDelayMs = delayMs + Math.random() * RETRY_BASE_DELAY_MS;
+        await ctx.db.patch(args.jobId, {
+          error: "Waiting for the generation rate limit",
+          nextAttemptAt: Date.now() + jitteredDelayMs,
+          updatedAt: Date.now(),
+        });
+        await ctx.scheduler.runAfter(jitteredDelayMs, internal.llmSecure.runGenerationJob, {
+          jobId: args.jobId,
+          request: args.request,
+        });
+        return false;
+      }
+    }
+
+    await ctx.db.patch(args.jobId, {
+      status: "running",
+      attempts: job.attempts + 1,
+      nextAttemptAt: undefined,
+      startedAt: job.startedAt ?? Date.now(),
+      // Only a wait for the rate limit can precede the first start
+      error: job.startedAt === undefined ? undefined : job.error,
+      updatedAt: Date.now(),
+    });
+    return true;
+  },
+});
+
+/**
+ * Requeue a job after a transient failure. Returns false when the job should
+ * fail instead (cancelled meanwhile, or out of attempts).
+ */
+export const retryJob = internalMutation({
+  args: {
+    jobId: v.id("generationJobs"),
+    error: v.string(),
+    retryAfterMs: v.optional(v.number()),
+    request: generationRequestValidator,
+  },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job || job.status !== "running" || job.attempts >= MAX_JOB_ATTEMPTS) {
+      return false;
+    }
+
+    const delayMs = retryDelayMs(job.attempts, args.retryAfterMs);
+    await ctx.db.patch(args.jobId, {
+      status: "queued",
+      error: truncateError(args.error),
+      nextAttemptAt: Date.now() + delayMs,
+      updatedAt: Date.now(),
+    });
+
+    await ctx.scheduler.runAfter(delayMs, internal.llmSecure.runGenerationJob, {
+      jobId: args.jobId,
+      request: args.request,
+    });
+    return true;
+  },
+});
+
+/**
+ * Record how a job ended and reflect it on the response node.
+ * Cancellation is final: a stream that finishes after a cancel still counts as stopped.
+ */
+export const finishJob = internalMutation({
+  args: {
+    jobId: v.id("generationJobs"),
+    status: finalJobStatus,
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job) return;
+
+    const status = job.status === "cancelled" ? "cancelled" : args.status;
+    const error = status === "failed" && args.error ? truncateError(args.error) : undefined;
+    await ctx.db.patch(args.jobId, {
+      status,
+      error,
+      nextAttemptAt: undefined,
+      finishedAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+
+    const node = await ctx.db.get(job.responseNodeId);
+    if (node) {
+      await ctx.db.patch(node._id, {
+        meta: {
+          ...node.meta,
+          status: status === "cancelled" ? "stopped" : status === "failed" ? "failed" : undefined,
+          error,
+        },
+      });
+    }
+  },
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { assertSchemaShape, extractJson, validateJson } from "./jsonSchema";
+
+const PERSON = {
+  type: "object",
+  properties: {
+    name: { type: "string", minLength: 1 },
+    age: { type: "integer", minimum: 0 },
+    role: { enum: ["admin", "member"] },
+    tags: { type: "array", items: { type: "string", pattern: "^[a-z]+$" }, maxItems: 2 },
+  },
+  required: ["name", "age"],
+  additionalProperties: false,
+};
+
+describe("validateJson", () => {
+  it("accepts a matching value", () => {
+    expect(validateJson({ name: "Ada", age: 36, role: "admin", tags: ["math"] }, PERSON)).toEqual([]);
+  });
+
+  it("reports type mismatches, distinguishing integers from numbers", () => {
+    expect(validateJson("36", { type: "number" })).toEqual(["(root): expected number, got string"]);
+    expect(validateJson(3.5, { type: "integer" })).toEqual(["(root): expected integer, got number"]);
+    expect(validateJson(null, { type: ["string", "null"] })).toEqual([]);
+    expect(validateJson([], { type: "object" })).toEqual(["(root): expected object, got array"]);
+  });
+
+  it("reports problems with their property paths", () => {
+    const errors = validateJson({ name: "", age: -1, role: "owner", tags: ["ok", "Bad"], extra: true }, PERSON);
+
+    expect(errors).toEqual([
+      "name: must be at least 1 characters",
+      "age: must be >= 0",
+      'role: must be one of "admin", "member"',
+      "tags[1]: must match /^[a-z]+$/",
+      "extra: is not allowed",
+    ]);
+  });
+
+  it("reports missing required properties", () => {
+    expect(validateJson({ name: "Ada" }, PERSON)).toEqual(["age: is required"]);
+  });
+
+  it("does not mistake prototype members for properties", () => {
+    expect(validateJson({}, { type: "object", required: ["toString"] })).toEqual(["toString: is required"]);
+    expect(validateJson(JSON.parse('{"constructor": 1}'), { type: "object", additionalProperties: false }))
+      .toEqual(["constructor: is not allowed"]);
+  });
+
+  it("checks const and array length", () => {
+    expect(validateJson("b", { const: "a" })).toEqual(['(root): must be "a"']);
+    expect(validateJson([1, 2, 3], { type: "array", maxItems: 2 })).toEqual(["(root): must have at most 2 items"]);
+  });
+
+  it("validates extra properties against an additionalProperties schema", () => {
+    const schema = { type: "object", additionalProperties: { type: "number" } };
+
+    expect(validateJson({ a: 1, b: "two" }, schema)).toEqual(["b: expected number, got string"]);
+  });
+
+  it("distinguishes anyOf from oneOf", () => {
+    const alternatives = [{ type: "number" }, { type: "integer" }];
+
+    expect(validateJson(2, { anyOf: alternatives })).toEqual([]);
+    expect(validateJson(2, { oneOf: alternatives })).toEqual(["(root): must match exactly one of the allowed schemas"]);
+    expect(validateJson(2.5, { oneOf: alternatives })).toEqual([]);
+    expect(validateJson("2", { anyOf: alternatives })).toEqual(["(root): must match at least one of the allowed schemas"]);
+  });
+
+  it("caps the number of reported errors", () => {
+    const schema = { type: "array", items: { type: "string" } };
+
+    expect(validateJson(Array.from({ length: 25 }, (_, index) => index), schema)).toHaveLength(10);
+  });
+
+  it("ignores an invalid pattern rather than failing the value", () => {
+    expect(validateJson("abc", { type: "string", pattern: "(" })).toEqual([]);
+  });
+});
+
+describe("assertSchemaShape", () => {
+  it("accepts a well-formed schema", () => {
+    expect(() => assertSchemaShape(PERSON)).not.toThrow();
+  });
+
+  it("rejects malformed keywords with their location", () => {
+    expect(() => assertSchemaShape({ type: "text" })).toThrow('Output schema (root): "type" must be one of');
+    expect(() => assertSchemaShape({ properties: { a: { enum: "x" } } })).toThrow('Output schema a: "enum" must be an array');
+    expect(() => assertSchemaShape({ required: "a" })).toThrow('"required" must be an array of property names');
+    expect(() => assertSchemaShape({ items: { minItems: "1" } })).toThrow('Output schema []: "minItems" must be a number');
+    expect(() => assertSchemaShape({ anyOf: [] })).toThrow('"anyOf" must be a non-empty array');
+  });
+
+  it("rejects schemas nested too deeply", () => {
+    let schema: Record<string, unknown> = { type: "string" };
+    for (let i = 0; i < 40; i++) schema = { type: "array", items: schema };
+
+    expect(() => assertSchemaShape(schema)).toThrow("Output schema is nested too deeply");
+  });
+});
+
+describe("extractJson", () => {
+  it("parses bare JSON, fenced JSON and JSON surrounded by text", () => {
+    expect(extractJson('{"a": 1}')).toEqual({ a: 1 });
+    expect(extractJson('Here you go:\n```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+    expect(extractJson('Sure! [1, 2] is the answer.')).toEqual([1, 2]);
+  });
+
+  it("returns undefined when there is no JSON", () => {
+    expect(extractJson("no json here")).toBeUndefined();
+  });
+});
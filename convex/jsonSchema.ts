@@ -0,0 +1,197 @@
+/**
+ * Minimal JSON Schema validation for structured output.
+ *
+ * Supports the keywords models are commonly asked to follow: type, enum,
+ * const, properties, required, additionalProperties, items, anyOf/oneOf,
+ * minimum/maximum, minLength/maxLength/pattern and minItems/maxItems.
+ * Unknown keywords are ignored rather than rejected.
+ */
+
+export type JsonSchema = Record<string, any>;
+
+const MAX_REPORTED_ERRORS = 10;
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "integer": return typeof value === "number" && Number.isInteger(value);
+    case "number": return typeof value === "number" && Number.isFinite(value);
+    default: return typeOf(value) === type;
+  }
+}
+
+const SCHEMA_TYPES = ["string", "number", "integer", "boolean", "object", "array", "null"];
+const MAX_SCHEMA_DEPTH = 32;
+
+const isSchemaObject = (value: unknown): value is JsonSchema =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Own keys only, so names like "toString" or "constructor" aren't found on the prototype
+const hasOwn = (object: object, name: string): boolean => Object.prototype.hasOwnProperty.call(object, name);
+
+/**
+ * Check that the keywords we act on have the shape JSON Schema gives them,
+ * so a malformed schema is rejected when saved rather than failing generation.
+ * Throws with the first problem found.
+ */
+export function assertSchemaShape(schema: unknown, path = "", depth = 0): void {
+  const at = path || "(root)";
+  if (!isSchemaObject(schema)) throw new Error(`Output schema ${at}: must be an object`);
+  if (depth > MAX_SCHEMA_DEPTH) throw new Error("Output schema is nested too deeply");
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (types.length === 0 || !types.every((type: unknown) => typeof type === "string" && SCHEMA_TYPES.includes(type))) {
+      throw new Error(`Output schema ${at}: "type" must be one of ${SCHEMA_TYPES.join(", ")} or a list of them`);
+    }
+  }
+  if (schema.enum !== undefined && !Array.isArray(schema.enum)) {
+    throw new Error(`Output schema ${at}: "enum" must be an array`);
+  }
+  if (schema.required !== undefined &&
+    (!Array.isArray(schema.required) || !schema.required.every((name: unknown) => typeof name === "string"))) {
+    throw new Error(`Output schema ${at}: "required" must be an array of property names`);
+  }
+  for (const keyword of ["minimum", "maximum", "minLength", "maxLength", "minItems", "maxItems"]) {
+    if (schema[keyword] !== undefined && typeof schema[keyword] !== "number") {
+      throw new Error(`Output schema ${at}: "${keyword}" must be a number`);
+    }
+  }
+  if (schema.pattern !== undefined && typeof schema.pattern !== "string") {
+    throw new Error(`Output schema ${at}: "pattern" must be a string`);
+  }
+
+  if (schema.properties !== undefined) {
+    if (!isSchemaObject(schema.properties)) throw new Error(`Output schema ${at}: "properties" must be an object`);
+    for (const [name, property] of Object.entries(schema.properties)) {
+      assertSchemaShape(property, path ? `${path}.${name}` : name, depth + 1);
+    }
+  }
+  if (schema.items !== undefined) {
+    assertSchemaShape(schema.items, `${path}[]`, depth + 1);
+  }
+  if (schema.additionalProperties !== undefined && typeof schema.additionalProperties !== "boolean") {
+    assertSchemaShape(schema.additionalProperties, `${at} additionalProperties`, depth + 1);
+  }
+  for (const keyword of ["anyOf", "oneOf"]) {
+    if (schema[keyword] === undefined) continue;
+    if (!Array.isArray(schema[keyword]) || schema[keyword].length === 0) {
+      throw new Error(`Output schema ${at}: "${keyword}" must be a non-empty array`);
+    }
+    schema[keyword].forEach((alternative: unknown, index: number) =>
+      assertSchemaShape(alternative, `${at} ${keyword}[${index}]`, depth + 1));
+  }
+}
+
+function validateAt(value: unknown, schema: JsonSchema, path: string, errors: string[]): void {
+  if (errors.length >= MAX_REPORTED_ERRORS || !schema || typeof schema !== "object") return;
+  const at = path || "(root)";
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      errors.push(`${at}: expected ${types.join(" or ")}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+
+  // Shapes are checked when a schema is saved (assertSchemaShape); schemas stored
+  // before that are still read defensively
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: unknown) => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${at}: must be one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(", ")}`);
+  }
+  if (schema.const !== undefined && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    errors.push(`${at}: must be ${JSON.stringify(schema.const)}`);
+  }
+
+  const alternatives: unknown = schema.anyOf ?? schema.oneOf;
+  if (Array.isArray(alternatives)) {
+    const matches = alternatives.filter((alternative) => validateJson(value, alternative).length === 0).length;
+    if (matches === 0 || (schema.oneOf && matches > 1)) {
+      errors.push(`${at}: must match ${schema.oneOf ? "exactly one" : "at least one"} of the allowed schemas`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) errors.push(`${at}: must be >= ${schema.minimum}`);
+    if (typeof schema.maximum === "number" && value > schema.maximum) errors.push(`${at}: must be <= ${schema.maximum}`);
+  }
+
+  if (typeof value === "string") {
+    if (typeof schema.minLength === "number" && value.length < schema.minLength) errors.push(`${at}: must be at least ${schema.minLength} characters`);
+    if (typeof schema.maxLength === "number" && value.length > schema.maxLength) errors.push(`${at}: must be at most ${schema.maxLength} characters`);
+    if (typeof schema.pattern === "string") {
+      try {
+        if (!new RegExp(schema.pattern).test(value)) errors.push(`${at}: must match /${schema.pattern}/`);
+      } catch (error) {
+        // An invalid pattern in the schema is not the response's fault
+      }
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) errors.push(`${at}: must have at least ${schema.minItems} items`);
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) errors.push(`${at}: must have at most ${schema.maxItems} items`);
+    if (schema.items && typeof schema.items === "object" && !Array.isArray(schema.items)) {
+      value.forEach((item, index) => validateAt(item, schema.items, `${path}[${index}]`, errors));
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const record = value as Record<string, unknown>;
+    const properties: Record<string, JsonSchema> = isSchemaObject(schema.properties) ? schema.properties : {};
+
+    for (const name of Array.isArray(schema.required) ? schema.required : []) {
+      if (!hasOwn(record, name)) errors.push(`${path ? `${path}.` : ""}${name}: is required`);
+    }
+    for (const [name, propertyValue] of Object.entries(record)) {
+      const propertyPath = path ? `${path}.${name}` : name;
+      if (hasOwn(properties, name)) {
+        validateAt(propertyValue, properties[name], propertyPath, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${propertyPath}: is not allowed`);
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+        validateAt(propertyValue, schema.additionalProperties, propertyPath, errors);
+      }
+    }
+  }
+}
+
+/**
+ * Validate a value against a schema; returns human-readable errors (empty when valid)
+ */
+export function validateJson(value: unknown, schema: JsonSchema): string[] {
+  const errors: string[] = [];
+  validateAt(value, schema, "", errors);
+  return errors.slice(0, MAX_REPORTED_ERRORS);
+}
+
+/**
+ * Pull the JSON value out of a model reply, tolerating code fences and
+ * text around it. Returns undefined if no JSON can be parsed.
+ */
+export function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidates = [text.trim(), fenced?.[1]?.trim()];
+
+  const start = text.search(/[[{]/);
+  const end = Math.max(text.lastIndexOf("}"), text.lastIndexOf("]"));
+  if (start !== -1 && end > start) {
+    candidates.push(text.slice(start, end + 1));
+  }
+
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      return JSON.parse(candidate);
+    } catch (error) {
+      // Try the next candidate
+    }
+  }
+  return undefined;
+}
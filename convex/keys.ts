@@ -2,13 +2,15 @@ import { mutation, query, internalQuery } from "./_generated/server";
 import { v } from "convex/values";
 import { getAuthUserId } from "@convex-dev/auth/server";
 import { requireAuth } from "./security";
-import { validateApiKeyNickname, validateProviderName } from "./validation";
+import { validateApiKeyNickname, validateProviderName, validateApiKeyEndpoint } from "./validation";
+import { getProvider } from "./providers";
 
 export const addApiKey = mutation({
   args: {
-    provider: v.union(v.literal("openai"), v.literal("anthropic"), v.literal("google")),
+    provider: v.union(v.literal("openai"), v.literal("anthropic"), v.literal("google"), v.literal("local")),
     nickname: v.string(),
     secret: v.string(),
+    endpoint: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const userId = await requireAuth(ctx);
@@ -17,6 +19,14 @@ export const addApiKey = mutation({
     const validatedNickname = validateApiKeyNickname(args.nickname);
     const validatedProvider = validateProviderName(args.provider);
 
+    let validatedEndpoint: string | undefined;
+    if (getProvider(validatedProvider).requiresEndpoint) {
+      if (!args.endpoint) {
+        throw new Error("An endpoint URL is required for this provider");
+      }
+      validatedEndpoint = validateApiKeyEndpoint(args.endpoint);
+    }
+
     // Validate the API key with a test call
     const isValid = await validateApiKey(validatedProvider, args.secret);
     if (!isValid) {
@@ -29,10 +39,11 @@ export const addApiKey = mutation({
 
     const keyId = await ctx.db.insert("apiKeys", {
       ownerUserId: userId,
-      provider: validatedProvider as "openai" | "anthropic" | "google",
+      provider: validatedProvider as "openai" | "anthropic" | "google" | "local",
       nickname: validatedNickname,
       last4,
       encryptedKey,
+      endpoint: validatedEndpoint,
       status: "active",
       createdBy: userId,
       createdAt: Date.now(),
@@ -63,6 +74,7 @@ export const listApiKeys = query({
       provider: key.provider,
       nickname: key.nickname,
       last4: key.last4,
+      endpoint: key.endpoint,
       status: key.status,
       _creationTime: key._creationTime,
     }));
@@ -82,7 +94,7 @@ export const getEncryptedKey = query({
       throw new Error("API key not found or access denied");
     }
 
-    return { encryptedKey: key.encryptedKey };
+    return { encryptedKey: key.encryptedKey, endpoint: key.endpoint };
   },
 });
 
@@ -111,7 +123,11 @@ async function validateApiKey(provider: string, secret: string): Promise<boolean
   if (provider === "openai") {
     return secret.startsWith("sk-") && secret.length > 20;
   }
-  return true;
+  if (provider === "local") {
+    // Self-hosted servers often need no key at all
+    return true;
+  }
+  return secret.length > 0;
 }
 
 async function encryptApiKey(secret: string): Promise<string> {
@@ -132,3 +148,27 @@ export const getApiKey = internalQuery({
     return await ctx.db.get(args.keyId);
   },
 });
+
+/**
+ * A user's active key for a provider, preferring the given key (e.g. a board default)
+ */
+export const getUserProviderKey = internalQuery({
+  args: {
+    userId: v.id("users"),
+    provider: v.string(),
+    preferredKeyId: v.optional(v.id("apiKeys")),
+  },
+  handler: async (ctx, args) => {
+    const keys = await ctx.db
+      .query("apiKeys")
+      .withIndex("by_owner", (q) => q.eq("ownerUserId", args.userId))
+      .filter((q) => q.eq(q.field("status"), "active"))
+      .collect();
+
+    const key =
+      keys.find((k) => k._id === args.preferredKeyId && k.provider === args.provider) ??
+      keys.find((k) => k.provider === args.provider);
+
+    return key ? { encryptedKey: key.encryptedKey, endpoint: key.endpoint } : null;
+  },
+});
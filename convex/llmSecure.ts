@@ -1,47 +1,67 @@
 "use node";
 
-import { action } from "./_generated/server";
+import { action, internalAction } from "./_generated/server";
 import { v } from "convex/values";
 import { getAuthUserId } from "@convex-dev/auth/server";
 import { api, internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
 import { decryptApiKey } from "./keys";
 import { requireAuth, checkRateLimit } from "./security";
-import { 
-  validateNodeContent, 
-  validateModelName, 
+import {
+  validateNodeContent,
+  validateModelName,
   validateProviderName,
   validateTemperature,
-  validateMaxTokens 
+  validateMaxTokens
 } from "./validation";
 import { startRequestTracking, completeRequestTracking } from "./observability";
 import { logFunctionEntry, logFunctionExit, logApiCall, logError } from "./logging";
+import { estimateTokens } from "./context";
+import { generationRequestValidator } from "./jobs";
+import { isRetryableError } from "./providerErrors";
+import {
+  ChatMessage,
+  CompletionRequest,
+  DEFAULT_PROVIDER,
+  ProviderDefinition,
+  calculateCost,
+  findModel,
+  getProvider,
+  supportsWebSearch,
+} from "./providers";
+import { Source, withWebSearch } from "./search";
+import { MAX_TOOL_ROUNDS, ToolScope, executeToolCall, toolSpecs } from "./tools";
+import { JsonSchema, extractJson, validateJson } from "./jsonSchema";
+import { loadAttachments } from "./attachments";
 
-// Helper function to determine if web search should be enabled
-function shouldEnableWebSearch(messages: any[]): boolean {
-  const lastUserMessage = messages.filter(m => m.role === "user").pop();
-  if (!lastUserMessage) return false;
-  
-  const content = lastUserMessage.content.toLowerCase();
-  return (
-    content.includes("search") ||
-    content.includes("current") ||
-    content.includes("recent") ||
-    content.includes("latest") ||
-    content.includes("news") ||
-    content.includes("today") ||
-    content.includes("2024") ||
-    content.includes("2025") ||
-    content.includes("what is") ||
-    content.includes("who is") ||
-    content.includes("when did") ||
-    content.includes("where is") ||
-    content.includes("how does") ||
-    content.includes("explain") ||
-    content.includes("tell me about") ||
-    content.includes("internet") ||
-    content.includes("web") ||
-    content.includes("online")
-  );
+type GenerationRequest = typeof generationRequestValidator.type;
+
+// Get a user's stored API key (and endpoint, if any) for a provider,
+// preferring the board's default key when it matches
+async function getUserApiKey(
+  ctx: any,
+  userId: Id<"users">,
+  provider: string,
+  defaultApiKeyId?: Id<"apiKeys">
+): Promise<{ apiKey: string; baseUrl?: string }> {
+  const keyData = await ctx.runQuery(internal.keys.getUserProviderKey, {
+    userId,
+    provider,
+    preferredKeyId: defaultApiKeyId,
+  });
+
+  if (!keyData) {
+    throw new Error(`No API key found for provider: ${provider}`);
+  }
+
+  const decryptedKey = await decryptApiKey(keyData.encryptedKey);
+
+  // Self-hosted endpoints may legitimately have an empty key
+  if (!decryptedKey && !getProvider(provider).requiresEndpoint) {
+    throw new Error("Failed to decrypt API key");
+  }
+
+  return { apiKey: decryptedKey, baseUrl: keyData.endpoint };
 }
 
 export const complete = action({
@@ -64,101 +84,83 @@ export const complete = action({
     const authenticatedUserId = await requireAuth(ctx);
     const requestId = startRequestTracking("llm.complete", authenticatedUserId);
     const startTime = Date.now();
-    
+
     try {
       logFunctionEntry("llm.complete", requestId, authenticatedUserId);
-      
+
       // Security: Rate limiting
       if (!checkRateLimit(`llm:${authenticatedUserId}`, 50, 60000)) {
         throw new Error("Rate limit exceeded. Please try again later.");
       }
-    
+
     // Security: Verify user owns the board
     const board = await ctx.runQuery(api.boards.getBoard, { boardId: args.boardId });
     if (!board || board.ownerUserId !== authenticatedUserId) {
       throw new Error("Access denied. You can only access your own boards.");
     }
-    
+
     // Validate and sanitize inputs
-    const validatedProvider = args.provider ? validateProviderName(args.provider) : "openai";
-    const validatedModel = args.model ? validateModelName(args.model) : "gpt-4o";
+    const validatedProvider = args.provider ? validateProviderName(args.provider) : DEFAULT_PROVIDER;
+    const providerDefinition = getProvider(validatedProvider);
+    const validatedModel = args.model ? validateModelName(args.model, validatedProvider) : providerDefinition.defaultModel;
     const validatedTemperature = validateTemperature(args.temperature);
     const validatedMaxTokens = validateMaxTokens(args.maxTokens);
-    
+
     // Validate messages content
     const validatedMessages = args.messages.map(msg => ({
       ...msg,
       content: validateNodeContent(msg.content)
     }));
-    
+
     // Use the authenticated userId for security
     const userId = authenticatedUserId;
 
-    // Determine if web search should be enabled
-    const enableWebSearch = shouldEnableWebSearch(validatedMessages);
-
     const provider = validatedProvider;
     const model = validatedModel;
     const temperature = validatedTemperature;
     const maxTokens = validatedMaxTokens;
 
-    // Get API key for the user
-    const apiKeys = await ctx.runQuery(api.keys.listApiKeys, {});
-    const apiKey = apiKeys.find(key => key.provider === provider);
-    
-    if (!apiKey) {
-      throw new Error(`No API key found for provider: ${provider}`);
-    }
+    const { apiKey: decryptedKey, baseUrl } = await getUserApiKey(ctx, userId, provider, board.defaultApiKeyId);
 
-    const keyData = await ctx.runQuery(api.keys.getEncryptedKey, { keyId: apiKey._id });
-    const decryptedKey = await decryptApiKey(keyData.encryptedKey);
-    
-    if (!decryptedKey) {
-      throw new Error("Failed to decrypt API key");
-    }
+    // Search only when the caller asks for it (see boardSettings.resolveWebSearch)
+    const search = args.enableWebSearch && supportsWebSearch(provider, model) ? await withWebSearch(validatedMessages) : undefined;
 
-    // Call OpenAI API
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${decryptedKey}`,
-      },
-      body: JSON.stringify({
-        model: model,
-        messages: validatedMessages,
-        temperature: temperature,
-        max_tokens: maxTokens,
-        tools: enableWebSearch ? [{ type: "web_search" }] : undefined,
-      }),
+    const result = await providerDefinition.complete({
+      apiKey: decryptedKey,
+      model,
+      messages: search?.messages ?? validatedMessages,
+      temperature,
+      maxTokens,
+      baseUrl,
     });
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`OpenAI API error: ${error}`);
-    }
+    await ctx.runMutation(internal.usage.recordUsage, {
+      userId,
+      boardId: args.boardId,
+      nodeId: args.nodeId,
+      provider,
+      model,
+      inputTokens: result.inputTokens,
+      outputTokens: result.outputTokens,
+      costEstimate: calculateCost(provider, model, result.inputTokens, result.outputTokens),
+      status: "success",
+    });
 
-    const data = await response.json();
-    
     // Update the response node with the completion
     if (args.responseNodeId) {
-      await ctx.runMutation(api.nodes.updateResponseNode, {
+      await ctx.runMutation(internal.nodes.updateResponseNode, {
         nodeId: args.responseNodeId,
-        content: data.choices[0].message.content,
+        content: result.text,
         model: validatedModel,
         tokens: {
-          input: data.usage?.prompt_tokens || 0,
-          output: data.usage?.completion_tokens || 0,
+          input: result.inputTokens,
+          output: result.outputTokens,
         },
+        sources: search?.sources,
       });
+      await ctx.runMutation(internal.versions.saveResponseVersion, { nodeId: args.responseNodeId });
     }
 
-      const result = {
-        text: data.choices[0].message.content,
-        inputTokens: data.usage?.prompt_tokens || 0,
-        outputTokens: data.usage?.completion_tokens || 0,
-      };
-
       // Log successful completion
       logFunctionExit("llm.complete", requestId, Date.now() - startTime, 'success', authenticatedUserId, result.inputTokens + result.outputTokens);
       completeRequestTracking(requestId, 'completed', result.inputTokens + result.outputTokens);
@@ -177,6 +179,286 @@ export const complete = action({
   },
 });
 
+type StreamTarget = {
+  userId: Id<"users">;
+  board: Doc<"boards">;
+  nodeId?: Id<"nodes">;
+  responseNodeId?: Id<"nodes">;
+  jobId?: Id<"generationJobs">;
+};
+
+type StructuredOutput = {
+  parsed?: string;
+  valid: boolean;
+  errors?: string[];
+  attempts: number;
+};
+
+type StreamOutcome = {
+  text: string;
+  inputTokens: number;
+  outputTokens: number;
+  cancelled: boolean;
+  structured?: StructuredOutput;
+};
+
+// Attempts at a reply that matches the message's output schema
+const MAX_SCHEMA_ATTEMPTS = 3;
+
+/**
+ * Complete against a JSON Schema: request JSON (natively where the provider
+ * supports it), validate the reply, and on failure send the errors back and
+ * ask again. The last reply is kept even if it never validates.
+ */
+async function completeStructured(
+  providerDefinition: ProviderDefinition,
+  completion: CompletionRequest,
+  schema: JsonSchema,
+  isCancelled: () => Promise<boolean>
+): Promise<StreamOutcome> {
+  const messages: ChatMessage[] = [
+    {
+      role: "system",
+      content: `Respond only with JSON that conforms to the following JSON Schema, without code fences or commentary.\n\n${JSON.stringify(schema, null, 2)}`,
+    },
+    ...completion.messages,
+  ];
+  let inputTokens = 0;
+  let outputTokens = 0;
+
+  for (let attempt = 1; ; attempt++) {
+    const result = await providerDefinition.complete({ ...completion, messages, responseSchema: schema });
+    inputTokens += result.inputTokens;
+    outputTokens += result.outputTokens;
+
+    const parsed = extractJson(result.text);
+    const errors = parsed === undefined ? ["Response is not valid JSON"] : validateJson(parsed, schema);
+    const structured: StructuredOutput = {
+      parsed: parsed === undefined ? undefined : JSON.stringify(parsed, null, 2),
+      valid: errors.length === 0,
+      errors: errors.length > 0 ? errors : undefined,
+      attempts: attempt,
+    };
+
+    if (structured.valid || attempt >= MAX_SCHEMA_ATTEMPTS) {
+      return { text: result.text, inputTokens, outputTokens, cancelled: false, structured };
+    }
+    if (await isCancelled()) {
+      return { text: result.text, inputTokens, outputTokens, cancelled: true, structured };
+    }
+
+    messages.push(
+      { role: "assistant", content: result.text },
+      { role: "user", content: `That response does not match the schema:\n- ${errors.join("\n- ")}\n\nReply with corrected JSON only.` }
+    );
+  }
+}
+
+/**
+ * Complete with tools: each round, run the tool calls the model asks for,
+ * record them on the board and send back their results, until the model
+ * answers without calling a tool. Rounds are not streamed.
+ */
+async function completeWithTools(
+  ctx: any,
+  providerDefinition: ProviderDefinition,
+  completion: CompletionRequest,
+  scope: ToolScope,
+  isCancelled: () => Promise<boolean>
+): Promise<StreamOutcome> {
+  const tools = toolSpecs();
+  const messages: ChatMessage[] = [...completion.messages];
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let toolCallCount = 0;
+
+  for (let round = 1; ; round++) {
+    let result;
+    try {
+      result = await providerDefinition.complete({ ...completion, messages, tools });
+    } catch (error) {
+      // Tool calls have side effects (nodes, notes), so once any have run the job must not be retried
+      if (toolCallCount > 0 && isRetryableError(error)) {
+        throw new Error(error.message);
+      }
+      throw error;
+    }
+    inputTokens += result.inputTokens;
+    outputTokens += result.outputTokens;
+
+    if (!result.toolCalls || result.toolCalls.length === 0) {
+      return { text: result.text, inputTokens, outputTokens, cancelled: false };
+    }
+    if (round > MAX_TOOL_ROUNDS) {
+      const note = `[Stopped after ${MAX_TOOL_ROUNDS} rounds of tool calls]`;
+      return { text: result.text ? `${result.text}\n\n${note}` : note, inputTokens, outputTokens, cancelled: false };
+    }
+
+    messages.push({ role: "assistant", content: result.text, toolCalls: result.toolCalls });
+    for (const call of result.toolCalls) {
+      const { output, isError } = await executeToolCall(ctx, scope, call);
+      await ctx.runMutation(internal.tools.recordToolCall, {
+        ...scope,
+        callId: call.id,
+        name: call.name,
+        arguments: JSON.stringify(call.arguments, null, 2),
+        output,
+        isError,
+      });
+      messages.push({ role: "tool", content: output, toolCallId: call.id, toolName: call.name });
+      toolCallCount++;
+    }
+
+    if (await isCancelled()) {
+      return { text: result.text, inputTokens, outputTokens, cancelled: true };
+    }
+  }
+}
+
+/**
+ * Stream a completion into a response node, recording usage and the new
+ * response version. With a job, the job is checked between chunks and the
+ * upstream request aborted once it is cancelled.
+ */
+async function streamCompletion(
+  ctx: any,
+  target: StreamTarget,
+  request: GenerationRequest
+): Promise<StreamOutcome> {
+  // Validate and sanitize inputs
+  const provider = validateProviderName(request.provider);
+  const providerDefinition = getProvider(provider);
+  const model = validateModelName(request.model, provider);
+  const temperature = validateTemperature(request.temperature);
+  const maxTokens = validateMaxTokens(request.maxTokens);
+
+  // Validate messages content
+  const validatedMessages = request.messages.map(msg => ({
+    ...msg,
+    content: validateNodeContent(msg.content)
+  }));
+
+  const { apiKey: decryptedKey, baseUrl } = await getUserApiKey(ctx, target.userId, provider, target.board.defaultApiKeyId);
+
+  // Images and PDFs only reach models that can read them
+  let messages = await loadAttachments(ctx, validatedMessages, !!findModel(provider, model)?.capabilities.vision);
+
+  // Search only when the request asks for it (see boardSettings.resolveWebSearch).
+  // A continuation keeps the sources its response was written from.
+  let sources: Source[] | undefined;
+  if (request.enableWebSearch && !request.continueFrom && supportsWebSearch(provider, model)) {
+    ({ messages, sources } = await withWebSearch(messages));
+  }
+
+  const prefix = request.continueFrom?.content ?? "";
+  let fullResponse = "";
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let cancelled = false;
+
+  const controller = new AbortController();
+  const completion: CompletionRequest = {
+    apiKey: decryptedKey,
+    model,
+    messages,
+    temperature,
+    maxTokens,
+    baseUrl,
+    signal: controller.signal,
+  };
+  const isCancelled = async () =>
+    !!target.jobId && (await ctx.runQuery(internal.jobs.getJobStatus, { jobId: target.jobId })) === "cancelled";
+
+  let structured: StructuredOutput | undefined;
+
+  // A schema takes precedence over tools; continuations extend free text, so they ignore it
+  if (request.outputSchema && !request.continueFrom) {
+    ({ text: fullResponse, inputTokens, outputTokens, cancelled, structured } = await completeStructured(
+      providerDefinition,
+      completion,
+      JSON.parse(request.outputSchema),
+      isCancelled
+    ));
+  } else if (request.enableTools && !request.continueFrom && target.responseNodeId && findModel(provider, model)?.capabilities.tools) {
+    // Tool calls hang off the response node, so tools need one (and a model that supports them)
+    ({ text: fullResponse, inputTokens, outputTokens, cancelled } = await completeWithTools(
+      ctx,
+      providerDefinition,
+      completion,
+      { userId: target.userId, boardId: target.board._id, responseNodeId: target.responseNodeId },
+      isCancelled
+    ));
+  } else {
+    const stream = providerDefinition.stream(completion);
+
+    for await (const chunk of stream) {
+      if (chunk.done) {
+        inputTokens = chunk.inputTokens;
+        outputTokens = chunk.outputTokens;
+        break;
+      }
+
+      fullResponse += chunk.content;
+
+      // Update the response node with streaming content
+      if (target.responseNodeId) {
+        await ctx.runMutation(internal.nodes.updateResponseNodeStream, {
+          nodeId: target.responseNodeId,
+          content: prefix + fullResponse,
+          model,
+        });
+      }
+
+      // Stop as soon as the job is cancelled, closing the upstream request
+      if (await isCancelled()) {
+        cancelled = true;
+        controller.abort();
+        break;
+      }
+    }
+
+    // Providers only report usage at the end of a stream, so a cancelled
+    // generation is billed on an estimate of what was sent and received
+    if (cancelled) {
+      inputTokens = messages.reduce((total, msg) => total + estimateTokens(msg.content), 0);
+      outputTokens = estimateTokens(fullResponse);
+    }
+  }
+
+  await ctx.runMutation(internal.usage.recordUsage, {
+    userId: target.userId,
+    boardId: target.board._id,
+    nodeId: target.nodeId,
+    provider,
+    model,
+    inputTokens,
+    outputTokens,
+    costEstimate: calculateCost(provider, model, inputTokens, outputTokens),
+    status: cancelled ? "cancelled" : "success",
+  });
+
+  // Final update with token counts
+  if (target.responseNodeId) {
+    await ctx.runMutation(internal.nodes.updateResponseNode, {
+      nodeId: target.responseNodeId,
+      content: prefix + fullResponse,
+      model,
+      tokens: {
+        input: inputTokens + (request.continueFrom?.tokens.input ?? 0),
+        output: outputTokens + (request.continueFrom?.tokens.output ?? 0),
+      },
+      sources,
+      structured,
+    });
+    await ctx.runMutation(internal.versions.saveResponseVersion, {
+      nodeId: target.responseNodeId,
+      extend: !!request.continueFrom,
+    });
+  }
+
+  return { text: fullResponse, inputTokens, outputTokens, cancelled };
+}
+
 export const completeStream = action({
   args: {
     boardId: v.id("boards"),
@@ -192,151 +474,109 @@ export const completeStream = action({
     maxTokens: v.optional(v.number()),
     enableWebSearch: v.optional(v.boolean()),
   },
-  handler: async (ctx, args) => {
+  handler: async (ctx, args): Promise<StreamOutcome> => {
     // Security: Require authentication
     const authenticatedUserId = await requireAuth(ctx);
-    
+
     // Security: Rate limiting
     if (!checkRateLimit(`llm-stream:${authenticatedUserId}`, 30, 60000)) {
       throw new Error("Rate limit exceeded. Please try again later.");
     }
-    
+
     // Security: Verify user owns the board
     const board = await ctx.runQuery(api.boards.getBoard, { boardId: args.boardId });
     if (!board || board.ownerUserId !== authenticatedUserId) {
       throw new Error("Access denied. You can only access your own boards.");
     }
-    
-    // Validate and sanitize inputs
-    const validatedProvider = args.provider ? validateProviderName(args.provider) : "openai";
-    const validatedModel = args.model ? validateModelName(args.model) : "gpt-4o";
-    const validatedTemperature = validateTemperature(args.temperature);
-    const validatedMaxTokens = validateMaxTokens(args.maxTokens);
-    
-    // Validate messages content
-    const validatedMessages = args.messages.map(msg => ({
-      ...msg,
-      content: validateNodeContent(msg.content)
-    }));
-    
-    // Use the authenticated userId for security
-    const userId = authenticatedUserId;
-
-    // Determine if web search should be enabled
-    const enableWebSearch = shouldEnableWebSearch(validatedMessages);
-
-    const provider = validatedProvider;
-    const model = validatedModel;
-    const temperature = validatedTemperature;
-    const maxTokens = validatedMaxTokens;
-
-    // Get API key for the user
-    const apiKeys = await ctx.runQuery(api.keys.listApiKeys, {});
-    const apiKey = apiKeys.find(key => key.provider === provider);
-    
-    if (!apiKey) {
-      throw new Error(`No API key found for provider: ${provider}`);
-    }
-
-    const keyData = await ctx.runQuery(api.keys.getEncryptedKey, { keyId: apiKey._id });
-    const decryptedKey = await decryptApiKey(keyData.encryptedKey);
-    
-    if (!decryptedKey) {
-      throw new Error("Failed to decrypt API key");
-    }
 
-    // Call OpenAI API with streaming
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${decryptedKey}`,
-      },
-      body: JSON.stringify({
-        model: model,
-        messages: validatedMessages,
-        temperature: temperature,
-        max_tokens: maxTokens,
-        stream: true,
-        tools: enableWebSearch ? [{ type: "web_search" }] : undefined,
-      }),
+    const provider = args.provider ?? DEFAULT_PROVIDER;
+    return await streamCompletion(ctx, {
+      userId: authenticatedUserId,
+      board,
+      nodeId: args.nodeId,
+      responseNodeId: args.responseNodeId,
+    }, {
+      messages: args.messages,
+      provider,
+      model: args.model ?? getProvider(validateProviderName(provider)).defaultModel,
+      temperature: validateTemperature(args.temperature),
+      maxTokens: validateMaxTokens(args.maxTokens),
+      enableWebSearch: args.enableWebSearch,
     });
+  },
+});
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`OpenAI API error: ${error}`);
+/**
+ * Run one attempt of a generation job. Scheduled functions carry no auth,
+ * so the job record (created by an authenticated mutation) is the authority
+ * for who is generating on which board.
+ */
+export const runGenerationJob = internalAction({
+  args: {
+    jobId: v.id("generationJobs"),
+    request: generationRequestValidator,
+  },
+  handler: async (ctx, args) => {
+    // A job cancelled before it started has nothing left to do, and one over
+    // the generation rate limit has been rescheduled
+    if (!(await ctx.runMutation(internal.jobs.markJobRunning, { jobId: args.jobId, request: args.request }))) {
+      return;
     }
 
-    const reader = response.body?.getReader();
-    if (!reader) {
-      throw new Error("No response body reader available");
+    const run = await ctx.runQuery(internal.jobs.getJobRun, { jobId: args.jobId });
+    if (!run || run.board.ownerUserId !== run.job.userId) {
+      await ctx.runMutation(internal.jobs.finishJob, {
+        jobId: args.jobId,
+        status: "failed",
+        error: "Access denied. You can only access your own boards.",
+      });
+      return;
     }
 
-    let fullResponse = "";
-    let inputTokens = 0;
-    let outputTokens = 0;
-
     try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = new TextDecoder().decode(value);
-        const lines = chunk.split('\n');
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            if (data === '[DONE]') continue;
-
-            try {
-              const parsed = JSON.parse(data);
-              const content = parsed.choices?.[0]?.delta?.content;
-              if (content) {
-                fullResponse += content;
-                
-                // Update the response node with streaming content
-                if (args.responseNodeId) {
-                  await ctx.runMutation(api.nodes.updateResponseNodeStream, {
-                    nodeId: args.responseNodeId,
-                    content: fullResponse,
-                    model: validatedModel,
-                  });
-                }
-              }
-
-              // Track token usage
-              if (parsed.usage) {
-                inputTokens = parsed.usage.prompt_tokens || 0;
-                outputTokens = parsed.usage.completion_tokens || 0;
-              }
-            } catch (e) {
-              // Ignore parsing errors for incomplete chunks
-            }
-          }
-        }
+      const outcome = await streamCompletion(ctx, {
+        userId: run.job.userId,
+        board: run.board,
+        nodeId: run.job.nodeId,
+        responseNodeId: run.job.responseNodeId,
+        jobId: args.jobId,
+      }, args.request);
+
+      await ctx.runMutation(internal.jobs.finishJob, {
+        jobId: args.jobId,
+        status: outcome.cancelled ? "cancelled" : "succeeded",
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      // Rate limits and provider outages are retried with backoff; they fail
+      // before any content streams, so the retry starts from a clean node
+      if (isRetryableError(error)) {
+        const retrying = await ctx.runMutation(internal.jobs.retryJob, {
+          jobId: args.jobId,
+          error: message,
+          retryAfterMs: error.retryAfterMs,
+          request: args.request,
+        });
+        if (retrying) return;
       }
-    } finally {
-      reader.releaseLock();
-    }
 
-    // Final update with token counts
-    if (args.responseNodeId) {
-      await ctx.runMutation(api.nodes.updateResponseNode, {
-        nodeId: args.responseNodeId,
-        content: fullResponse,
-        model: validatedModel,
-        tokens: {
-          input: inputTokens,
-          output: outputTokens,
-        },
+      await ctx.runMutation(internal.usage.recordUsage, {
+        userId: run.job.userId,
+        boardId: run.job.boardId,
+        nodeId: run.job.nodeId,
+        provider: run.job.provider,
+        model: run.job.model,
+        inputTokens: 0,
+        outputTokens: 0,
+        costEstimate: 0,
+        status: "error",
+      });
+      await ctx.runMutation(internal.jobs.finishJob, {
+        jobId: args.jobId,
+        status: "failed",
+        error: message,
       });
     }
-
-    return {
-      text: fullResponse,
-      inputTokens,
-      outputTokens,
-    };
   },
 });
@@ -1,8 +1,7 @@
-import { query, mutation } from "./_generated/server";
+import { query, mutation, internalMutation } from "./_generated/server";
 import { v } from "convex/values";
 import { getAuthUserId } from "@convex-dev/auth/server";
-import { api } from "./_generated/api";
-import { Id } from "./_generated/dataModel";
+import { Doc, Id } from "./_generated/dataModel";
 import { requireAuth } from "./security";
 import { 
   validateNodeContent, 
@@ -10,8 +9,20 @@ import {
   validateModelName, 
   validateProviderName,
   validateTemperature,
-  validateMaxTokens 
+  validateMaxTokens,
+  validateOutputSchema,
+  validateNodeColor
 } from "./validation";
+import { DEFAULT_PROVIDER, getContextWindow, getProvider } from "./providers";
+import { assembleContext, contextBudget } from "./context";
+import { DEFAULT_SYSTEM_PROMPT, WebSearchPolicy, parseBoardSettings, resolveWebSearch, webSearchPolicyValidator } from "./boardSettings";
+import { archiveResponse, deleteResponseVersions } from "./versions";
+import { cancelActiveJob, startGenerationJob } from "./jobs";
+import { structuredOutputValidator } from "./schema";
+import { deleteAttachmentFiles } from "./attachments";
+import { findFrameAt, releaseFrameChildren } from "./frames";
+import { takeAutoSnapshot } from "./snapshots";
+import { deleteNodeTags } from "./tags";
 
 export const listNodesByBoard = query({
   args: { boardId: v.id("boards") },
@@ -77,6 +88,9 @@ export const createNode = mutation({
       throw new Error("Board not found or access denied");
     }
 
+    // A node created inside a frame belongs to it
+    const frame = args.type !== "frame" ? await findFrameAt(ctx, args.boardId, args.position) : undefined;
+
     const nodeId = await ctx.db.insert("nodes", {
       boardId: args.boardId,
       type: args.type,
@@ -85,6 +99,7 @@ export const createNode = mutation({
       position: args.position,
       size: args.size,
       collapsed: args.collapsed ?? false,
+      parentFrameId: frame?._id,
       meta: args.meta ?? {},
       createdBy: userId,
       createdAt: Date.now(),
@@ -109,6 +124,7 @@ export const updateNode = mutation({
       height: v.number(),
     })),
     collapsed: v.optional(v.boolean()),
+    color: v.optional(v.string()),
     meta: v.optional(v.object({
       model: v.optional(v.string()),
       provider: v.optional(v.string()),
@@ -146,12 +162,153 @@ export const updateNode = mutation({
     if (args.position !== undefined) updates.position = args.position;
     if (args.size !== undefined) updates.size = args.size;
     if (args.collapsed !== undefined) updates.collapsed = args.collapsed;
+    if (args.color !== undefined) updates.color = validateNodeColor(args.color);
     if (args.meta !== undefined) updates.meta = args.meta;
 
     await ctx.db.patch(args.nodeId, updates);
   },
 });
 
+const CONTINUATION_INSTRUCTION = "Continue your previous response from exactly where it left off, without repeating what you have already written. Your reply is appended to it as is, so start with a space or line break only if the text needs one there.";
+
+// Side-by-side response columns (response cards are up to 800px wide)
+const FAN_OUT_COLUMN_WIDTH = 850;
+const MAX_FAN_OUT = 6;
+
+// Responses may end with this marker to offer a continuation (see NodeCard)
+const CONTINUE_MARKER = "CONTINUE?";
+
+export type GenerationArgs = {
+  provider?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Web search setting of the message being answered
+  webSearch?: WebSearchPolicy;
+  // JSON Schema the message asks the response to follow
+  outputSchema?: string;
+};
+
+export type GenerationSettings = {
+  provider: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  systemPrompt: string;
+  // Web search policies; decided per message when a job starts (see completionArgs)
+  webSearch: { board?: WebSearchPolicy; message?: WebSearchPolicy };
+  enableTools: boolean;
+  outputSchema?: string;
+};
+
+// Validate generation arguments and fill in defaults: explicit arguments win,
+// then the board's settings, then the provider of the board's default key
+export async function resolveGenerationSettings(ctx: any, board: Doc<"boards">, args: GenerationArgs): Promise<GenerationSettings> {
+  const boardSettings = parseBoardSettings(board.settingsJson);
+
+  let defaultProvider: string = boardSettings.defaultProvider ?? DEFAULT_PROVIDER;
+  if (!boardSettings.defaultProvider && board.defaultApiKeyId) {
+    const defaultKey = await ctx.db.get(board.defaultApiKeyId);
+    if (defaultKey && defaultKey.status === "active") {
+      defaultProvider = defaultKey.provider;
+    }
+  }
+
+  const provider = validateProviderName(args.provider ?? defaultProvider);
+  const defaultModel = provider === boardSettings.defaultProvider && boardSettings.defaultModel
+    ? boardSettings.defaultModel
+    : getProvider(provider).defaultModel;
+
+  return {
+    provider,
+    model: args.model ? validateModelName(args.model, provider) : defaultModel,
+    temperature: validateTemperature(args.temperature ?? boardSettings.temperature),
+    maxTokens: validateMaxTokens(args.maxTokens ?? boardSettings.maxTokens),
+    systemPrompt: boardSettings.systemPrompt ?? DEFAULT_SYSTEM_PROMPT,
+    webSearch: { board: boardSettings.webSearch, message: args.webSearch },
+    enableTools: !!boardSettings.tools,
+    outputSchema: args.outputSchema,
+  };
+}
+
+// Completion parameters for a generation job answering `messageNode`
+function completionArgs(settings: GenerationSettings, messageNode: Doc<"nodes">) {
+  return {
+    provider: settings.provider,
+    model: settings.model,
+    temperature: settings.temperature,
+    maxTokens: settings.maxTokens,
+    enableWebSearch: resolveWebSearch(
+      settings.webSearch.board,
+      settings.webSearch.message ?? messageNode.meta.webSearch
+    ),
+    enableTools: settings.enableTools,
+    outputSchema: settings.outputSchema,
+  };
+}
+
+// Create a response node beside a message node, link it, and schedule its generation
+export async function scheduleResponse(
+  ctx: any,
+  userId: Id<"users">,
+  messageNode: Doc<"nodes">,
+  settings: GenerationSettings,
+  // Column to the right of the message, for side-by-side branches
+  column: number = 0
+): Promise<Id<"nodes">> {
+  // Build messages from the full lineage path, with referenced nodes attached,
+  // fitted to the model's context window (node content is validated as it is added)
+  const { messages, report } = await assembleContext(
+    ctx,
+    messageNode._id,
+    settings.systemPrompt,
+    contextBudget(getContextWindow(settings.provider, settings.model), settings.maxTokens)
+  );
+
+  // Create a placeholder response node that will be updated by the action
+  const responseNodeId = await ctx.db.insert("nodes", {
+    boardId: messageNode.boardId,
+    type: "response",
+    role: "assistant",
+    content: "",
+    position: {
+      x: messageNode.position.x + 400 + column * FAN_OUT_COLUMN_WIDTH,
+      y: messageNode.position.y,
+    },
+    collapsed: false,
+    meta: {
+      model: settings.model,
+      provider: settings.provider,
+      context: report,
+    },
+    createdBy: userId,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  });
+
+  // Schedule the secure LLM completion action to run after this mutation
+  await startGenerationJob(ctx, {
+    userId,
+    boardId: messageNode.boardId,
+    nodeId: messageNode._id,
+    responseNodeId,
+    request: { messages, ...completionArgs(settings, messageNode) },
+  });
+
+  // Create an edge from message to response
+  await ctx.db.insert("edges", {
+    boardId: messageNode.boardId,
+    srcNodeId: messageNode._id,
+    dstNodeId: responseNodeId,
+    kind: "lineage",
+    createdBy: userId,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  });
+
+  return responseNodeId;
+}
+
 export const generateFromMessage = mutation({
   args: {
     boardId: v.id("boards"),
@@ -160,6 +317,7 @@ export const generateFromMessage = mutation({
     model: v.optional(v.string()),
     temperature: v.optional(v.number()),
     maxTokens: v.optional(v.number()),
+    webSearch: v.optional(webSearchPolicyValidator),
   },
   handler: async (ctx, args): Promise<Id<"nodes">> => {
     const userId = await requireAuth(ctx);
@@ -170,94 +328,393 @@ export const generateFromMessage = mutation({
       throw new Error("Message node not found");
     }
 
-    // Validate and sanitize inputs
-    const validatedProvider = args.provider ? validateProviderName(args.provider) : "openai";
-    const validatedModel = args.model ? validateModelName(args.model) : "gpt-4o";
-    const validatedTemperature = validateTemperature(args.temperature);
-    const validatedMaxTokens = validateMaxTokens(args.maxTokens);
+    // Check board access
+    const board = await ctx.db.get(args.boardId);
+    if (!board || board.ownerUserId !== userId || messageNode.boardId !== args.boardId) {
+      throw new Error("Board not found or access denied");
+    }
+
+    // A model or web search setting chosen on the message node overrides the board defaults
+    const settings = await resolveGenerationSettings(ctx, board, {
+      ...args,
+      provider: args.provider ?? messageNode.meta.provider,
+      model: args.model ?? (args.provider ? undefined : messageNode.meta.model),
+      webSearch: args.webSearch ?? messageNode.meta.webSearch,
+      outputSchema: messageNode.meta.outputSchema,
+    });
+    return await scheduleResponse(ctx, userId, messageNode, settings);
+  },
+});
+
+export const generateFanOut = mutation({
+  args: {
+    boardId: v.id("boards"),
+    messageNodeId: v.id("nodes"),
+    targets: v.array(v.object({
+      provider: v.string(),
+      model: v.optional(v.string()),
+    })),
+    temperature: v.optional(v.number()),
+    maxTokens: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<Id<"nodes">[]> => {
+    const userId = await requireAuth(ctx);
+
+    // Get the message node
+    const messageNode = await ctx.db.get(args.messageNodeId);
+    if (!messageNode || (messageNode.type !== "message" && messageNode.type !== "prompt")) {
+      throw new Error("Message node not found");
+    }
 
     // Check board access
     const board = await ctx.db.get(args.boardId);
-    if (!board || board.ownerUserId !== userId) {
+    if (!board || board.ownerUserId !== userId || messageNode.boardId !== args.boardId) {
       throw new Error("Board not found or access denied");
     }
 
-    // Get connected nodes to build context
-    const connectedEdges = await ctx.db
-      .query("edges")
-      .withIndex("by_dst", (q) => q.eq("dstNodeId", args.messageNodeId))
-      .collect();
+    if (args.targets.length === 0) {
+      throw new Error("Choose at least one model");
+    }
+    if (args.targets.length > MAX_FAN_OUT) {
+      throw new Error(`At most ${MAX_FAN_OUT} models can be compared at once`);
+    }
+
+    // Validate every target before creating anything, dropping duplicates
+    const targets: GenerationSettings[] = [];
+    for (const target of args.targets) {
+      const settings = await resolveGenerationSettings(ctx, board, {
+        ...target,
+        temperature: args.temperature,
+        maxTokens: args.maxTokens,
+        webSearch: messageNode.meta.webSearch,
+        outputSchema: messageNode.meta.outputSchema,
+      });
+      if (!targets.some((t) => t.provider === settings.provider && t.model === settings.model)) {
+        targets.push(settings);
+      }
+    }
+
+    // One branch per model, laid out left to right; each generates independently
+    const responseNodeIds: Id<"nodes">[] = [];
+    for (const [column, settings] of targets.entries()) {
+      responseNodeIds.push(await scheduleResponse(ctx, userId, messageNode, settings, column));
+    }
+
+    return responseNodeIds;
+  },
+});
+
+export const setNodeModel = mutation({
+  args: {
+    nodeId: v.id("nodes"),
+    // Omit both to fall back to the board defaults
+    provider: v.optional(v.string()),
+    model: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
 
-    // Build messages array with context
-    const messages: Array<{role: "system" | "user" | "assistant", content: string}> = [];
-    
-    // Add system message
-    messages.push({
-      role: "system",
-      content: "You are a helpful assistant. Respond to the user's message based on the context provided."
+    const node = await ctx.db.get(args.nodeId);
+    if (!node || (node.type !== "message" && node.type !== "prompt")) {
+      throw new Error("Message node not found");
+    }
+
+    // Check board access
+    const board = await ctx.db.get(node.boardId);
+    if (!board || board.ownerUserId !== userId) {
+      throw new Error("Access denied");
+    }
+
+    if (args.model && !args.provider) {
+      throw new Error("A model override requires a provider");
+    }
+    const provider = args.provider ? validateProviderName(args.provider) : undefined;
+    const model = provider && args.model ? validateModelName(args.model, provider) : undefined;
+
+    await ctx.db.patch(args.nodeId, {
+      meta: { ...node.meta, provider, model },
+      updatedAt: Date.now(),
     });
+  },
+});
 
-    // Add connected context messages
-    for (const edge of connectedEdges) {
-      const contextNode = await ctx.db.get(edge.srcNodeId);
-      if (contextNode && contextNode.content) {
-        messages.push({
-          role: "user",
-          content: contextNode.content
-        });
-      }
+export const setNodeWebSearch = mutation({
+  args: {
+    nodeId: v.id("nodes"),
+    webSearch: webSearchPolicyValidator,
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+
+    const node = await ctx.db.get(args.nodeId);
+    if (!node || (node.type !== "message" && node.type !== "prompt")) {
+      throw new Error("Message node not found");
     }
 
-    // Add the main message (validate content)
-    messages.push({
-      role: "user",
-      content: validateNodeContent(messageNode.content)
+    // Check board access
+    const board = await ctx.db.get(node.boardId);
+    if (!board || board.ownerUserId !== userId) {
+      throw new Error("Access denied");
+    }
+
+    await ctx.db.patch(args.nodeId, {
+      // "auto" follows the board, so it is stored as no setting
+      meta: { ...node.meta, webSearch: args.webSearch === "auto" ? undefined : args.webSearch },
+      updatedAt: Date.now(),
     });
+  },
+});
+
+export const setNodeOutputSchema = mutation({
+  args: {
+    nodeId: v.id("nodes"),
+    // Omit (or send empty) to go back to free-form responses
+    outputSchema: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+
+    const node = await ctx.db.get(args.nodeId);
+    if (!node || (node.type !== "message" && node.type !== "prompt")) {
+      throw new Error("Message node not found");
+    }
+
+    // Check board access
+    const board = await ctx.db.get(node.boardId);
+    if (!board || board.ownerUserId !== userId) {
+      throw new Error("Access denied");
+    }
+
+    // Validate and sanitize inputs
+    const outputSchema = validateOutputSchema(args.outputSchema);
 
-    // Create a placeholder response node that will be updated by the action
-    const responseNodeId = await ctx.db.insert("nodes", {
+    await ctx.db.patch(args.nodeId, {
+      meta: { ...node.meta, outputSchema },
+      updatedAt: Date.now(),
+    });
+
+    return outputSchema;
+  },
+});
+
+export const generateFromAssistant = mutation({
+  args: {
+    boardId: v.id("boards"),
+    assistantNodeId: v.id("nodes"),
+    content: v.string(),
+    provider: v.optional(v.string()),
+    model: v.optional(v.string()),
+    temperature: v.optional(v.number()),
+    maxTokens: v.optional(v.number()),
+    webSearch: v.optional(webSearchPolicyValidator),
+  },
+  handler: async (ctx, args): Promise<{ messageNodeId: Id<"nodes">; responseNodeId: Id<"nodes"> }> => {
+    const userId = await requireAuth(ctx);
+
+    const assistantNode = await ctx.db.get(args.assistantNodeId);
+    if (!assistantNode || assistantNode.type !== "response") {
+      throw new Error("Assistant node not found");
+    }
+
+    // Check board access
+    const board = await ctx.db.get(args.boardId);
+    if (!board || board.ownerUserId !== userId || assistantNode.boardId !== args.boardId) {
+      throw new Error("Board not found or access denied");
+    }
+
+    // Validate and sanitize inputs
+    const content = validateNodeContent(args.content);
+    if (content.trim().length === 0) {
+      throw new Error("Follow-up message cannot be empty");
+    }
+    const settings = await resolveGenerationSettings(ctx, board, args);
+
+    // Follow-up user message to the right of the assistant node, on the same row
+    const messageNodeId = await ctx.db.insert("nodes", {
       boardId: args.boardId,
-      type: "response",
-      role: "assistant",
-      content: "",
+      type: "message",
+      role: "user",
+      content,
       position: {
-        x: messageNode.position.x + 400,
-        y: messageNode.position.y,
+        x: assistantNode.position.x + 700,
+        y: assistantNode.position.y,
       },
       collapsed: false,
-      meta: {
-        model: validatedModel,
-        provider: validatedProvider,
-      },
+      meta: { webSearch: args.webSearch },
       createdBy: userId,
       createdAt: Date.now(),
       updatedAt: Date.now(),
     });
 
-    // Schedule the secure LLM completion action to run after this mutation
-    await ctx.scheduler.runAfter(0, api.llmSecure.completeStream, {
-      boardId: args.boardId,
-      nodeId: args.messageNodeId,
-      responseNodeId: responseNodeId,
-      messages,
-      provider: validatedProvider,
-      model: validatedModel,
-      temperature: validatedTemperature,
-      maxTokens: validatedMaxTokens,
-    });
-
-    // Create an edge from message to response
     await ctx.db.insert("edges", {
       boardId: args.boardId,
-      srcNodeId: args.messageNodeId,
-      dstNodeId: responseNodeId,
+      srcNodeId: args.assistantNodeId,
+      dstNodeId: messageNodeId,
       kind: "lineage",
       createdBy: userId,
       createdAt: Date.now(),
       updatedAt: Date.now(),
     });
 
-    return responseNodeId;
+    const messageNode = await ctx.db.get(messageNodeId);
+    const responseNodeId = await scheduleResponse(ctx, userId, messageNode!, settings);
+
+    return { messageNodeId, responseNodeId };
+  },
+});
+
+export const generateContinuation = mutation({
+  args: {
+    boardId: v.id("boards"),
+    responseNodeId: v.id("nodes"),
+    provider: v.optional(v.string()),
+    model: v.optional(v.string()),
+    temperature: v.optional(v.number()),
+    maxTokens: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<Id<"nodes">> => {
+    const userId = await requireAuth(ctx);
+
+    const responseNode = await ctx.db.get(args.responseNodeId);
+    if (!responseNode || responseNode.type !== "response") {
+      throw new Error("Response node not found");
+    }
+
+    // Check board access
+    const board = await ctx.db.get(args.boardId);
+    if (!board || board.ownerUserId !== userId || responseNode.boardId !== args.boardId) {
+      throw new Error("Board not found or access denied");
+    }
+
+    // Continue with the model that wrote the response unless told otherwise
+    const settings = await resolveGenerationSettings(ctx, board, {
+      ...args,
+      provider: args.provider ?? responseNode.meta.provider,
+      model: args.model ?? (args.provider ? undefined : responseNode.meta.model),
+    });
+
+    // Drop the continuation marker so neither the model nor the card sees it again
+    let existing = responseNode.content;
+    if (existing.trimEnd().endsWith(CONTINUE_MARKER)) {
+      existing = existing.trimEnd().slice(0, -CONTINUE_MARKER.length).trimEnd();
+    }
+    await ctx.db.patch(args.responseNodeId, { content: existing, updatedAt: Date.now() });
+
+    // The response itself is the last turn of its lineage
+    const { messages, report } = await assembleContext(
+      ctx,
+      args.responseNodeId,
+      `${settings.systemPrompt}\n\n${CONTINUATION_INSTRUCTION}`,
+      contextBudget(getContextWindow(settings.provider, settings.model), settings.maxTokens)
+    );
+    messages.push({ role: "user", content: "Continue." });
+
+    await ctx.db.patch(args.responseNodeId, {
+      meta: { ...responseNode.meta, context: report },
+    });
+
+    // Stream onto the end of the existing content
+    await startGenerationJob(ctx, {
+      userId,
+      boardId: args.boardId,
+      nodeId: args.responseNodeId,
+      responseNodeId: args.responseNodeId,
+      request: {
+        messages,
+        ...completionArgs(settings, responseNode),
+        continueFrom: {
+          // Joined as is: the model's output supplies any whitespace
+          content: existing,
+          tokens: responseNode.meta.tokens ?? { input: 0, output: 0 },
+        },
+      },
+    });
+
+    return args.responseNodeId;
+  },
+});
+
+export const regenerateResponse = mutation({
+  args: {
+    boardId: v.id("boards"),
+    responseNodeId: v.id("nodes"),
+    provider: v.optional(v.string()),
+    model: v.optional(v.string()),
+    temperature: v.optional(v.number()),
+    maxTokens: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<Id<"nodes">> => {
+    const userId = await requireAuth(ctx);
+
+    const responseNode = await ctx.db.get(args.responseNodeId);
+    if (!responseNode || responseNode.type !== "response") {
+      throw new Error("Response node not found");
+    }
+
+    // Check board access
+    const board = await ctx.db.get(args.boardId);
+    if (!board || board.ownerUserId !== userId || responseNode.boardId !== args.boardId) {
+      throw new Error("Board not found or access denied");
+    }
+
+    // The message this response answers
+    const incoming = await ctx.db
+      .query("edges")
+      .withIndex("by_dst", (q) => q.eq("dstNodeId", args.responseNodeId))
+      .collect();
+    const parentEdge = incoming
+      .filter((edge) => edge.kind === "lineage")
+      .sort((a, b) => a.createdAt - b.createdAt)[0];
+    const messageNode = parentEdge ? await ctx.db.get(parentEdge.srcNodeId) : null;
+    if (!messageNode) {
+      throw new Error("This response is not connected to a message to regenerate from");
+    }
+
+    // Regenerate with the same model unless told otherwise
+    const settings = await resolveGenerationSettings(ctx, board, {
+      ...args,
+      provider: args.provider ?? responseNode.meta.provider,
+      model: args.model ?? (args.provider ? undefined : responseNode.meta.model),
+      webSearch: messageNode.meta.webSearch,
+      outputSchema: messageNode.meta.outputSchema,
+    });
+
+    // Keep the current answer (responses from before version history have no version yet)
+    await archiveResponse(ctx, args.responseNodeId);
+
+    const { messages, report } = await assembleContext(
+      ctx,
+      messageNode._id,
+      settings.systemPrompt,
+      contextBudget(getContextWindow(settings.provider, settings.model), settings.maxTokens)
+    );
+
+    // Clear the node for the new generation; it becomes a new version on completion
+    const archived = (await ctx.db.get(args.responseNodeId))!;
+    await ctx.db.patch(args.responseNodeId, {
+      content: "",
+      meta: {
+        ...archived.meta,
+        model: settings.model,
+        provider: settings.provider,
+        tokens: undefined,
+        sources: undefined,
+        structured: undefined,
+        context: report,
+        currentVersionId: undefined,
+      },
+      updatedAt: Date.now(),
+    });
+
+    await startGenerationJob(ctx, {
+      userId,
+      boardId: args.boardId,
+      nodeId: messageNode._id,
+      responseNodeId: args.responseNodeId,
+      request: { messages, ...completionArgs(settings, messageNode) },
+    });
+
+    return args.responseNodeId;
   },
 });
 
@@ -291,7 +748,7 @@ export const migratePromptToMessage = mutation({
   },
 });
 
-export const updateResponseNode = mutation({
+export const updateResponseNode = internalMutation({
   args: {
     nodeId: v.id("nodes"),
     content: v.string(),
@@ -300,6 +757,13 @@ export const updateResponseNode = mutation({
       input: v.number(),
       output: v.number(),
     }),
+    // Web search results the response was written from; omitted keeps the node's own
+    sources: v.optional(v.array(v.object({
+      url: v.string(),
+      title: v.string(),
+      at: v.number(),
+    }))),
+    structured: v.optional(structuredOutputValidator),
   },
   handler: async (ctx, args) => {
     const node = await ctx.db.get(args.nodeId);
@@ -313,13 +777,15 @@ export const updateResponseNode = mutation({
         ...node.meta,
         model: args.model,
         tokens: args.tokens,
+        sources: args.sources ?? node.meta.sources,
+        structured: args.structured ?? node.meta.structured,
       },
       updatedAt: Date.now(),
     });
   },
 });
 
-export const updateResponseNodeStream = mutation({
+export const updateResponseNodeStream = internalMutation({
   args: {
     nodeId: v.id("nodes"),
     content: v.string(),
@@ -364,29 +830,61 @@ export const deleteNode = mutation({
       throw new Error("Access denied");
     }
 
-    if (args.deleteDescendants) {
-      // Find and delete all descendant nodes
-      const descendants = await findDescendants(ctx, args.nodeId);
-      for (const descendant of descendants) {
-        await ctx.db.delete(descendant._id);
+    const descendants = args.deleteDescendants ? await findDescendants(ctx, args.nodeId) : [];
+
+    // Keep the deleted nodes restorable. A lone note or empty node isn't worth
+    // serialising the whole board for (a frame releases its children, so it never is lone)
+    const isLone = descendants.length === 0 && node.type !== "frame";
+    const isEmpty = !node.title && !node.content.trim() && !node.attachments?.length;
+    if (!isLone || (node.type !== "note" && !isEmpty)) {
+      const name = node.title || node.content.slice(0, 40) || node.type;
+      await takeAutoSnapshot(ctx, userId, node.boardId, `Before deleting "${name}"`);
+    }
+
+    // Stop generations first so they don't keep streaming into deleted nodes
+    for (const target of [node, ...descendants]) {
+      if (target.type === "response") {
+        await cancelActiveJob(ctx, target._id);
       }
     }
 
-    // Delete edges connected to this node
-    const edges = await ctx.db
-      .query("edges")
-      .withIndex("by_src", (q) => q.eq("srcNodeId", args.nodeId))
-      .collect();
-    
-    const incomingEdges = await ctx.db
-      .query("edges")
-      .withIndex("by_dst", (q) => q.eq("dstNodeId", args.nodeId))
-      .collect();
+    // Delete edges connected to this node and its descendants
+    const deletedEdgeIds = new Set<string>();
+    for (const target of [node, ...descendants]) {
+      const edges = await ctx.db
+        .query("edges")
+        .withIndex("by_src", (q) => q.eq("srcNodeId", target._id))
+        .collect();
+
+      const incomingEdges = await ctx.db
+        .query("edges")
+        .withIndex("by_dst", (q) => q.eq("dstNodeId", target._id))
+        .collect();
+
+      for (const edge of [...edges, ...incomingEdges]) {
+        if (deletedEdgeIds.has(edge._id)) continue;
+        deletedEdgeIds.add(edge._id);
+        await ctx.db.delete(edge._id);
+      }
+    }
 
-    for (const edge of [...edges, ...incomingEdges]) {
-      await ctx.db.delete(edge._id);
+    if (descendants.length > 0) {
+      // Delete all descendant nodes
+      await deleteAttachmentFiles(ctx, descendants);
+      for (const descendant of descendants) {
+        await deleteResponseVersions(ctx, descendant._id);
+        await deleteNodeTags(ctx, descendant._id);
+        await ctx.db.delete(descendant._id);
+      }
     }
 
+    await deleteResponseVersions(ctx, args.nodeId);
+    await deleteNodeTags(ctx, args.nodeId);
+    await deleteAttachmentFiles(ctx, [node]);
+    if (node.type === "frame") {
+      // Deleting a frame keeps its contents
+      await releaseFrameChildren(ctx, node);
+    }
     await ctx.db.delete(args.nodeId);
   },
 });
@@ -409,7 +907,7 @@ async function findDescendants(ctx: any, nodeId: string): Promise<any[]> {
     for (const edge of outgoingEdges) {
       if (edge.kind === "lineage") {
         const childNode = await ctx.db.get(edge.dstNodeId);
-        if (childNode) {
+        if (childNode && !visited.has(childNode._id) && !queue.includes(childNode._id)) {
           descendants.push(childNode);
           queue.push(edge.dstNodeId);
         }
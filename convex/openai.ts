@@ -0,0 +1,223 @@
+/**
+ * OpenAI Chat Completions API adapter
+ */
+
+import { providerError } from "./providerErrors";
+import type { ChatAttachment, ChatMessage, ToolCall, ToolSpec } from "./providers";
+
+export const OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+function toOpenAIContentPart(attachment: ChatAttachment) {
+  const dataUrl = `data:${attachment.mimeType};base64,${attachment.data}`;
+  return attachment.kind === "image"
+    ? { type: "image_url", image_url: { url: dataUrl } }
+    : { type: "file", file: { filename: attachment.name, file_data: dataUrl } };
+}
+
+/**
+ * Convert our chat messages to the Chat Completions shape, including
+ * assistant tool calls, the tool results that answer them, and attached
+ * images and PDFs as content parts
+ */
+function toOpenAIMessages(messages: ChatMessage[]) {
+  return messages.map((message) => {
+    if (message.role === "tool") {
+      return { role: "tool", tool_call_id: message.toolCallId, content: message.content };
+    }
+    if (message.toolCalls && message.toolCalls.length > 0) {
+      return {
+        role: "assistant",
+        content: message.content || null,
+        tool_calls: message.toolCalls.map((call) => ({
+          id: call.id,
+          type: "function",
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+        })),
+      };
+    }
+    if (message.attachments && message.attachments.length > 0) {
+      return {
+        role: message.role,
+        content: [
+          ...(message.content ? [{ type: "text", text: message.content }] : []),
+          ...message.attachments.map(toOpenAIContentPart),
+        ],
+      };
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+function buildOpenAIBody(
+  model: string,
+  messages: ChatMessage[],
+  temperature: number,
+  maxTokens: number,
+  tools?: ToolSpec[],
+  responseSchema?: Record<string, unknown>
+) {
+  const requestBody: any = {
+    model,
+    messages: toOpenAIMessages(messages),
+    temperature,
+    max_tokens: maxTokens,
+  };
+
+  if (tools && tools.length > 0) {
+    requestBody.tools = tools.map((tool) => ({
+      type: "function",
+      function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+    }));
+  }
+
+  if (responseSchema) {
+    requestBody.response_format = {
+      type: "json_schema",
+      json_schema: { name: "response", schema: responseSchema, strict: false },
+    };
+  }
+
+  return requestBody;
+}
+
+// Tool arguments arrive as a JSON string; malformed arguments become an empty object
+function parseToolArguments(raw: string | undefined): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(raw || "{}");
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch (e) {
+    return {};
+  }
+}
+
+async function openAIRequest(apiKey: string, body: any, baseUrl: string, signal?: AbortSignal): Promise<Response> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+  // Self-hosted servers (Ollama, llama.cpp) usually run without a key
+  if (apiKey) {
+    headers["Authorization"] = `Bearer ${apiKey}`;
+  }
+
+  const response = await fetch(`${baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+    method: "POST",
+    signal,
+    headers,
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw await providerError("OpenAI", response);
+  }
+
+  return response;
+}
+
+export async function callOpenAI(
+  apiKey: string,
+  model: string,
+  messages: ChatMessage[],
+  temperature: number,
+  maxTokens: number,
+  baseUrl: string = OPENAI_BASE_URL,
+  tools?: ToolSpec[],
+  signal?: AbortSignal,
+  responseSchema?: Record<string, unknown>
+) {
+  const response = await openAIRequest(
+    apiKey, buildOpenAIBody(model, messages, temperature, maxTokens, tools, responseSchema), baseUrl, signal
+  );
+  const data = await response.json();
+  const message = data.choices[0].message;
+
+  const toolCalls: ToolCall[] = (message.tool_calls || []).map((call: any) => ({
+    id: call.id,
+    name: call.function?.name,
+    arguments: parseToolArguments(call.function?.arguments),
+  }));
+
+  return {
+    text: message.content || "",
+    inputTokens: data.usage?.prompt_tokens || 0,
+    outputTokens: data.usage?.completion_tokens || 0,
+    toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+  };
+}
+
+export async function* callOpenAIStream(
+  apiKey: string,
+  model: string,
+  messages: ChatMessage[],
+  temperature: number,
+  maxTokens: number,
+  baseUrl: string = OPENAI_BASE_URL,
+  signal?: AbortSignal
+): AsyncGenerator<{content: string, inputTokens: number, outputTokens: number, done?: boolean}, void, unknown> {
+  const response = await openAIRequest(apiKey, {
+    ...buildOpenAIBody(model, messages, temperature, maxTokens),
+    stream: true,
+    stream_options: { include_usage: true },
+  }, baseUrl, signal);
+
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error("No response body reader available");
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let finished = false;
+
+  try {
+    while (!finished) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        const trimmedLine = line.trim();
+        if (trimmedLine.startsWith('data: ')) {
+          const data = trimmedLine.slice(6);
+          if (data === '[DONE]') {
+            finished = true;
+            break;
+          }
+
+          try {
+            const parsed = JSON.parse(data);
+            const delta = parsed.choices?.[0]?.delta;
+
+            if (delta?.content) {
+              yield {
+                content: delta.content,
+                inputTokens: parsed.usage?.prompt_tokens || 0,
+                outputTokens: parsed.usage?.completion_tokens || 0,
+              };
+            }
+            if (parsed.usage) {
+              inputTokens = parsed.usage.prompt_tokens || 0;
+              outputTokens = parsed.usage.completion_tokens || 0;
+            }
+          } catch (e) {
+            // Skip invalid JSON
+          }
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  // Return final token counts
+  yield {
+    content: "",
+    inputTokens,
+    outputTokens,
+    done: true,
+  };
+}
@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ProviderError, isRetryableError, providerError } from "./providerErrors";
+
+describe("providerError", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("uses the provider's error message and status", async () => {
+    const response = new Response(JSON.stringify({ error: { message: "Invalid API key" } }), {
+      status: 401,
+      statusText: "Unauthorized",
+    });
+
+    const error = await providerError("OpenAI", response);
+
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error.message).toBe("OpenAI API error: Invalid API key");
+    expect(error.status).toBe(401);
+    expect(error.retryAfterMs).toBeUndefined();
+  });
+
+  it("falls back to the status text for a non-JSON body", async () => {
+    const response = new Response("<html>Bad Gateway</html>", { status: 502, statusText: "Bad Gateway" });
+
+    const error = await providerError("Gemini", response);
+
+    expect(error.message).toBe("Gemini API error: Bad Gateway");
+  });
+
+  it("reads Retry-After given in seconds", async () => {
+    const response = new Response("{}", { status: 429, headers: { "retry-after": "3" } });
+
+    const error = await providerError("Anthropic", response);
+
+    expect(error.retryAfterMs).toBe(3000);
+  });
+
+  it("reads Retry-After given as a date", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    const response = new Response("{}", { status: 503, headers: { "retry-after": "Thu, 01 Jan 2026 00:00:10 GMT" } });
+
+    const error = await providerError("Anthropic", response);
+
+    expect(error.retryAfterMs).toBe(10000);
+  });
+
+  it("ignores an unparseable Retry-After", async () => {
+    const response = new Response("{}", { status: 429, headers: { "retry-after": "soon" } });
+
+    const error = await providerError("Anthropic", response);
+
+    expect(error.retryAfterMs).toBeUndefined();
+  });
+});
+
+describe("isRetryableError", () => {
+  it("retries rate limits and server errors", () => {
+    expect(isRetryableError(new ProviderError("rate limited", 429))).toBe(true);
+    expect(isRetryableError(new ProviderError("server error", 500))).toBe(true);
+    expect(isRetryableError(new ProviderError("overloaded", 529))).toBe(true);
+  });
+
+  it("does not retry client errors", () => {
+    for (const status of [400, 401, 403, 404, 422]) {
+      expect(isRetryableError(new ProviderError("client error", status))).toBe(false);
+    }
+  });
+
+  it("does not retry errors that did not come from a provider response", () => {
+    expect(isRetryableError(new Error("fetch failed"))).toBe(false);
+    expect(isRetryableError("429")).toBe(false);
+    expect(isRetryableError(undefined)).toBe(false);
+  });
+});
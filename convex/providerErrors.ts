@@ -0,0 +1,55 @@
+/**
+ * Errors raised by provider adapters for unsuccessful HTTP responses
+ */
+
+export class ProviderError extends Error {
+  readonly status: number;
+  // Delay requested by the provider's Retry-After header, if any
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, status: number, retryAfterMs?: number) {
+    super(message);
+    this.name = "ProviderError";
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Build an error from a failed response, using the provider's message when it sends one
+ */
+export async function providerError(label: string, response: Response): Promise<ProviderError> {
+  let message = response.statusText;
+  try {
+    const error = await response.json();
+    message = error.error?.message || message;
+  } catch (e) {
+    // Non-JSON error body
+  }
+
+  return new ProviderError(
+    `${label} API error: ${message}`,
+    response.status,
+    parseRetryAfter(response.headers.get("retry-after"))
+  );
+}
+
+/**
+ * Rate limits and server-side failures are worth retrying; anything else
+ * (bad key, bad request, unknown model) will fail the same way again
+ */
+export function isRetryableError(error: unknown): error is ProviderError {
+  return error instanceof ProviderError && (error.status === 429 || error.status >= 500);
+}
@@ -0,0 +1,351 @@
+import { query } from "./_generated/server";
+import { OPENAI_BASE_URL, callOpenAI, callOpenAIStream } from "./openai";
+import { callAnthropic, callAnthropicStream } from "./anthropic";
+import { callGemini, callGeminiStream } from "./google";
+
+/**
+ * LLM provider registry: the single source of truth for which providers
+ * and models exist, what they cost, what they can do, and how to call them.
+ */
+
+export type ProviderId = "openai" | "anthropic" | "google" | "local";
+
+export type ToolCall = {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+};
+
+// A callable tool as offered to a model; `parameters` is a JSON Schema object
+export type ToolSpec = {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+};
+
+// A file sent with a turn (see attachments.ts); `data` is base64
+export type ChatAttachment = {
+  kind: "image" | "pdf";
+  name: string;
+  mimeType: string;
+  data: string;
+};
+
+export type ChatMessage = {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string;
+  // Images and PDFs, for models with vision (text files are inlined into content)
+  attachments?: ChatAttachment[];
+  // Tools an assistant turn asked to call
+  toolCalls?: ToolCall[];
+  // For tool turns: the call this is the result of
+  toolCallId?: string;
+  toolName?: string;
+};
+
+export type CompletionRequest = {
+  apiKey: string;
+  model: string;
+  messages: ChatMessage[];
+  temperature: number;
+  maxTokens: number;
+  // Base URL stored on the API key, for providers that need one
+  baseUrl?: string;
+  // Aborts the upstream request (used to cancel streaming generations)
+  signal?: AbortSignal;
+  // Tools the model may call (non-streaming completions only)
+  tools?: ToolSpec[];
+  // Ask for JSON following this schema, where the provider supports it natively
+  responseSchema?: Record<string, unknown>;
+};
+
+export type CompletionResult = {
+  text: string;
+  inputTokens: number;
+  outputTokens: number;
+  toolCalls?: ToolCall[];
+};
+
+export type StreamChunk = {
+  content: string;
+  inputTokens: number;
+  outputTokens: number;
+  done?: boolean;
+};
+
+export interface ModelCapabilities {
+  streaming: boolean;
+  tools: boolean;
+  // Answers from web search results added to the prompt (see search.ts)
+  webSearch: boolean;
+  vision: boolean;
+}
+
+export interface ModelDefinition {
+  id: string;
+  label: string;
+  contextWindow: number;
+  // USD per million tokens
+  pricing: { input: number; output: number };
+  capabilities: ModelCapabilities;
+}
+
+export interface ProviderDefinition {
+  id: ProviderId;
+  label: string;
+  defaultModel: string;
+  // Environment variables checked for a system-wide key, in order
+  envKeys: string[];
+  // Requests go to a base URL stored on the API key rather than a fixed host
+  requiresEndpoint?: boolean;
+  // Environment variable holding a system-wide base URL for such providers
+  endpointEnvKey?: string;
+  // Any model name is accepted (e.g. whatever a self-hosted server has loaded)
+  allowsCustomModels?: boolean;
+  models: ModelDefinition[];
+  complete: (request: CompletionRequest) => Promise<CompletionResult>;
+  stream: (request: CompletionRequest) => AsyncGenerator<StreamChunk, void, unknown>;
+}
+
+const openai: ProviderDefinition = {
+  id: "openai",
+  label: "OpenAI",
+  defaultModel: "gpt-4o",
+  envKeys: ["CONVEX_OPENAI_API_KEY", "OPENAI_API_KEY"],
+  models: [
+    {
+      id: "gpt-4o",
+      label: "GPT-4o",
+      contextWindow: 128000,
+      pricing: { input: 2.5, output: 10 },
+      capabilities: { streaming: true, tools: true, webSearch: true, vision: true },
+    },
+    {
+      id: "gpt-4o-mini",
+      label: "GPT-4o mini",
+      contextWindow: 128000,
+      pricing: { input: 0.15, output: 0.6 },
+      capabilities: { streaming: true, tools: true, webSearch: true, vision: true },
+    },
+  ],
+  complete: (request) => callOpenAI(
+    request.apiKey, request.model, request.messages, request.temperature, request.maxTokens,
+    OPENAI_BASE_URL, request.tools, request.signal, request.responseSchema
+  ),
+  stream: (request) => callOpenAIStream(
+    request.apiKey, request.model, request.messages, request.temperature, request.maxTokens,
+    OPENAI_BASE_URL, request.signal
+  ),
+};
+
+const anthropic: ProviderDefinition = {
+  id: "anthropic",
+  label: "Anthropic",
+  defaultModel: "claude-sonnet-4-5",
+  envKeys: ["CONVEX_ANTHROPIC_API_KEY", "ANTHROPIC_API_KEY"],
+  models: [
+    {
+      id: "claude-opus-4-1",
+      label: "Claude Opus 4.1",
+      contextWindow: 200000,
+      pricing: { input: 15, output: 75 },
+      capabilities: { streaming: true, tools: true, webSearch: true, vision: true },
+    },
+    {
+      id: "claude-sonnet-4-5",
+      label: "Claude Sonnet 4.5",
+      contextWindow: 200000,
+      pricing: { input: 3, output: 15 },
+      capabilities: { streaming: true, tools: true, webSearch: true, vision: true },
+    },
+    {
+      id: "claude-3-5-haiku-latest",
+      label: "Claude Haiku 3.5",
+      contextWindow: 200000,
+      pricing: { input: 0.8, output: 4 },
+      capabilities: { streaming: true, tools: true, webSearch: true, vision: true },
+    },
+  ],
+  complete: (request) => callAnthropic(
+    request.apiKey, request.model, request.messages, request.temperature, request.maxTokens, request.tools, request.signal
+  ),
+  stream: (request) => callAnthropicStream(
+    request.apiKey, request.model, request.messages, request.temperature, request.maxTokens, request.signal
+  ),
+};
+
+const google: ProviderDefinition = {
+  id: "google",
+  label: "Google",
+  defaultModel: "gemini-2.5-flash",
+  envKeys: ["CONVEX_GOOGLE_API_KEY", "GOOGLE_API_KEY"],
+  models: [
+    {
+      id: "gemini-2.5-pro",
+      label: "Gemini 2.5 Pro",
+      contextWindow: 1048576,
+      pricing: { input: 1.25, output: 10 },
+      capabilities: { streaming: true, tools: true, webSearch: true, vision: true },
+    },
+    {
+      id: "gemini-2.5-flash",
+      label: "Gemini 2.5 Flash",
+      contextWindow: 1048576,
+      pricing: { input: 0.3, output: 2.5 },
+      capabilities: { streaming: true, tools: true, webSearch: true, vision: true },
+    },
+    {
+      id: "gemini-2.5-flash-lite",
+      label: "Gemini 2.5 Flash-Lite",
+      contextWindow: 1048576,
+      pricing: { input: 0.1, output: 0.4 },
+      capabilities: { streaming: true, tools: true, webSearch: true, vision: true },
+    },
+  ],
+  complete: (request) => callGemini(
+    request.apiKey, request.model, request.messages, request.temperature, request.maxTokens, request.tools, request.signal,
+    request.responseSchema
+  ),
+  stream: (request) => callGeminiStream(
+    request.apiKey, request.model, request.messages, request.temperature, request.maxTokens, request.signal
+  ),
+};
+
+// Any OpenAI-compatible server (Ollama, llama.cpp, vLLM), e.g. http://localhost:11434/v1
+const local: ProviderDefinition = {
+  id: "local",
+  label: "OpenAI-compatible (self-hosted)",
+  defaultModel: "llama3.1",
+  envKeys: ["LOCAL_LLM_API_KEY"],
+  requiresEndpoint: true,
+  endpointEnvKey: "LOCAL_LLM_BASE_URL",
+  allowsCustomModels: true,
+  models: [],
+  complete: (request) => callOpenAI(
+    request.apiKey, request.model, request.messages, request.temperature, request.maxTokens, requireBaseUrl(request),
+    request.tools, request.signal, request.responseSchema
+  ),
+  stream: (request) => callOpenAIStream(
+    request.apiKey, request.model, request.messages, request.temperature, request.maxTokens, requireBaseUrl(request),
+    request.signal
+  ),
+};
+
+function requireBaseUrl(request: CompletionRequest): string {
+  if (!request.baseUrl) {
+    throw new Error("No endpoint configured for this API key");
+  }
+  return request.baseUrl;
+}
+
+export const PROVIDERS: Record<ProviderId, ProviderDefinition> = {
+  openai,
+  anthropic,
+  google,
+  local,
+};
+
+export const DEFAULT_PROVIDER: ProviderId = "openai";
+
+export function isProviderId(provider: string): provider is ProviderId {
+  return Object.prototype.hasOwnProperty.call(PROVIDERS, provider);
+}
+
+/**
+ * Look up a provider, throwing if it is not registered
+ */
+export function getProvider(provider: string): ProviderDefinition {
+  if (!isProviderId(provider)) {
+    throw new Error(`Provider ${provider} not yet supported`);
+  }
+  return PROVIDERS[provider];
+}
+
+/**
+ * Look up a model on a provider, or undefined if the provider does not offer it
+ */
+export function findModel(provider: string, model: string): ModelDefinition | undefined {
+  if (!isProviderId(provider)) return undefined;
+  return PROVIDERS[provider].models.find((m) => m.id === model);
+}
+
+// Assumed for self-hosted and unknown models, whose limits we cannot know
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+/**
+ * Context window in tokens for a model
+ */
+export function getContextWindow(provider: string, model: string): number {
+  return findModel(provider, model)?.contextWindow ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Whether web search results may be added for a model. Self-hosted models
+ * can't be described in advance, so search follows the request for them.
+ */
+export function supportsWebSearch(provider: string, model: string): boolean {
+  const definition = findModel(provider, model);
+  if (definition) return definition.capabilities.webSearch;
+  return isProviderId(provider) && !!PROVIDERS[provider].allowsCustomModels;
+}
+
+/**
+ * First configured system-wide key for a provider, if any
+ */
+export function getSystemApiKey(provider: string): string | undefined {
+  for (const name of getProvider(provider).envKeys) {
+    if (process.env[name]) {
+      return process.env[name];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * System-wide base URL for endpoint-based providers, if configured
+ */
+export function getSystemEndpoint(provider: string): string | undefined {
+  const name = getProvider(provider).endpointEnvKey;
+  return name ? process.env[name] : undefined;
+}
+
+/**
+ * Whether a model name may be requested from a provider
+ */
+export function isModelAllowed(provider: string, model: string): boolean {
+  if (!isProviderId(provider)) return false;
+  return !!PROVIDERS[provider].allowsCustomModels || !!findModel(provider, model);
+}
+
+/**
+ * Estimated cost in USD for a call, based on the registry's list prices
+ */
+export function calculateCost(provider: string, model: string, inputTokens: number, outputTokens: number): number {
+  const definition = findModel(provider, model);
+  if (!definition) {
+    // Self-hosted and unknown models are treated as free
+    return 0;
+  }
+  return (inputTokens * definition.pricing.input + outputTokens * definition.pricing.output) / 1_000_000;
+}
+
+/**
+ * Providers and models available for selection in the UI
+ */
+export const listProviders = query({
+  args: {},
+  handler: async () => {
+    return Object.values(PROVIDERS).map((provider) => ({
+      id: provider.id,
+      label: provider.label,
+      defaultModel: provider.defaultModel,
+      allowsCustomModels: !!provider.allowsCustomModels,
+      models: provider.models.map((model) => ({
+        id: model.id,
+        label: model.label,
+        contextWindow: model.contextWindow,
+        capabilities: model.capabilities,
+      })),
+    }));
+  },
+});
@@ -2,6 +2,23 @@ import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 import { authTables } from "@convex-dev/auth/server";
 
+export const structuredOutputValidator = v.object({
+  // Parsed JSON, serialized (stored as text since keys may not be valid field names)
+  parsed: v.optional(v.string()),
+  valid: v.boolean(),
+  // Schema violations of the last attempt, when it never validated
+  errors: v.optional(v.array(v.string())),
+  attempts: v.number(),
+});
+
+// A file in Convex storage attached to a message node (see attachments.ts)
+export const attachmentValidator = v.object({
+  storageId: v.id("_storage"),
+  name: v.string(),
+  mimeType: v.string(),
+  size: v.number(),
+});
+
 const applicationTables = {
   boards: defineTable({
     ownerUserId: v.id("users"),
@@ -31,7 +48,16 @@ const applicationTables = {
 
   nodes: defineTable({
     boardId: v.id("boards"),
-    type: v.union(v.literal("prompt"), v.literal("message"), v.literal("response"), v.literal("note"), v.literal("frame")),
+    type: v.union(
+      v.literal("prompt"),
+      v.literal("message"),
+      v.literal("response"),
+      v.literal("note"),
+      v.literal("frame"),
+      // Created by assistant tool use (see tools.ts)
+      v.literal("toolCall"),
+      v.literal("toolResult")
+    ),
     role: v.optional(v.union(v.literal("user"), v.literal("assistant"))),
     title: v.optional(v.string()),
     content: v.string(),
@@ -45,6 +71,10 @@ const applicationTables = {
     })),
     collapsed: v.boolean(),
     color: v.optional(v.string()),
+    // Frame this node sits in (see frames.ts)
+    parentFrameId: v.optional(v.id("nodes")),
+    // Images and files sent to the model along with the content
+    attachments: v.optional(v.array(attachmentValidator)),
     meta: v.object({
       model: v.optional(v.string()),
       provider: v.optional(v.string()),
@@ -57,6 +87,33 @@ const applicationTables = {
         title: v.string(),
         at: v.number(),
       }))),
+      // Tool call and result nodes: which call they belong to
+      tool: v.optional(v.object({
+        callId: v.string(),
+        name: v.string(),
+        isError: v.optional(v.boolean()),
+      })),
+      // JSON Schema a message node asks its responses to follow
+      outputSchema: v.optional(v.string()),
+      // Structured output of a response generated against a schema; the raw reply is the content
+      structured: v.optional(structuredOutputValidator),
+      // Web search setting of a message node; absent follows the board
+      webSearch: v.optional(v.union(v.literal("off"), v.literal("auto"), v.literal("always"))),
+      // What the model was sent when this response was generated
+      context: v.optional(v.object({
+        included: v.array(v.id("nodes")),
+        truncated: v.array(v.id("nodes")),
+        summarized: v.array(v.id("nodes")),
+        dropped: v.array(v.id("nodes")),
+        estimatedTokens: v.number(),
+        budget: v.number(),
+      })),
+      // Response version shown as current (see responseVersions)
+      currentVersionId: v.optional(v.id("responseVersions")),
+      // Generation state of a response node; absent once it completes normally
+      status: v.optional(v.union(v.literal("generating"), v.literal("stopped"), v.literal("failed"))),
+      // Why the last generation failed
+      error: v.optional(v.string()),
     }),
     // Security metadata
     createdBy: v.id("users"),
@@ -67,13 +124,15 @@ const applicationTables = {
     lastAccessedBy: v.optional(v.id("users")),
   })
     .index("by_board", ["boardId"])
+    .index("by_parent_frame", ["parentFrameId"])
     .index("by_created", ["createdBy"]),
 
   edges: defineTable({
     boardId: v.id("boards"),
     srcNodeId: v.id("nodes"),
     dstNodeId: v.id("nodes"),
-    kind: v.union(v.literal("lineage"), v.literal("reference")),
+    // "tool" links a response to its tool calls and each call to its result
+    kind: v.union(v.literal("lineage"), v.literal("reference"), v.literal("tool")),
     label: v.optional(v.string()),
     // Security metadata
     createdBy: v.id("users"),
@@ -108,23 +167,130 @@ const applicationTables = {
     .index("by_tag", ["tagId"])
     .index("by_created", ["createdBy"]),
 
+  generationJobs: defineTable({
+    boardId: v.id("boards"),
+    // Node the generation was requested from, and the response node it writes to
+    nodeId: v.id("nodes"),
+    responseNodeId: v.id("nodes"),
+    userId: v.id("users"),
+    provider: v.string(),
+    model: v.string(),
+    status: v.union(
+      v.literal("queued"),
+      v.literal("running"),
+      v.literal("succeeded"),
+      v.literal("failed"),
+      v.literal("cancelled")
+    ),
+    // Attempts started so far; failed attempts are retried with backoff
+    attempts: v.number(),
+    nextAttemptAt: v.optional(v.number()),
+    error: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    startedAt: v.optional(v.number()),
+    finishedAt: v.optional(v.number()),
+  })
+    .index("by_board", ["boardId"])
+    .index("by_board_status", ["boardId", "status"])
+    .index("by_response_node", ["responseNodeId"])
+    .index("by_user_started", ["userId", "startedAt"]),
+
+  batchRuns: defineTable({
+    boardId: v.id("boards"),
+    // Frame whose children the instruction was run against
+    frameNodeId: v.id("nodes"),
+    userId: v.id("users"),
+    instruction: v.string(),
+    provider: v.string(),
+    model: v.string(),
+    // One entry per child: the instruction message branched from it and its response
+    items: v.array(v.object({
+      childNodeId: v.id("nodes"),
+      messageNodeId: v.id("nodes"),
+      responseNodeId: v.id("nodes"),
+    })),
+    // Upper bound shown before starting, in USD
+    estimatedCost: v.number(),
+    // Progress is read from the response nodes; only cancellation is recorded here
+    cancelled: v.optional(v.boolean()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_board", ["boardId"])
+    .index("by_frame", ["frameNodeId"]),
+
+  responseVersions: defineTable({
+    boardId: v.id("boards"),
+    nodeId: v.id("nodes"),
+    content: v.string(),
+    model: v.optional(v.string()),
+    provider: v.optional(v.string()),
+    tokens: v.optional(v.object({
+      input: v.number(),
+      output: v.number(),
+    })),
+    sources: v.optional(v.array(v.object({
+      url: v.string(),
+      title: v.string(),
+      at: v.number(),
+    }))),
+    structured: v.optional(structuredOutputValidator),
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+  })
+    .index("by_node", ["nodeId"])
+    .index("by_board", ["boardId"]),
+
+  promptTemplates: defineTable({
+    ownerUserId: v.id("users"),
+    // Board templates are offered only on that board; without one the template is the user's
+    boardId: v.optional(v.id("boards")),
+    name: v.string(),
+    // Prompt text with {{variable}} placeholders
+    content: v.string(),
+    variables: v.array(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_owner", ["ownerUserId"])
+    .index("by_board", ["boardId"]),
+
   snapshots: defineTable({
     boardId: v.id("boards"),
     label: v.string(),
     graphJson: v.string(),
+    // Graph size, so listing snapshots doesn't parse graphJson
+    nodeCount: v.optional(v.number()),
+    edgeCount: v.optional(v.number()),
+    // Taken automatically (and pruned by retention); absent for manual snapshots
+    kind: v.optional(v.union(v.literal("manual"), v.literal("auto"))),
     createdBy: v.id("users"),
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index("by_board", ["boardId"])
+    .index("by_board_kind", ["boardId", "kind"])
+    .index("by_kind_created", ["kind", "createdAt"])
     .index("by_created", ["createdBy"]),
 
+  // Attachment files a snapshot refers to; kept in storage while any snapshot needs them
+  snapshotFiles: defineTable({
+    snapshotId: v.id("snapshots"),
+    boardId: v.id("boards"),
+    storageId: v.id("_storage"),
+  })
+    .index("by_snapshot", ["snapshotId"])
+    .index("by_storage", ["storageId"]),
+
   apiKeys: defineTable({
     ownerUserId: v.id("users"),
-    provider: v.union(v.literal("openai"), v.literal("anthropic"), v.literal("google")),
+    provider: v.union(v.literal("openai"), v.literal("anthropic"), v.literal("google"), v.literal("local")),
     nickname: v.string(),
     last4: v.string(),
     encryptedKey: v.string(),
+    // Base URL for OpenAI-compatible servers (provider "local")
+    endpoint: v.optional(v.string()),
     status: v.union(v.literal("active"), v.literal("revoked")),
     // Security metadata
     createdBy: v.id("users"),
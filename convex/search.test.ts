@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getSearchBackend, withWebSearch } from "./search";
+import type { SearchResult } from "./search";
+
+const FIXTURES: SearchResult[] = [
+  { url: "https://example.com/a", title: "Baking bread", snippet: "Flour, water, salt and yeast." },
+  { url: "https://example.com/b", title: "Sourdough bread starter", snippet: "Feed the sourdough starter daily." },
+  { url: "https://example.com/c", title: "Bicycle repair", snippet: "Patch a tyre in five minutes." },
+  { url: "ftp://example.com/d", title: "Sourdough archive", snippet: "Old sourdough bread notes." },
+];
+
+function useFixtures(fixtures?: SearchResult[]) {
+  vi.stubEnv("SEARCH_BACKEND", "fixture");
+  if (fixtures) vi.stubEnv("SEARCH_FIXTURES", JSON.stringify(fixtures));
+}
+
+describe("fixture search backend", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("is selected with SEARCH_BACKEND", () => {
+    useFixtures();
+
+    expect(getSearchBackend()?.id).toBe("fixture");
+  });
+
+  it("ranks results by how many query words they mention, keeping fixture order on ties", async () => {
+    useFixtures(FIXTURES);
+
+    const results = await getSearchBackend()!.search("how to make sourdough bread", 3);
+
+    expect(results.map((result) => result.url)).toEqual([
+      "https://example.com/b",
+      "ftp://example.com/d",
+      "https://example.com/a",
+    ]);
+  });
+
+  it("answers from the built-in results without SEARCH_FIXTURES", async () => {
+    useFixtures();
+
+    const results = await getSearchBackend()!.search("react flow diagrams", 1);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].url).toBe("https://example.com/react-flow");
+  });
+
+  it("rejects an unknown backend", () => {
+    vi.stubEnv("SEARCH_BACKEND", "altavista");
+
+    expect(() => getSearchBackend()).toThrow("Search backend altavista not supported");
+  });
+});
+
+describe("withWebSearch", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("adds the numbered results just before the latest user turn and returns them as sources", async () => {
+    useFixtures(FIXTURES);
+    const messages = [
+      { role: "system" as const, content: "Be brief." },
+      { role: "user" as const, content: "Hello" },
+      { role: "assistant" as const, content: "Hi!" },
+      { role: "user" as const, content: "Tell me about sourdough   bread" },
+    ];
+
+    const { messages: searched, sources } = await withWebSearch(messages);
+
+    expect(searched).toHaveLength(5);
+    expect(searched[3].role).toBe("system");
+    expect(searched[3].content).toContain('Web search results for "Tell me about sourdough bread"');
+    expect(searched[3].content).toContain("[1] Sourdough bread starter\nhttps://example.com/b");
+    expect(searched[4]).toBe(messages[3]);
+    // Non-http results are dropped
+    expect(sources.map((source) => source.url)).toEqual([
+      "https://example.com/b",
+      "https://example.com/a",
+      "https://example.com/c",
+    ]);
+  });
+
+  it("leaves the conversation alone when search is unavailable", async () => {
+    vi.stubEnv("SEARCH_BACKEND", "");
+    vi.stubEnv("BRAVE_SEARCH_API_KEY", "");
+    const messages = [{ role: "user" as const, content: "Anything new?" }];
+
+    expect(await withWebSearch(messages)).toEqual({ messages, sources: [] });
+  });
+});
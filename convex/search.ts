@@ -0,0 +1,184 @@
+import type { ChatMessage } from "./providers";
+
+/**
+ * Web search pipeline: a pluggable search backend whose results are given to
+ * the model as numbered sources and stored on the response node for citation.
+ *
+ * The backend is chosen with SEARCH_BACKEND ("brave" or "fixture"); without
+ * it, Brave is used when BRAVE_SEARCH_API_KEY is set and search is otherwise
+ * unavailable. The fixture backend answers from local data, for tests.
+ */
+
+export type SearchResult = {
+  url: string;
+  title: string;
+  snippet: string;
+};
+
+export type Source = {
+  url: string;
+  title: string;
+  at: number;
+};
+
+export interface SearchBackend {
+  id: string;
+  search: (query: string, limit: number) => Promise<SearchResult[]>;
+}
+
+const MAX_RESULTS = 5;
+const MAX_QUERY_LENGTH = 300;
+const MAX_SNIPPET_LENGTH = 400;
+
+const BRAVE_SEARCH_URL = "https://api.search.brave.com/res/v1/web/search";
+
+const brave: SearchBackend = {
+  id: "brave",
+  search: async (query, limit) => {
+    const apiKey = process.env.BRAVE_SEARCH_API_KEY;
+    if (!apiKey) {
+      throw new Error("BRAVE_SEARCH_API_KEY is not configured");
+    }
+
+    const url = `${BRAVE_SEARCH_URL}?q=${encodeURIComponent(query)}&count=${limit}`;
+    const response = await fetch(url, {
+      headers: {
+        "Accept": "application/json",
+        "X-Subscription-Token": apiKey,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Search error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return (data.web?.results ?? []).map((result: any) => ({
+      url: String(result.url ?? ""),
+      title: String(result.title ?? result.url ?? ""),
+      snippet: String(result.description ?? ""),
+    }));
+  },
+};
+
+const DEFAULT_FIXTURES: SearchResult[] = [
+  {
+    url: "https://example.com/convex-actions",
+    title: "Actions | Convex Developer Hub",
+    snippet: "Actions can call third party services and run in the Node.js runtime. They are not transactional.",
+  },
+  {
+    url: "https://example.com/react-flow",
+    title: "React Flow - Customizable library for node-based UIs",
+    snippet: "A highly customizable React component for building node-based editors and interactive diagrams.",
+  },
+  {
+    url: "https://example.com/web-search",
+    title: "How web search works",
+    snippet: "Search engines crawl, index and rank pages so that queries return the most relevant results.",
+  },
+];
+
+// Deterministic results from SEARCH_FIXTURES (a JSON array of results) or the
+// built-in set, ranked by how many query words each result mentions
+const fixture: SearchBackend = {
+  id: "fixture",
+  search: async (query, limit) => {
+    const fixtures: SearchResult[] = process.env.SEARCH_FIXTURES
+      ? JSON.parse(process.env.SEARCH_FIXTURES)
+      : DEFAULT_FIXTURES;
+
+    const words = query.toLowerCase().split(/\W+/).filter((word) => word.length > 2);
+    const scored = fixtures.map((result, index) => {
+      const text = `${result.title} ${result.snippet}`.toLowerCase();
+      return { result, index, score: words.filter((word) => text.includes(word)).length };
+    });
+
+    return scored
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, limit)
+      .map(({ result }) => result);
+  },
+};
+
+const BACKENDS: Record<string, SearchBackend> = { brave, fixture };
+
+/**
+ * The configured search backend, or null when web search is unavailable
+ */
+export function getSearchBackend(): SearchBackend | null {
+  const configured = process.env.SEARCH_BACKEND;
+  if (configured) {
+    const backend = BACKENDS[configured];
+    if (!backend) {
+      throw new Error(`Search backend ${configured} not supported`);
+    }
+    return backend;
+  }
+  return process.env.BRAVE_SEARCH_API_KEY ? brave : null;
+}
+
+/**
+ * Search query for a conversation: the latest user turn, flattened
+ */
+export function buildSearchQuery(messages: ChatMessage[]): string {
+  const lastUserMessage = messages.filter((m) => m.role === "user").pop();
+  if (!lastUserMessage) return "";
+  return lastUserMessage.content.replace(/\s+/g, " ").trim().slice(0, MAX_QUERY_LENGTH);
+}
+
+/**
+ * Render results as the numbered source list the model cites from
+ */
+export function formatSearchResults(query: string, results: SearchResult[]): string {
+  const sections = results.map((result, index) => {
+    const snippet = result.snippet.length > MAX_SNIPPET_LENGTH
+      ? `${result.snippet.slice(0, MAX_SNIPPET_LENGTH)}...`
+      : result.snippet;
+    return `[${index + 1}] ${result.title}\n${result.url}\n${snippet}`;
+  });
+
+  return [
+    `Web search results for "${query}". Use them where relevant and cite them inline by number, e.g. [1]. Do not cite sources that are not listed here.`,
+    ...sections,
+  ].join("\n\n");
+}
+
+/**
+ * Search the web for the latest user turn and add the results to the
+ * conversation, just before that turn. Returns the messages unchanged (and
+ * no sources) when search is unavailable, finds nothing, or fails.
+ */
+export async function withWebSearch(
+  messages: ChatMessage[]
+): Promise<{ messages: ChatMessage[]; sources: Source[] }> {
+  const backend = getSearchBackend();
+  const query = buildSearchQuery(messages);
+  if (!backend || !query) {
+    return { messages, sources: [] };
+  }
+
+  let results: SearchResult[];
+  try {
+    results = (await backend.search(query, MAX_RESULTS))
+      .filter((result) => /^https?:\/\//i.test(result.url))
+      .slice(0, MAX_RESULTS);
+  } catch (error) {
+    // Security: Log error without sensitive data (the query is user content)
+    console.error(`Web search failed (${backend.id}):`, error instanceof Error ? error.message : "unknown error");
+    return { messages, sources: [] };
+  }
+
+  if (results.length === 0) {
+    return { messages, sources: [] };
+  }
+
+  const lastUserIndex = messages.map((m) => m.role).lastIndexOf("user");
+  const searchMessage: ChatMessage = { role: "system", content: formatSearchResults(query, results) };
+  const at = Date.now();
+
+  return {
+    messages: [...messages.slice(0, lastUserIndex), searchMessage, ...messages.slice(lastUserIndex)],
+    sources: results.map((result) => ({ url: result.url, title: result.title, at })),
+  };
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import { api } from "./_generated/api";
+import { diffGraphs } from "./snapshots";
+import type { SnapshotGraph } from "./snapshots";
+import { setupBoard } from "./test.helpers";
+
+// Plain strings stand in for document ids
+type SnapshotNode = SnapshotGraph["nodes"][number];
+type SnapshotEdge = SnapshotGraph["edges"][number];
+
+function node(id: string, fields: Record<string, unknown> = {}): SnapshotNode {
+  return {
+    id,
+    type: "note",
+    content: `Note ${id}`,
+    position: { x: 0, y: 0 },
+    collapsed: false,
+    meta: {},
+    tagIds: [],
+    createdBy: "user",
+    createdAt: 1,
+    updatedAt: 1,
+    ...fields,
+  } as unknown as SnapshotNode;
+}
+
+function edge(id: string, srcNodeId: string, dstNodeId: string, fields: Record<string, unknown> = {}): SnapshotEdge {
+  return { id, srcNodeId, dstNodeId, kind: "lineage", createdBy: "user", createdAt: 1, updatedAt: 1, ...fields } as unknown as SnapshotEdge;
+}
+
+function graph(nodes: SnapshotNode[], edges: SnapshotEdge[] = []): SnapshotGraph {
+  return { version: 1, nodes, edges };
+}
+
+describe("diffGraphs", () => {
+  it("reports added and removed nodes and edges", () => {
+    const from = graph([node("a"), node("b")], [edge("ab", "a", "b")]);
+    const to = graph([node("a"), node("c", { title: "New" })], [edge("ac", "a", "c")]);
+
+    const diff = diffGraphs(from, to);
+
+    expect(diff.nodes.added).toEqual([{ id: "c", type: "note", title: "New" }]);
+    expect(diff.nodes.removed).toEqual([{ id: "b", type: "note", title: "Note b" }]);
+    expect(diff.nodes.changed).toEqual([]);
+    expect(diff.edges.added).toEqual([{ id: "ac", srcNodeId: "a", dstNodeId: "c", kind: "lineage" }]);
+    expect(diff.edges.removed).toEqual([{ id: "ab", srcNodeId: "a", dstNodeId: "b", kind: "lineage" }]);
+  });
+
+  it("lists the fields that changed, ignoring timestamps and key order", () => {
+    const from = graph(
+      [node("a", { position: { x: 0, y: 0 }, meta: { model: "m", status: "stopped" } }), node("b")],
+      [edge("ab", "a", "b")],
+    );
+    const to = graph(
+      [
+        node("a", { position: { y: 0, x: 0 }, meta: { status: "stopped", model: "m" }, updatedAt: 2 }),
+        node("b", { content: "Edited", tagIds: ["t"], updatedAt: 2 }),
+      ],
+      [edge("ab", "a", "b", { label: "because", updatedAt: 2 })],
+    );
+
+    const diff = diffGraphs(from, to);
+
+    expect(diff.nodes.changed).toEqual([{ id: "b", type: "note", title: "Edited", fields: ["content", "tagIds"] }]);
+    expect(diff.edges.changed).toEqual([{ id: "ab", srcNodeId: "a", dstNodeId: "b", kind: "lineage", fields: ["label"] }]);
+  });
+
+  it("finds nothing between identical graphs", () => {
+    const nodes = [node("a"), node("b", { parentFrameId: "a" })];
+    const diff = diffGraphs(graph(nodes, [edge("ab", "a", "b")]), graph(nodes, [edge("ab", "a", "b")]));
+
+    expect(diff).toEqual({
+      nodes: { added: [], removed: [], changed: [] },
+      edges: { added: [], removed: [], changed: [] },
+    });
+  });
+});
+
+describe("restoreSnapshot", () => {
+  it("puts the board back as it was, keeping the ids of nodes that still exist", async () => {
+    const { t, user, userId, boardId } = await setupBoard();
+    const addNode = (content: string, x: number) =>
+      t.run(async (ctx) => await ctx.db.insert("nodes", {
+        boardId,
+        type: "note",
+        content,
+        position: { x, y: 0 },
+        collapsed: false,
+        meta: {},
+        createdBy: userId,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      }));
+    const kept = await addNode("Kept", 0);
+    const deleted = await addNode("Deleted", 300);
+    await t.run(async (ctx) => await ctx.db.insert("edges", {
+      boardId,
+      srcNodeId: kept,
+      dstNodeId: deleted,
+      kind: "lineage",
+      createdBy: userId,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    }));
+    const snapshotId = await user.mutation(api.snapshots.createSnapshot, { boardId, label: "Before" });
+
+    await t.run(async (ctx) => {
+      await ctx.db.patch(kept, { content: "Edited" });
+      for (const edge of await ctx.db.query("edges").collect()) await ctx.db.delete(edge._id);
+      await ctx.db.delete(deleted);
+    });
+    await addNode("Added later", 600);
+
+    const changes = await user.query(api.snapshots.diffSnapshots, { fromSnapshotId: snapshotId });
+    expect(changes.nodes.added.map((summary) => summary.title)).toEqual(["Added later"]);
+    expect(changes.nodes.removed.map((summary) => summary.id)).toEqual([deleted]);
+    expect(changes.nodes.changed).toEqual([{ id: kept, type: "note", title: "Edited", fields: ["content"] }]);
+
+    const result = await user.mutation(api.snapshots.restoreSnapshot, { snapshotId });
+    expect(result).toEqual({ nodes: 2, edges: 1, removedNodes: 1, skippedEdges: 0 });
+
+    const { nodes, edges } = await t.run(async (ctx) => ({
+      nodes: await ctx.db.query("nodes").collect(),
+      edges: await ctx.db.query("edges").collect(),
+    }));
+    expect(nodes.map((node) => node.content).sort()).toEqual(["Deleted", "Kept"]);
+    expect(nodes.find((node) => node.content === "Kept")?._id).toBe(kept);
+    const recreated = nodes.find((node) => node.content === "Deleted")!._id;
+    expect(edges.map((edge) => [edge.srcNodeId, edge.dstNodeId])).toEqual([[kept, recreated]]);
+  });
+});
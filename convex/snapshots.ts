@@ -0,0 +1,702 @@
+import { query, mutation, internalMutation } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { requireAuth } from "./security";
+import { MAX_LENGTHS, validateAndSanitizeText } from "./validation";
+import { deleteAttachmentFile, deleteAttachmentFiles } from "./attachments";
+import { deleteResponseVersions } from "./versions";
+import { cancelActiveJob } from "./jobs";
+
+/**
+ * Board snapshots: a board's nodes and edges saved as JSON, which can be
+ * listed, compared and restored. Restoring rewrites the board in place, so
+ * nodes and edges that still exist keep their ids (and their versions and
+ * tags); only ones deleted since the snapshot come back with new ids.
+ *
+ * Automatic snapshots are taken before destructive mutations (clearing a
+ * board, deleting a node, restoring) and hourly for boards that changed.
+ * Only automatic snapshots are pruned; manual ones are kept until deleted.
+ */
+
+const SNAPSHOT_FORMAT_VERSION = 1;
+
+// Stays under the Convex document size limit with room for the other fields
+const MAX_SNAPSHOT_BYTES = 900_000;
+
+// Retention of automatic snapshots: the newest few per board, up to a maximum age
+const MAX_AUTO_SNAPSHOTS_PER_BOARD = 20;
+const AUTO_SNAPSHOT_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+const PRUNE_BATCH_SIZE = 100;
+
+type SnapshotNode = {
+  id: Id<"nodes">;
+  type: Doc<"nodes">["type"];
+  role?: Doc<"nodes">["role"];
+  title?: string;
+  content: string;
+  position: Doc<"nodes">["position"];
+  size?: Doc<"nodes">["size"];
+  collapsed: boolean;
+  color?: string;
+  parentFrameId?: Id<"nodes">;
+  attachments?: Doc<"nodes">["attachments"];
+  meta: Doc<"nodes">["meta"];
+  tagIds: Id<"tags">[];
+  createdBy: Id<"users">;
+  createdAt: number;
+  updatedAt: number;
+};
+
+type SnapshotEdge = {
+  id: Id<"edges">;
+  srcNodeId: Id<"nodes">;
+  dstNodeId: Id<"nodes">;
+  kind: Doc<"edges">["kind"];
+  label?: string;
+  createdBy: Id<"users">;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type SnapshotGraph = {
+  version: number;
+  nodes: SnapshotNode[];
+  edges: SnapshotEdge[];
+};
+
+// Fields compared when diffing; ids, authorship and timestamps are not changes
+const NODE_DIFF_FIELDS = [
+  "type", "role", "title", "content", "position", "size", "collapsed",
+  "color", "parentFrameId", "attachments", "meta", "tagIds",
+] as const;
+const EDGE_DIFF_FIELDS = ["srcNodeId", "dstNodeId", "kind", "label"] as const;
+
+async function requireOwnedBoard(ctx: any, userId: Id<"users">, boardId: Id<"boards">): Promise<Doc<"boards">> {
+  const board = await ctx.db.get(boardId);
+  if (!board || board.ownerUserId !== userId) {
+    throw new Error("Board not found or access denied");
+  }
+  return board;
+}
+
+async function getOwnedSnapshot(ctx: any, userId: Id<"users">, snapshotId: Id<"snapshots">): Promise<Doc<"snapshots">> {
+  const snapshot = await ctx.db.get(snapshotId);
+  if (!snapshot) {
+    throw new Error("Snapshot not found");
+  }
+  await requireOwnedBoard(ctx, userId, snapshot.boardId);
+  return snapshot;
+}
+
+async function listBoardNodes(ctx: any, boardId: Id<"boards">): Promise<Doc<"nodes">[]> {
+  return await ctx.db
+    .query("nodes")
+    .withIndex("by_board", (q: any) => q.eq("boardId", boardId))
+    .collect();
+}
+
+async function listBoardEdges(ctx: any, boardId: Id<"boards">): Promise<Doc<"edges">[]> {
+  return await ctx.db
+    .query("edges")
+    .withIndex("by_board", (q: any) => q.eq("boardId", boardId))
+    .collect();
+}
+
+async function listNodeTags(ctx: any, nodeId: Id<"nodes">): Promise<Doc<"nodeTags">[]> {
+  return await ctx.db
+    .query("nodeTags")
+    .withIndex("by_node", (q: any) => q.eq("nodeId", nodeId))
+    .collect();
+}
+
+/**
+ * A board's current nodes and edges in snapshot form
+ */
+export async function captureGraph(ctx: any, boardId: Id<"boards">): Promise<SnapshotGraph> {
+  const nodes: SnapshotNode[] = [];
+  for (const node of await listBoardNodes(ctx, boardId)) {
+    nodes.push({
+      id: node._id,
+      type: node.type,
+      role: node.role,
+      title: node.title,
+      content: node.content,
+      position: node.position,
+      size: node.size,
+      collapsed: node.collapsed,
+      color: node.color,
+      parentFrameId: node.parentFrameId,
+      attachments: node.attachments,
+      meta: node.meta,
+      tagIds: (await listNodeTags(ctx, node._id)).map((nodeTag) => nodeTag.tagId),
+      createdBy: node.createdBy,
+      createdAt: node.createdAt,
+      updatedAt: node.updatedAt,
+    });
+  }
+
+  const edges: SnapshotEdge[] = (await listBoardEdges(ctx, boardId)).map((edge) => ({
+    id: edge._id,
+    srcNodeId: edge.srcNodeId,
+    dstNodeId: edge.dstNodeId,
+    kind: edge.kind,
+    label: edge.label,
+    createdBy: edge.createdBy,
+    createdAt: edge.createdAt,
+    updatedAt: edge.updatedAt,
+  }));
+
+  return { version: SNAPSHOT_FORMAT_VERSION, nodes, edges };
+}
+
+function parseGraph(snapshot: Doc<"snapshots">): SnapshotGraph {
+  let graph: SnapshotGraph;
+  try {
+    graph = JSON.parse(snapshot.graphJson);
+  } catch {
+    throw new Error("Snapshot is corrupted");
+  }
+  if (graph?.version !== SNAPSHOT_FORMAT_VERSION || !Array.isArray(graph.nodes) || !Array.isArray(graph.edges)) {
+    throw new Error("Unsupported snapshot format");
+  }
+  return graph;
+}
+
+async function latestSnapshot(ctx: any, boardId: Id<"boards">): Promise<Doc<"snapshots"> | null> {
+  return await ctx.db
+    .query("snapshots")
+    .withIndex("by_board", (q: any) => q.eq("boardId", boardId))
+    .order("desc")
+    .first();
+}
+
+async function saveSnapshot(
+  ctx: any,
+  userId: Id<"users">,
+  boardId: Id<"boards">,
+  label: string,
+  kind: "manual" | "auto",
+  graph: SnapshotGraph,
+  graphJson: string
+): Promise<Id<"snapshots">> {
+  const snapshotId = await ctx.db.insert("snapshots", {
+    boardId,
+    label,
+    graphJson,
+    nodeCount: graph.nodes.length,
+    edgeCount: graph.edges.length,
+    kind,
+    createdBy: userId,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  });
+
+  // Keep attachment files alive for as long as the snapshot refers to them
+  for (const node of graph.nodes) {
+    for (const attachment of node.attachments ?? []) {
+      await ctx.db.insert("snapshotFiles", { snapshotId, boardId, storageId: attachment.storageId });
+    }
+  }
+
+  return snapshotId;
+}
+
+/**
+ * Save a board's current graph as a snapshot
+ */
+export async function createBoardSnapshot(
+  ctx: any,
+  userId: Id<"users">,
+  boardId: Id<"boards">,
+  label: string
+): Promise<Id<"snapshots">> {
+  const graph = await captureGraph(ctx, boardId);
+  const graphJson = JSON.stringify(graph);
+  if (graphJson.length > MAX_SNAPSHOT_BYTES) {
+    throw new Error("Board is too large to snapshot");
+  }
+  return await saveSnapshot(ctx, userId, boardId, label, "manual", graph, graphJson);
+}
+
+export type AutoSnapshotResult =
+  | { snapshotId: Id<"snapshots"> }
+  | { snapshotId: null; skipped: "empty" | "tooLarge" };
+
+/**
+ * Snapshot a board automatically, e.g. before a destructive change so it
+ * can be undone. Never blocks the change: an empty board is skipped, an
+ * unchanged one reuses its latest snapshot, and one too large is skipped,
+ * with the reason returned. `keepSnapshotId` is protected from the pruning
+ * that follows.
+ */
+export async function takeAutoSnapshot(
+  ctx: any,
+  userId: Id<"users">,
+  boardId: Id<"boards">,
+  label: string,
+  keepSnapshotId?: Id<"snapshots">
+): Promise<AutoSnapshotResult> {
+  const graph = await captureGraph(ctx, boardId);
+  if (graph.nodes.length === 0) {
+    return { snapshotId: null, skipped: "empty" };
+  }
+
+  const graphJson = JSON.stringify(graph);
+  const latest = await latestSnapshot(ctx, boardId);
+  if (latest && latest.graphJson === graphJson) {
+    return { snapshotId: latest._id };
+  }
+  if (graphJson.length > MAX_SNAPSHOT_BYTES) {
+    return { snapshotId: null, skipped: "tooLarge" };
+  }
+
+  const snapshotId = await saveSnapshot(ctx, userId, boardId, label, "auto", graph, graphJson);
+  await pruneAutoSnapshots(ctx, boardId, keepSnapshotId);
+  return { snapshotId };
+}
+
+// Apply retention to a board's automatic snapshots
+async function pruneAutoSnapshots(ctx: any, boardId: Id<"boards">, keepSnapshotId?: Id<"snapshots">): Promise<void> {
+  const autoSnapshots: Doc<"snapshots">[] = await ctx.db
+    .query("snapshots")
+    .withIndex("by_board_kind", (q: any) => q.eq("boardId", boardId).eq("kind", "auto"))
+    .order("desc")
+    .collect();
+
+  const cutoff = Date.now() - AUTO_SNAPSHOT_MAX_AGE_MS;
+  for (const [index, snapshot] of autoSnapshots.entries()) {
+    if (snapshot._id === keepSnapshotId) continue;
+    if (index >= MAX_AUTO_SNAPSHOTS_PER_BOARD || snapshot.createdAt < cutoff) {
+      await deleteSnapshotRecord(ctx, snapshot);
+    }
+  }
+}
+
+/**
+ * Delete a snapshot, along with attachment files nothing else refers to
+ */
+export async function deleteSnapshotRecord(ctx: any, snapshot: Doc<"snapshots">): Promise<void> {
+  const files: Doc<"snapshotFiles">[] = await ctx.db
+    .query("snapshotFiles")
+    .withIndex("by_snapshot", (q: any) => q.eq("snapshotId", snapshot._id))
+    .collect();
+
+  if (files.length > 0) {
+    for (const file of files) {
+      await ctx.db.delete(file._id);
+    }
+
+    const liveFiles = new Set<string>();
+    for (const node of await listBoardNodes(ctx, snapshot.boardId)) {
+      for (const attachment of node.attachments ?? []) {
+        liveFiles.add(attachment.storageId);
+      }
+    }
+    for (const storageId of new Set(files.map((file) => file.storageId))) {
+      if (!liveFiles.has(storageId)) {
+        await deleteAttachmentFile(ctx, storageId);
+      }
+    }
+  }
+
+  await ctx.db.delete(snapshot._id);
+}
+
+/**
+ * Delete every snapshot of a board; call before deleting the board's nodes
+ */
+export async function deleteBoardSnapshots(ctx: any, boardId: Id<"boards">): Promise<void> {
+  const snapshots: Doc<"snapshots">[] = await ctx.db
+    .query("snapshots")
+    .withIndex("by_board", (q: any) => q.eq("boardId", boardId))
+    .collect();
+
+  for (const snapshot of snapshots) {
+    await deleteSnapshotRecord(ctx, snapshot);
+  }
+}
+
+// JSON with object keys sorted, so equal values always compare equal
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function changedFields<T extends Record<string, any>>(before: T, after: T, fields: readonly (keyof T & string)[]): string[] {
+  return fields.filter((field) => stableStringify(before[field]) !== stableStringify(after[field]));
+}
+
+function nodeSummary(node: SnapshotNode) {
+  return {
+    id: node.id,
+    type: node.type,
+    title: node.title || node.content.slice(0, 60),
+  };
+}
+
+function edgeSummary(edge: SnapshotEdge) {
+  return {
+    id: edge.id,
+    srcNodeId: edge.srcNodeId,
+    dstNodeId: edge.dstNodeId,
+    kind: edge.kind,
+  };
+}
+
+/**
+ * Structural differences from one graph to another, matched by id
+ */
+export function diffGraphs(from: SnapshotGraph, to: SnapshotGraph) {
+  const fromNodes = new Map(from.nodes.map((node) => [node.id, node]));
+  const toNodes = new Map(to.nodes.map((node) => [node.id, node]));
+  const fromEdges = new Map(from.edges.map((edge) => [edge.id, edge]));
+  const toEdges = new Map(to.edges.map((edge) => [edge.id, edge]));
+
+  return {
+    nodes: {
+      added: to.nodes.filter((node) => !fromNodes.has(node.id)).map(nodeSummary),
+      removed: from.nodes.filter((node) => !toNodes.has(node.id)).map(nodeSummary),
+      changed: to.nodes.flatMap((node) => {
+        const before = fromNodes.get(node.id);
+        const fields = before ? changedFields(before, node, NODE_DIFF_FIELDS) : [];
+        return fields.length > 0 ? [{ ...nodeSummary(node), fields }] : [];
+      }),
+    },
+    edges: {
+      added: to.edges.filter((edge) => !fromEdges.has(edge.id)).map(edgeSummary),
+      removed: from.edges.filter((edge) => !toEdges.has(edge.id)).map(edgeSummary),
+      changed: to.edges.flatMap((edge) => {
+        const before = fromEdges.get(edge.id);
+        const fields = before ? changedFields(before, edge, EDGE_DIFF_FIELDS) : [];
+        return fields.length > 0 ? [{ ...edgeSummary(edge), fields }] : [];
+      }),
+    },
+  };
+}
+
+export const listSnapshots = query({
+  args: { boardId: v.id("boards") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    await requireOwnedBoard(ctx, userId, args.boardId);
+
+    const snapshots = await ctx.db
+      .query("snapshots")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .order("desc")
+      .collect();
+
+    // Newest first, without the (large) graph itself
+    return snapshots.map((snapshot) => ({
+      _id: snapshot._id,
+      label: snapshot.label,
+      nodeCount: snapshot.nodeCount ?? 0,
+      edgeCount: snapshot.edgeCount ?? 0,
+      kind: snapshot.kind ?? "manual",
+      createdBy: snapshot.createdBy,
+      createdAt: snapshot.createdAt,
+    }));
+  },
+});
+
+export const createSnapshot = mutation({
+  args: {
+    boardId: v.id("boards"),
+    label: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<Id<"snapshots">> => {
+    const userId = await requireAuth(ctx);
+    await requireOwnedBoard(ctx, userId, args.boardId);
+
+    // Validate and sanitize inputs
+    const label = validateAndSanitizeText(args.label ?? "", MAX_LENGTHS.SNAPSHOT_LABEL) ||
+      `Snapshot ${new Date().toISOString().slice(0, 16).replace("T", " ")}`;
+
+    return await createBoardSnapshot(ctx, userId, args.boardId, label);
+  },
+});
+
+export const renameSnapshot = mutation({
+  args: {
+    snapshotId: v.id("snapshots"),
+    label: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    await getOwnedSnapshot(ctx, userId, args.snapshotId);
+
+    // Validate and sanitize inputs
+    const label = validateAndSanitizeText(args.label, MAX_LENGTHS.SNAPSHOT_LABEL);
+    if (label.length === 0) {
+      throw new Error("Snapshot label cannot be empty");
+    }
+
+    await ctx.db.patch(args.snapshotId, { label, updatedAt: Date.now() });
+  },
+});
+
+export const deleteSnapshot = mutation({
+  args: { snapshotId: v.id("snapshots") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const snapshot = await getOwnedSnapshot(ctx, userId, args.snapshotId);
+    await deleteSnapshotRecord(ctx, snapshot);
+  },
+});
+
+/**
+ * Compare two snapshots of a board, or a snapshot with the board as it is now
+ */
+export const diffSnapshots = query({
+  args: {
+    fromSnapshotId: v.id("snapshots"),
+    // Omit to compare with the current board
+    toSnapshotId: v.optional(v.id("snapshots")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const from = await getOwnedSnapshot(ctx, userId, args.fromSnapshotId);
+
+    let to: SnapshotGraph;
+    if (args.toSnapshotId) {
+      const snapshot = await getOwnedSnapshot(ctx, userId, args.toSnapshotId);
+      if (snapshot.boardId !== from.boardId) {
+        throw new Error("Snapshots belong to different boards");
+      }
+      to = parseGraph(snapshot);
+    } else {
+      to = await captureGraph(ctx, from.boardId);
+    }
+
+    return diffGraphs(parseGraph(from), to);
+  },
+});
+
+/**
+ * Replace the board's nodes and edges with a snapshot's. Runs as a single
+ * mutation, so the board is never seen half restored.
+ */
+export const restoreSnapshot = mutation({
+  args: { snapshotId: v.id("snapshots") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const snapshot = await getOwnedSnapshot(ctx, userId, args.snapshotId);
+    const boardId = snapshot.boardId;
+    const graph = parseGraph(snapshot);
+
+    // The board as it was, so the restore itself can be undone
+    await takeAutoSnapshot(ctx, userId, boardId, `Before restoring "${snapshot.label}"`, snapshot._id);
+
+    const currentNodes = await listBoardNodes(ctx, boardId);
+    const currentEdges = await listBoardEdges(ctx, boardId);
+    const snapshotNodeIds = new Set<string>(graph.nodes.map((node) => node.id));
+    const snapshotEdgeIds = new Set<string>(graph.edges.map((edge) => edge.id));
+
+    // Stop generations first so they don't write into restored nodes
+    for (const node of currentNodes) {
+      if (node.meta.status === "generating") {
+        await cancelActiveJob(ctx, node._id);
+      }
+    }
+
+    for (const edge of currentEdges) {
+      if (!snapshotEdgeIds.has(edge._id)) {
+        await ctx.db.delete(edge._id);
+      }
+    }
+
+    const removedNodes = currentNodes.filter((node) => !snapshotNodeIds.has(node._id));
+    await deleteAttachmentFiles(ctx, removedNodes);
+    for (const node of removedNodes) {
+      await deleteResponseVersions(ctx, node._id);
+      for (const nodeTag of await listNodeTags(ctx, node._id)) {
+        await ctx.db.delete(nodeTag._id);
+      }
+      await ctx.db.delete(node._id);
+    }
+
+    // Snapshot node id -> id on the board (new for nodes deleted since)
+    const currentById = new Map<string, Doc<"nodes">>(currentNodes.map((node) => [node._id, node]));
+    const nodeIds = new Map<string, Id<"nodes">>();
+    const boardTags = new Set<string>(
+      (await ctx.db.query("tags").withIndex("by_board", (q) => q.eq("boardId", boardId)).collect()).map((tag) => tag._id)
+    );
+
+    for (const node of graph.nodes) {
+      const current = currentById.get(node.id);
+
+      // Versions don't outlive their node, so a recreated node starts without one
+      let currentVersionId = node.meta.currentVersionId;
+      if (currentVersionId) {
+        const version = current ? await ctx.db.get(currentVersionId) : null;
+        if (!version || version.nodeId !== node.id) {
+          currentVersionId = undefined;
+        }
+      }
+
+      const fields = {
+        boardId,
+        type: node.type,
+        role: node.role,
+        title: node.title,
+        content: node.content,
+        position: node.position,
+        size: node.size,
+        collapsed: node.collapsed,
+        color: node.color,
+        attachments: node.attachments,
+        // A snapshot taken mid-generation restores as stopped
+        meta: {
+          ...node.meta,
+          currentVersionId,
+          status: node.meta.status === "generating" ? ("stopped" as const) : node.meta.status,
+        },
+        createdBy: node.createdBy,
+        createdAt: node.createdAt,
+        updatedAt: Date.now(),
+      };
+
+      if (current) {
+        const keptFiles = new Set<string>((node.attachments ?? []).map((attachment) => attachment.storageId));
+        for (const attachment of current.attachments ?? []) {
+          if (!keptFiles.has(attachment.storageId)) {
+            await deleteAttachmentFile(ctx, attachment.storageId);
+          }
+        }
+        await ctx.db.replace(current._id, fields);
+        nodeIds.set(node.id, current._id);
+      } else {
+        nodeIds.set(node.id, await ctx.db.insert("nodes", fields));
+      }
+
+      // Bring back tag assignments for tags that still exist
+      const liveNodeId = nodeIds.get(node.id)!;
+      const wantedTags = new Set<string>(node.tagIds.filter((tagId) => boardTags.has(tagId)));
+      for (const nodeTag of await listNodeTags(ctx, liveNodeId)) {
+        if (wantedTags.has(nodeTag.tagId)) {
+          wantedTags.delete(nodeTag.tagId);
+        } else {
+          await ctx.db.delete(nodeTag._id);
+        }
+      }
+      for (const tagId of wantedTags) {
+        await ctx.db.insert("nodeTags", {
+          nodeId: liveNodeId,
+          tagId: tagId as Id<"tags">,
+          createdBy: userId,
+          createdAt: Date.now(),
+        });
+      }
+    }
+
+    // Frame membership once every node has its id
+    for (const node of graph.nodes) {
+      const parentFrameId = node.parentFrameId ? nodeIds.get(node.parentFrameId) : undefined;
+      if (parentFrameId) {
+        await ctx.db.patch(nodeIds.get(node.id)!, { parentFrameId });
+      }
+    }
+
+    const currentEdgeIds = new Set<string>(currentEdges.map((edge) => edge._id));
+    let skippedEdges = 0;
+    for (const edge of graph.edges) {
+      const srcNodeId = nodeIds.get(edge.srcNodeId);
+      const dstNodeId = nodeIds.get(edge.dstNodeId);
+      if (!srcNodeId || !dstNodeId) {
+        skippedEdges++;
+        continue;
+      }
+
+      const fields = {
+        boardId,
+        srcNodeId,
+        dstNodeId,
+        kind: edge.kind,
+        label: edge.label,
+        createdBy: edge.createdBy,
+        createdAt: edge.createdAt,
+        updatedAt: Date.now(),
+      };
+      if (currentEdgeIds.has(edge.id)) {
+        await ctx.db.replace(edge.id, fields);
+      } else {
+        await ctx.db.insert("edges", fields);
+      }
+    }
+
+    await ctx.db.patch(boardId, { updatedAt: Date.now() });
+
+    return {
+      nodes: graph.nodes.length,
+      edges: graph.edges.length - skippedEdges,
+      removedNodes: removedNodes.length,
+      skippedEdges,
+    };
+  },
+});
+
+/**
+ * Hourly: snapshot every board that changed since its latest snapshot.
+ * Each board is handled in its own mutation.
+ */
+export const snapshotActiveBoards = internalMutation({
+  args: {},
+  handler: async (ctx): Promise<number> => {
+    const boards = await ctx.db.query("boards").collect();
+    for (const board of boards) {
+      await ctx.scheduler.runAfter(0, internal.snapshots.snapshotBoardIfChanged, { boardId: board._id });
+    }
+    return boards.length;
+  },
+});
+
+export const snapshotBoardIfChanged = internalMutation({
+  args: { boardId: v.id("boards") },
+  handler: async (ctx, args): Promise<void> => {
+    const board = await ctx.db.get(args.boardId);
+    if (!board) return;
+
+    const nodes = await listBoardNodes(ctx, args.boardId);
+    const edges = await listBoardEdges(ctx, args.boardId);
+    const latest = await latestSnapshot(ctx, args.boardId);
+
+    // Counts catch deletions, timestamps catch edits and additions
+    const changed = !latest ||
+      nodes.length !== latest.nodeCount ||
+      edges.length !== latest.edgeCount ||
+      nodes.some((node) => node.updatedAt > latest.createdAt) ||
+      edges.some((edge) => edge.updatedAt > latest.createdAt);
+    if (changed) {
+      await takeAutoSnapshot(ctx, board.ownerUserId, args.boardId, "Periodic snapshot");
+    }
+  },
+});
+
+/**
+ * Daily: delete automatic snapshots past their maximum age, in batches
+ */
+export const pruneExpiredSnapshots = internalMutation({
+  args: {},
+  handler: async (ctx): Promise<void> => {
+    const expired = await ctx.db
+      .query("snapshots")
+      .withIndex("by_kind_created", (q) => q.eq("kind", "auto").lt("createdAt", Date.now() - AUTO_SNAPSHOT_MAX_AGE_MS))
+      .take(PRUNE_BATCH_SIZE);
+
+    for (const snapshot of expired) {
+      await deleteSnapshotRecord(ctx, snapshot);
+    }
+    if (expired.length === PRUNE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.snapshots.pruneExpiredSnapshots, {});
+    }
+  },
+});
@@ -0,0 +1,239 @@
+import { query, mutation } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { requireAuth } from "./security";
+import { MAX_LENGTHS, validateAndSanitizeText, validateNodeColor } from "./validation";
+
+/**
+ * Tags: named, colored labels kept per board and assigned to nodes
+ * (through nodeTags), used to mark nodes and filter the canvas.
+ */
+
+export const MAX_TAGS_PER_BOARD = 100;
+
+async function requireOwnedBoard(ctx: any, userId: Id<"users">, boardId: Id<"boards">): Promise<Doc<"boards">> {
+  const board = await ctx.db.get(boardId);
+  if (!board || board.ownerUserId !== userId) {
+    throw new Error("Board not found or access denied");
+  }
+  return board;
+}
+
+// Tags are readable wherever the board's nodes are: by the owner, or anyone on a public board
+async function requireReadableBoard(ctx: any, userId: Id<"users">, boardId: Id<"boards">): Promise<Doc<"boards">> {
+  const board = await ctx.db.get(boardId);
+  if (!board) {
+    throw new Error("Board not found");
+  }
+  if (board.ownerUserId !== userId && !board.isPublic) {
+    throw new Error("Access denied");
+  }
+  return board;
+}
+
+async function getOwnedTag(ctx: any, userId: Id<"users">, tagId: Id<"tags">): Promise<Doc<"tags">> {
+  const tag = await ctx.db.get(tagId);
+  if (!tag) {
+    throw new Error("Tag not found");
+  }
+  await requireOwnedBoard(ctx, userId, tag.boardId);
+  return tag;
+}
+
+async function listBoardTags(ctx: any, boardId: Id<"boards">): Promise<Doc<"tags">[]> {
+  return await ctx.db
+    .query("tags")
+    .withIndex("by_board", (q: any) => q.eq("boardId", boardId))
+    .collect();
+}
+
+// Tag names are unique on a board, ignoring case
+async function validateTagName(ctx: any, boardId: Id<"boards">, name: string, tagId?: Id<"tags">): Promise<string> {
+  const sanitized = validateAndSanitizeText(name, MAX_LENGTHS.TAG_NAME);
+  if (sanitized.length === 0) {
+    throw new Error("Tag name cannot be empty");
+  }
+
+  const existing = await listBoardTags(ctx, boardId);
+  if (existing.some((tag) => tag._id !== tagId && tag.name.toLowerCase() === sanitized.toLowerCase())) {
+    throw new Error(`A tag named "${sanitized}" already exists`);
+  }
+  return sanitized;
+}
+
+/**
+ * Remove a node's tag assignments, e.g. when the node is deleted
+ */
+export async function deleteNodeTags(ctx: any, nodeId: Id<"nodes">): Promise<void> {
+  const nodeTags = await ctx.db
+    .query("nodeTags")
+    .withIndex("by_node", (q: any) => q.eq("nodeId", nodeId))
+    .collect();
+
+  for (const nodeTag of nodeTags) {
+    await ctx.db.delete(nodeTag._id);
+  }
+}
+
+export const listTags = query({
+  args: { boardId: v.id("boards") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    await requireReadableBoard(ctx, userId, args.boardId);
+
+    const tags = await listBoardTags(ctx, args.boardId);
+    return tags.sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+/**
+ * Every tag assignment on a board, for chips and filtering on the canvas
+ */
+export const listBoardNodeTags = query({
+  args: { boardId: v.id("boards") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    await requireReadableBoard(ctx, userId, args.boardId);
+
+    const assignments: { nodeId: Id<"nodes">; tagId: Id<"tags"> }[] = [];
+    for (const tag of await listBoardTags(ctx, args.boardId)) {
+      const nodeTags = await ctx.db
+        .query("nodeTags")
+        .withIndex("by_tag", (q) => q.eq("tagId", tag._id))
+        .collect();
+      for (const nodeTag of nodeTags) {
+        assignments.push({ nodeId: nodeTag.nodeId, tagId: nodeTag.tagId });
+      }
+    }
+    return assignments;
+  },
+});
+
+export const createTag = mutation({
+  args: {
+    boardId: v.id("boards"),
+    name: v.string(),
+    color: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<Id<"tags">> => {
+    const userId = await requireAuth(ctx);
+    await requireOwnedBoard(ctx, userId, args.boardId);
+
+    if ((await listBoardTags(ctx, args.boardId)).length >= MAX_TAGS_PER_BOARD) {
+      throw new Error(`A board can have at most ${MAX_TAGS_PER_BOARD} tags`);
+    }
+
+    // Validate and sanitize inputs
+    const name = await validateTagName(ctx, args.boardId, args.name);
+    const color = validateNodeColor(args.color ?? "blue");
+
+    return await ctx.db.insert("tags", {
+      boardId: args.boardId,
+      name,
+      color,
+      createdBy: userId,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+export const renameTag = mutation({
+  args: {
+    tagId: v.id("tags"),
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const tag = await getOwnedTag(ctx, userId, args.tagId);
+
+    // Validate and sanitize inputs
+    const name = await validateTagName(ctx, tag.boardId, args.name, tag._id);
+
+    await ctx.db.patch(args.tagId, { name, updatedAt: Date.now() });
+  },
+});
+
+export const recolorTag = mutation({
+  args: {
+    tagId: v.id("tags"),
+    color: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    await getOwnedTag(ctx, userId, args.tagId);
+
+    await ctx.db.patch(args.tagId, { color: validateNodeColor(args.color), updatedAt: Date.now() });
+  },
+});
+
+/**
+ * Delete a tag and remove it from every node
+ */
+export const deleteTag = mutation({
+  args: { tagId: v.id("tags") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    await getOwnedTag(ctx, userId, args.tagId);
+
+    const nodeTags = await ctx.db
+      .query("nodeTags")
+      .withIndex("by_tag", (q) => q.eq("tagId", args.tagId))
+      .collect();
+    for (const nodeTag of nodeTags) {
+      await ctx.db.delete(nodeTag._id);
+    }
+
+    await ctx.db.delete(args.tagId);
+  },
+});
+
+export const addTagToNode = mutation({
+  args: {
+    nodeId: v.id("nodes"),
+    tagId: v.id("tags"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const tag = await getOwnedTag(ctx, userId, args.tagId);
+
+    const node = await ctx.db.get(args.nodeId);
+    if (!node || node.boardId !== tag.boardId) {
+      throw new Error("Node not found");
+    }
+
+    const existing = await ctx.db
+      .query("nodeTags")
+      .withIndex("by_node", (q) => q.eq("nodeId", args.nodeId))
+      .collect();
+    if (existing.some((nodeTag) => nodeTag.tagId === args.tagId)) {
+      return;
+    }
+
+    await ctx.db.insert("nodeTags", {
+      nodeId: args.nodeId,
+      tagId: args.tagId,
+      createdBy: userId,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+export const removeTagFromNode = mutation({
+  args: {
+    nodeId: v.id("nodes"),
+    tagId: v.id("tags"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    await getOwnedTag(ctx, userId, args.tagId);
+
+    const nodeTags = await ctx.db
+      .query("nodeTags")
+      .withIndex("by_node", (q) => q.eq("nodeId", args.nodeId))
+      .collect();
+    for (const nodeTag of nodeTags.filter((nodeTag) => nodeTag.tagId === args.tagId)) {
+      await ctx.db.delete(nodeTag._id);
+    }
+  },
+});
@@ -0,0 +1,314 @@
+import { query, mutation } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { requireAuth } from "./security";
+import { MAX_LENGTHS, validateAndSanitizeText, validateNodeContent, validatePosition } from "./validation";
+import { resolveGenerationSettings, scheduleResponse } from "./nodes";
+import { findFrameAt } from "./frames";
+
+/**
+ * Prompt templates: reusable prompts with {{variable}} placeholders, kept
+ * per user or per board. A template can be filled in once to create a
+ * message node, or run across a list of inputs, one branch per input.
+ */
+
+const MAX_TEMPLATE_VARIABLES = 20;
+const MAX_RUN_INPUTS = 20;
+
+// Template runs stack one message per row, each with its response to the right
+const RUN_ROW_HEIGHT = 400;
+const RUN_BRANCH_OFFSET_Y = 300;
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z_][a-zA-Z0-9_-]*)\s*\}\}/g;
+
+/**
+ * Variable names used in a template, in order of first use
+ */
+export function extractVariables(content: string): string[] {
+  const names: string[] = [];
+  for (const match of content.matchAll(VARIABLE_PATTERN)) {
+    if (!names.includes(match[1])) {
+      names.push(match[1]);
+    }
+  }
+  return names;
+}
+
+/**
+ * Fill in a template's placeholders; every variable must have a value
+ */
+export function renderTemplate(content: string, values: Record<string, string>): string {
+  const missing = extractVariables(content).filter((name) => !Object.prototype.hasOwnProperty.call(values, name));
+  if (missing.length > 0) {
+    throw new Error(`Missing value for ${missing.map((name) => `{{${name}}}`).join(", ")}`);
+  }
+  return content.replace(VARIABLE_PATTERN, (_placeholder, name: string) => values[name]);
+}
+
+function validateTemplateName(name: string): string {
+  const sanitized = validateAndSanitizeText(name, MAX_LENGTHS.TEMPLATE_NAME);
+  if (sanitized.length === 0) {
+    throw new Error("Template name cannot be empty");
+  }
+  return sanitized;
+}
+
+function validateTemplateContent(content: string): { content: string; variables: string[] } {
+  const sanitized = validateNodeContent(content);
+  if (sanitized.length === 0) {
+    throw new Error("Template cannot be empty");
+  }
+
+  const variables = extractVariables(sanitized);
+  if (variables.length > MAX_TEMPLATE_VARIABLES) {
+    throw new Error(`A template can have at most ${MAX_TEMPLATE_VARIABLES} variables`);
+  }
+  return { content: sanitized, variables };
+}
+
+async function requireOwnedBoard(ctx: any, userId: Id<"users">, boardId: Id<"boards">): Promise<Doc<"boards">> {
+  const board = await ctx.db.get(boardId);
+  if (!board || board.ownerUserId !== userId) {
+    throw new Error("Board not found or access denied");
+  }
+  return board;
+}
+
+// A template the user owns and may use on the board (their own, or the board's)
+async function getUsableTemplate(
+  ctx: any,
+  userId: Id<"users">,
+  templateId: Id<"promptTemplates">,
+  boardId: Id<"boards">
+): Promise<Doc<"promptTemplates">> {
+  const template = await ctx.db.get(templateId);
+  if (!template || template.ownerUserId !== userId || (template.boardId && template.boardId !== boardId)) {
+    throw new Error("Template not found");
+  }
+  return template;
+}
+
+/**
+ * Templates available on a board: the user's own, then the board's
+ */
+export const listTemplates = query({
+  args: { boardId: v.id("boards") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    await requireOwnedBoard(ctx, userId, args.boardId);
+
+    const userTemplates = (await ctx.db
+      .query("promptTemplates")
+      .withIndex("by_owner", (q) => q.eq("ownerUserId", userId))
+      .collect())
+      .filter((template) => !template.boardId);
+    const boardTemplates = await ctx.db
+      .query("promptTemplates")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+
+    const byName = (a: Doc<"promptTemplates">, b: Doc<"promptTemplates">) => a.name.localeCompare(b.name);
+    return [
+      ...userTemplates.sort(byName).map((template) => ({ ...template, scope: "user" as const })),
+      ...boardTemplates.sort(byName).map((template) => ({ ...template, scope: "board" as const })),
+    ];
+  },
+});
+
+export const createTemplate = mutation({
+  args: {
+    name: v.string(),
+    content: v.string(),
+    // Keep the template on this board only
+    boardId: v.optional(v.id("boards")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    if (args.boardId) {
+      await requireOwnedBoard(ctx, userId, args.boardId);
+    }
+
+    // Validate and sanitize inputs
+    const name = validateTemplateName(args.name);
+    const { content, variables } = validateTemplateContent(args.content);
+
+    return await ctx.db.insert("promptTemplates", {
+      ownerUserId: userId,
+      boardId: args.boardId,
+      name,
+      content,
+      variables,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+export const updateTemplate = mutation({
+  args: {
+    templateId: v.id("promptTemplates"),
+    name: v.optional(v.string()),
+    content: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+
+    const template = await ctx.db.get(args.templateId);
+    if (!template || template.ownerUserId !== userId) {
+      throw new Error("Template not found");
+    }
+
+    const updates: Partial<Doc<"promptTemplates">> = { updatedAt: Date.now() };
+    if (args.name !== undefined) updates.name = validateTemplateName(args.name);
+    if (args.content !== undefined) Object.assign(updates, validateTemplateContent(args.content));
+
+    await ctx.db.patch(args.templateId, updates);
+  },
+});
+
+export const deleteTemplate = mutation({
+  args: { templateId: v.id("promptTemplates") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+
+    const template = await ctx.db.get(args.templateId);
+    if (!template || template.ownerUserId !== userId) {
+      throw new Error("Template not found");
+    }
+
+    await ctx.db.delete(args.templateId);
+  },
+});
+
+/**
+ * Create a message node from a template with its variables filled in
+ */
+export const createMessageFromTemplate = mutation({
+  args: {
+    boardId: v.id("boards"),
+    templateId: v.id("promptTemplates"),
+    values: v.record(v.string(), v.string()),
+    position: v.object({
+      x: v.number(),
+      y: v.number(),
+    }),
+  },
+  handler: async (ctx, args): Promise<Id<"nodes">> => {
+    const userId = await requireAuth(ctx);
+    await requireOwnedBoard(ctx, userId, args.boardId);
+    const template = await getUsableTemplate(ctx, userId, args.templateId, args.boardId);
+
+    // Validate and sanitize inputs
+    const content = validateNodeContent(renderTemplate(template.content, args.values));
+    const position = validatePosition(args.position);
+    const frame = await findFrameAt(ctx, args.boardId, position);
+
+    return await ctx.db.insert("nodes", {
+      boardId: args.boardId,
+      type: "message",
+      role: "user",
+      title: template.name,
+      content,
+      position,
+      collapsed: false,
+      parentFrameId: frame?._id,
+      meta: {},
+      createdBy: userId,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Run a template once per input: each input fills `variable` (other
+ * variables come from `values`), becomes a message node and is answered
+ * straight away. With a parent node, every message branches from it.
+ */
+export const runTemplate = mutation({
+  args: {
+    boardId: v.id("boards"),
+    templateId: v.id("promptTemplates"),
+    variable: v.string(),
+    inputs: v.array(v.string()),
+    values: v.optional(v.record(v.string(), v.string())),
+    parentNodeId: v.optional(v.id("nodes")),
+    position: v.object({
+      x: v.number(),
+      y: v.number(),
+    }),
+  },
+  handler: async (ctx, args): Promise<Id<"nodes">[]> => {
+    const userId = await requireAuth(ctx);
+    const board = await requireOwnedBoard(ctx, userId, args.boardId);
+    const template = await getUsableTemplate(ctx, userId, args.templateId, args.boardId);
+
+    if (!template.variables.includes(args.variable)) {
+      throw new Error(`Template has no variable {{${args.variable}}}`);
+    }
+    const inputs = args.inputs.map((input) => input.trim()).filter((input) => input.length > 0);
+    if (inputs.length === 0) {
+      throw new Error("Enter at least one input");
+    }
+    if (inputs.length > MAX_RUN_INPUTS) {
+      throw new Error(`A template can be run for at most ${MAX_RUN_INPUTS} inputs at once`);
+    }
+
+    let origin = validatePosition(args.position);
+    if (args.parentNodeId) {
+      const parent = await ctx.db.get(args.parentNodeId);
+      if (!parent || parent.boardId !== args.boardId) {
+        throw new Error("Parent node not found");
+      }
+      origin = { x: parent.position.x, y: parent.position.y + RUN_BRANCH_OFFSET_Y };
+    }
+
+    // Render and validate every input before creating anything
+    const contents = inputs.map((input) =>
+      validateNodeContent(renderTemplate(template.content, { ...args.values, [args.variable]: input }))
+    );
+    const titles = inputs.map((input) =>
+      validateAndSanitizeText(`${template.name}: ${input.slice(0, 60)}`.slice(0, MAX_LENGTHS.NODE_TITLE), MAX_LENGTHS.NODE_TITLE)
+    );
+    const settings = await resolveGenerationSettings(ctx, board, {});
+
+    const messageNodeIds: Id<"nodes">[] = [];
+    for (const [row, content] of contents.entries()) {
+      // Rows landing inside a frame join it, as a single message from a template does
+      const position = validatePosition({ x: origin.x, y: origin.y + row * RUN_ROW_HEIGHT });
+      const frame = await findFrameAt(ctx, args.boardId, position);
+      const messageNodeId = await ctx.db.insert("nodes", {
+        boardId: args.boardId,
+        type: "message",
+        role: "user",
+        title: titles[row],
+        content,
+        position,
+        collapsed: false,
+        parentFrameId: frame?._id,
+        meta: {},
+        createdBy: userId,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      });
+
+      if (args.parentNodeId) {
+        await ctx.db.insert("edges", {
+          boardId: args.boardId,
+          srcNodeId: args.parentNodeId,
+          dstNodeId: messageNodeId,
+          kind: "lineage",
+          createdBy: userId,
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+        });
+      }
+
+      const messageNode = await ctx.db.get(messageNodeId);
+      await scheduleResponse(ctx, userId, messageNode!, settings);
+      messageNodeIds.push(messageNodeId);
+    }
+
+    return messageNodeIds;
+  },
+});
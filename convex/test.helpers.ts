@@ -0,0 +1,45 @@
+/// <reference types="vite/client" />
+import { convexTest } from "convex-test";
+import schema from "./schema";
+
+/**
+ * Shared test helpers. The name has more than one dot, so Convex doesn't
+ * deploy this file as functions (test files are skipped the same way).
+ */
+
+// Function modules for convex-test, without tests and helpers like this file
+const modules = import.meta.glob("./**/!(*.*.*)*.*s");
+
+/**
+ * A streamed response whose body arrives in the given chunks
+ */
+export function streamResponse(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+  return new Response(body, { status: 200, headers: { "Content-Type": "text/event-stream" } });
+}
+
+/**
+ * An in-memory backend with a signed-in user who owns one board
+ */
+export async function setupBoard() {
+  const t = convexTest(schema, modules);
+  const { userId, boardId } = await t.run(async (ctx) => {
+    const userId = await ctx.db.insert("users", {});
+    const boardId = await ctx.db.insert("boards", {
+      title: "Board",
+      ownerUserId: userId,
+      isPublic: false,
+      createdBy: userId,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+    return { userId, boardId };
+  });
+  return { t, user: t.withIdentity({ subject: `${userId}|session` }), userId, boardId };
+}
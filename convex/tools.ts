@@ -0,0 +1,429 @@
+import { internalQuery, internalMutation } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { validateAndSanitizeText, validateNodeContent } from "./validation";
+import type { ToolCall, ToolSpec } from "./providers";
+
+/**
+ * Tools that assistant responses can call while generating. Each call and
+ * its result are kept on the board as nodes hanging off the response.
+ */
+
+// Board the generation belongs to; tools never reach beyond it
+export type ToolScope = {
+  userId: Id<"users">;
+  boardId: Id<"boards">;
+  responseNodeId: Id<"nodes">;
+};
+
+export interface ToolDefinition extends ToolSpec {
+  run: (ctx: any, scope: ToolScope, args: Record<string, unknown>) => Promise<string>;
+}
+
+export const MAX_TOOL_ROUNDS = 5;
+const MAX_TOOL_OUTPUT_CHARS = 8000;
+const MAX_LISTED_NODES = 100;
+const NODE_PREVIEW_CHARS = 80;
+const MAX_NOTE_TITLE_LENGTH = 200;
+
+// Tool nodes are laid out in rows below their response: call, then result, then any note
+const TOOL_ROW_OFFSET_Y = 500;
+const TOOL_ROW_HEIGHT = 260;
+const TOOL_COLUMN_WIDTH = 420;
+
+function requireString(args: Record<string, unknown>, name: string): string {
+  const value = args[name];
+  if (typeof value !== "string" || value.trim().length === 0) {
+    throw new Error(`Missing required argument: ${name}`);
+  }
+  return value;
+}
+
+const listNodesTool: ToolDefinition = {
+  name: "list_nodes",
+  description: "List the nodes on the current board with their id, type, title and a short preview of their content.",
+  parameters: { type: "object", properties: {} },
+  run: async (ctx, scope) => {
+    const nodes: Array<{ id: string; type: string; title?: string; preview: string }> =
+      await ctx.runQuery(internal.tools.listBoardNodes, { boardId: scope.boardId });
+    if (nodes.length === 0) return "The board has no nodes.";
+    return nodes
+      .map((node) => `${node.id} | ${node.type} | ${node.title || "(untitled)"} | ${node.preview}`)
+      .join("\n");
+  },
+};
+
+const readNodeTool: ToolDefinition = {
+  name: "read_node",
+  description: "Read the full content of a node on the current board. Use list_nodes first to find node ids.",
+  parameters: {
+    type: "object",
+    properties: {
+      nodeId: { type: "string", description: "Id of the node to read" },
+    },
+    required: ["nodeId"],
+  },
+  run: async (ctx, scope, args) => {
+    const node: { type: string; title?: string; content: string } | null = await ctx.runQuery(
+      internal.tools.readBoardNode,
+      { boardId: scope.boardId, nodeId: requireString(args, "nodeId") }
+    );
+    if (!node) {
+      throw new Error("Node not found on this board");
+    }
+    return `${node.title ? `${node.title} ` : ""}(${node.type})\n\n${node.content}`;
+  },
+};
+
+const createNoteTool: ToolDefinition = {
+  name: "create_note",
+  description: "Create a note on the board as a child of this response, e.g. to save a summary, list or plan for later.",
+  parameters: {
+    type: "object",
+    properties: {
+      title: { type: "string", description: "Short title for the note" },
+      content: { type: "string", description: "Text of the note" },
+    },
+    required: ["content"],
+  },
+  run: async (ctx, scope, args) => {
+    const title = typeof args.title === "string" ? args.title : undefined;
+    const nodeId: Id<"nodes"> = await ctx.runMutation(internal.tools.createToolNote, {
+      ...scope,
+      title,
+      content: requireString(args, "content"),
+    });
+    return `Created note ${nodeId}`;
+  },
+};
+
+const computeTool: ToolDefinition = {
+  name: "compute",
+  description: "Evaluate an arithmetic expression exactly. Supports + - * / % ^, parentheses, pi, e and sqrt, abs, round, floor, ceil, min, max, log, ln, exp, sin, cos, tan.",
+  parameters: {
+    type: "object",
+    properties: {
+      expression: { type: "string", description: "Expression to evaluate, e.g. (1.5 + 2) * sqrt(16)" },
+    },
+    required: ["expression"],
+  },
+  run: async (_ctx, _scope, args) => String(evaluateExpression(requireString(args, "expression"))),
+};
+
+export const TOOLS: ToolDefinition[] = [listNodesTool, readNodeTool, createNoteTool, computeTool];
+
+/**
+ * Tool specs as offered to the model
+ */
+export function toolSpecs(): ToolSpec[] {
+  return TOOLS.map(({ name, description, parameters }) => ({ name, description, parameters }));
+}
+
+/**
+ * Run one tool call. Failures are returned to the model as the result rather
+ * than thrown, so it can correct itself.
+ */
+export async function executeToolCall(
+  ctx: any,
+  scope: ToolScope,
+  call: ToolCall
+): Promise<{ output: string; isError: boolean }> {
+  const tool = TOOLS.find((t) => t.name === call.name);
+  if (!tool) {
+    return { output: `Error: unknown tool ${call.name}`, isError: true };
+  }
+
+  try {
+    const output = await tool.run(ctx, scope, call.arguments);
+    return {
+      output: output.length > MAX_TOOL_OUTPUT_CHARS ? `${output.slice(0, MAX_TOOL_OUTPUT_CHARS)}\n[...truncated]` : output,
+      isError: false,
+    };
+  } catch (error) {
+    return { output: `Error: ${error instanceof Error ? error.message : String(error)}`, isError: true };
+  }
+}
+
+const FUNCTIONS: Record<string, (...values: number[]) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  min: Math.min,
+  max: Math.max,
+  log: Math.log10,
+  ln: Math.log,
+  exp: Math.exp,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+/**
+ * Evaluate an arithmetic expression with a small recursive-descent parser
+ * (model output is never passed to eval)
+ */
+export function evaluateExpression(expression: string): number {
+  const tokens = expression.match(/\d+(?:\.\d+)?(?:e[+-]?\d+)?|\.\d+|[a-z]+|[-+*/%^(),]|\S/gi) ?? [];
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`Expected "${token}"`);
+  };
+
+  // sum := product (("+" | "-") product)*
+  const parseSum = (): number => {
+    let value = parseProduct();
+    while (peek() === "+" || peek() === "-") {
+      value = next() === "+" ? value + parseProduct() : value - parseProduct();
+    }
+    return value;
+  };
+
+  // product := unary (("*" | "/" | "%") unary)*
+  const parseProduct = (): number => {
+    let value = parseUnary();
+    while (peek() === "*" || peek() === "/" || peek() === "%") {
+      const operator = next();
+      const right = parseUnary();
+      value = operator === "*" ? value * right : operator === "/" ? value / right : value % right;
+    }
+    return value;
+  };
+
+  // unary := ("-" | "+") unary | power
+  const parseUnary = (): number => {
+    if (peek() === "-") {
+      next();
+      return -parseUnary();
+    }
+    if (peek() === "+") {
+      next();
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  // power := atom ("^" unary)?  (right-associative)
+  const parsePower = (): number => {
+    const base = parseAtom();
+    if (peek() === "^") {
+      next();
+      return Math.pow(base, parseUnary());
+    }
+    return base;
+  };
+
+  const parseAtom = (): number => {
+    const token = next();
+    if (token === undefined) throw new Error("Unexpected end of expression");
+
+    if (token === "(") {
+      const value = parseSum();
+      expect(")");
+      return value;
+    }
+    if (/^(\d|\.)/.test(token)) {
+      return Number(token);
+    }
+
+    const name = token.toLowerCase();
+    // Own keys only, so names like "constructor" aren't taken from the prototype
+    if (Object.prototype.hasOwnProperty.call(CONSTANTS, name)) return CONSTANTS[name];
+    if (Object.prototype.hasOwnProperty.call(FUNCTIONS, name)) {
+      expect("(");
+      const values = [parseSum()];
+      while (peek() === ",") {
+        next();
+        values.push(parseSum());
+      }
+      expect(")");
+      return FUNCTIONS[name](...values);
+    }
+    throw new Error(`Unexpected "${token}"`);
+  };
+
+  const result = parseSum();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${tokens[position]}"`);
+  }
+  if (!Number.isFinite(result)) {
+    throw new Error("Result is not a finite number");
+  }
+  return result;
+}
+
+export const listBoardNodes = internalQuery({
+  args: { boardId: v.id("boards") },
+  handler: async (ctx, args) => {
+    const nodes = await ctx.db
+      .query("nodes")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .take(MAX_LISTED_NODES);
+
+    return nodes.map((node) => ({
+      id: node._id,
+      type: node.type,
+      title: node.title,
+      preview: node.content.replace(/\s+/g, " ").trim().slice(0, NODE_PREVIEW_CHARS),
+    }));
+  },
+});
+
+export const readBoardNode = internalQuery({
+  args: {
+    boardId: v.id("boards"),
+    // Untrusted id from model output
+    nodeId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const nodeId = ctx.db.normalizeId("nodes", args.nodeId);
+    const node = nodeId ? await ctx.db.get(nodeId) : null;
+
+    // Security: Tools only see nodes on the board being generated for
+    if (!node || node.boardId !== args.boardId) {
+      return null;
+    }
+
+    return { type: node.type, title: node.title, content: node.content };
+  },
+});
+
+// Tool input and output are model- or user-controlled; a call that fails
+// validation is still recorded, without its content
+function sanitizeToolText(text: string): string {
+  try {
+    return validateNodeContent(text.length > MAX_TOOL_OUTPUT_CHARS ? `${text.slice(0, MAX_TOOL_OUTPUT_CHARS)}\n[...truncated]` : text);
+  } catch (error) {
+    return "[content withheld: failed validation]";
+  }
+}
+
+// Grid cell for the next tool row below a response
+async function nextToolRow(ctx: any, responseNode: Doc<"nodes">): Promise<number> {
+  const outgoing: Doc<"edges">[] = await ctx.db
+    .query("edges")
+    .withIndex("by_src", (q: any) => q.eq("srcNodeId", responseNode._id))
+    .collect();
+  return outgoing.filter((edge) => edge.kind === "tool").length;
+}
+
+export const createToolNote = internalMutation({
+  args: {
+    userId: v.id("users"),
+    boardId: v.id("boards"),
+    responseNodeId: v.id("nodes"),
+    title: v.optional(v.string()),
+    content: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const responseNode = await ctx.db.get(args.responseNodeId);
+    if (!responseNode || responseNode.boardId !== args.boardId) {
+      throw new Error("Response node not found");
+    }
+
+    // Validate and sanitize model output like any other node content
+    const content = validateNodeContent(args.content);
+    const title = args.title ? validateAndSanitizeText(args.title, MAX_NOTE_TITLE_LENGTH) : undefined;
+
+    // The note sits at the end of the row the recording call is about to take
+    const row = await nextToolRow(ctx, responseNode);
+    const noteId = await ctx.db.insert("nodes", {
+      boardId: args.boardId,
+      type: "note",
+      title,
+      content,
+      position: {
+        x: responseNode.position.x + 2 * TOOL_COLUMN_WIDTH,
+        y: responseNode.position.y + TOOL_ROW_OFFSET_Y + row * TOOL_ROW_HEIGHT,
+      },
+      collapsed: false,
+      meta: {},
+      createdBy: args.userId,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+
+    await ctx.db.insert("edges", {
+      boardId: args.boardId,
+      srcNodeId: args.responseNodeId,
+      dstNodeId: noteId,
+      kind: "lineage",
+      createdBy: args.userId,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+
+    return noteId;
+  },
+});
+
+/**
+ * Materialize a tool call and its result as nodes linked from the response:
+ * response -> call -> result, on a new row below the response
+ */
+export const recordToolCall = internalMutation({
+  args: {
+    userId: v.id("users"),
+    boardId: v.id("boards"),
+    responseNodeId: v.id("nodes"),
+    callId: v.string(),
+    name: v.string(),
+    arguments: v.string(),
+    output: v.string(),
+    isError: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const responseNode = await ctx.db.get(args.responseNodeId);
+    if (!responseNode || responseNode.boardId !== args.boardId) {
+      return;
+    }
+
+    const row = await nextToolRow(ctx, responseNode);
+    const y = responseNode.position.y + TOOL_ROW_OFFSET_Y + row * TOOL_ROW_HEIGHT;
+
+    const callNodeId = await ctx.db.insert("nodes", {
+      boardId: args.boardId,
+      type: "toolCall",
+      title: args.name,
+      content: sanitizeToolText(args.arguments),
+      position: { x: responseNode.position.x, y },
+      collapsed: false,
+      meta: { tool: { callId: args.callId, name: args.name } },
+      createdBy: args.userId,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+
+    const resultNodeId = await ctx.db.insert("nodes", {
+      boardId: args.boardId,
+      type: "toolResult",
+      title: args.name,
+      content: sanitizeToolText(args.output),
+      position: { x: responseNode.position.x + TOOL_COLUMN_WIDTH, y },
+      collapsed: false,
+      meta: { tool: { callId: args.callId, name: args.name, isError: args.isError } },
+      createdBy: args.userId,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+
+    for (const [srcNodeId, dstNodeId] of [[args.responseNodeId, callNodeId], [callNodeId, resultNodeId]]) {
+      await ctx.db.insert("edges", {
+        boardId: args.boardId,
+        srcNodeId,
+        dstNodeId,
+        kind: "tool",
+        createdBy: args.userId,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      });
+    }
+  },
+});
@@ -1,4 +1,6 @@
 import { v } from "convex/values";
+import { getProvider, isModelAllowed, isProviderId } from "./providers";
+import { assertSchemaShape } from "./jsonSchema";
 
 /**
  * Input validation utilities for security
@@ -10,6 +12,13 @@ export const MAX_LENGTHS = {
   BOARD_TITLE: 200,
   BOARD_DESCRIPTION: 1000,
   API_KEY_NICKNAME: 100,
+  API_KEY_ENDPOINT: 500,
+  SYSTEM_PROMPT: 10000,
+  OUTPUT_SCHEMA: 20000,
+  TEMPLATE_NAME: 100,
+  NODE_TITLE: 200,
+  SNAPSHOT_LABEL: 100,
+  TAG_NAME: 50,
   USER_EMAIL: 254,
   SHARE_TOKEN: 32,
 } as const;
@@ -116,6 +125,54 @@ export function validateBoardDescription(description: string | undefined): strin
   return validateAndSanitizeText(description, MAX_LENGTHS.BOARD_DESCRIPTION);
 }
 
+/**
+ * Validate a board system prompt (empty means "use the default")
+ */
+export function validateSystemPrompt(prompt: string | undefined): string | undefined {
+  if (prompt === undefined || prompt === null) {
+    return undefined;
+  }
+
+  if (typeof prompt !== 'string') {
+    throw new Error("System prompt must be a string");
+  }
+
+  const sanitized = validateAndSanitizeText(prompt, MAX_LENGTHS.SYSTEM_PROMPT);
+  return sanitized.length > 0 ? sanitized : undefined;
+}
+
+/**
+ * Validate a JSON schema for structured output (empty means "no schema").
+ * Returns the schema re-serialized, so stored schemas always parse.
+ */
+export function validateOutputSchema(schema: string | undefined): string | undefined {
+  if (schema === undefined || schema === null) {
+    return undefined;
+  }
+
+  if (typeof schema !== 'string') {
+    throw new Error("Output schema must be a string");
+  }
+
+  const sanitized = validateAndSanitizeText(schema, MAX_LENGTHS.OUTPUT_SCHEMA);
+  if (sanitized.length === 0) {
+    return undefined;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(sanitized);
+  } catch (error) {
+    throw new Error("Output schema must be valid JSON");
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error("Output schema must be a JSON object");
+  }
+  assertSchemaShape(parsed);
+
+  return JSON.stringify(parsed, null, 2);
+}
+
 /**
  * Validate node content
  */
@@ -127,6 +184,99 @@ export function validateNodeContent(content: string): string {
   return validateAndSanitizeText(content, MAX_LENGTHS.NODE_CONTENT);
 }
 
+// Colors offered for notes, frames and tags
+export const NODE_COLORS = ["yellow", "red", "blue", "green", "purple", "gray"] as const;
+
+/**
+ * Validate a node color
+ */
+export function validateNodeColor(color: string): string {
+  if (!(NODE_COLORS as readonly string[]).includes(color)) {
+    throw new Error("Unsupported color");
+  }
+  return color;
+}
+
+// Attachment limits; images stay within every vision provider's inline size limit
+export const ATTACHMENT_LIMITS = {
+  MAX_PER_NODE: 5,
+  MAX_NAME_LENGTH: 200,
+  MAX_IMAGE_BYTES: 5 * 1024 * 1024, // 5MB
+  MAX_PDF_BYTES: 10 * 1024 * 1024, // 10MB
+  MAX_TEXT_BYTES: 200 * 1024, // 200KB
+} as const;
+
+// Accepted attachment types (no SVG: it can carry script)
+export const ATTACHMENT_TYPES = {
+  image: ["image/png", "image/jpeg", "image/gif", "image/webp"],
+  pdf: ["application/pdf"],
+  text: ["text/plain", "text/markdown", "text/csv", "application/json"],
+} as const;
+
+export type AttachmentKind = keyof typeof ATTACHMENT_TYPES;
+
+// Browsers often send no type for text formats, so fall back to the extension
+const TEXT_EXTENSIONS: Record<string, string> = {
+  txt: "text/plain",
+  md: "text/markdown",
+  markdown: "text/markdown",
+  csv: "text/csv",
+  json: "application/json",
+};
+
+/**
+ * Kind of an accepted attachment type, or undefined if the type is not accepted
+ */
+export function attachmentKind(mimeType: string): AttachmentKind | undefined {
+  for (const [kind, types] of Object.entries(ATTACHMENT_TYPES)) {
+    if ((types as readonly string[]).includes(mimeType)) {
+      return kind as AttachmentKind;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Validate an uploaded attachment's name, type and size.
+ * Returns the sanitized name and normalized type.
+ */
+export function validateAttachment(
+  name: string,
+  mimeType: string | undefined,
+  size: number
+): { name: string; mimeType: string; kind: AttachmentKind } {
+  if (typeof name !== 'string') {
+    throw new Error("Attachment name must be a string");
+  }
+
+  // Keep only the file name, without any client path
+  const baseName = name.split(/[\\/]/).pop() ?? "";
+  const sanitizedName = validateAndSanitizeText(
+    baseName.replace(/\p{Cc}/gu, "").slice(0, ATTACHMENT_LIMITS.MAX_NAME_LENGTH),
+    ATTACHMENT_LIMITS.MAX_NAME_LENGTH
+  ) || "attachment";
+
+  let type = (mimeType ?? "").split(";")[0].trim().toLowerCase();
+  if (!type || type === "application/octet-stream") {
+    const extension = sanitizedName.includes(".") ? sanitizedName.split(".").pop()!.toLowerCase() : "";
+    type = TEXT_EXTENSIONS[extension] ?? type;
+  }
+
+  const kind = attachmentKind(type);
+  if (!kind) {
+    throw new Error("Unsupported file type. Attach PNG, JPEG, GIF or WebP images, PDFs, or text files");
+  }
+
+  const maxBytes = kind === "image"
+    ? ATTACHMENT_LIMITS.MAX_IMAGE_BYTES
+    : kind === "pdf" ? ATTACHMENT_LIMITS.MAX_PDF_BYTES : ATTACHMENT_LIMITS.MAX_TEXT_BYTES;
+  if (size > maxBytes) {
+    throw new Error(`File exceeds maximum size of ${Math.round(maxBytes / 1024)}KB`);
+  }
+
+  return { name: sanitizedName, mimeType: type, kind };
+}
+
 /**
  * Validate API key nickname
  */
@@ -144,6 +294,42 @@ export function validateApiKeyNickname(nickname: string): string {
   return sanitized;
 }
 
+/**
+ * Validate an API key endpoint (base URL of an OpenAI-compatible server)
+ */
+export function validateApiKeyEndpoint(endpoint: string): string {
+  if (typeof endpoint !== 'string') {
+    throw new Error("Endpoint must be a string");
+  }
+
+  const trimmed = endpoint.trim();
+  if (trimmed.length === 0) {
+    throw new Error("Endpoint cannot be empty");
+  }
+
+  if (trimmed.length > MAX_LENGTHS.API_KEY_ENDPOINT) {
+    throw new Error("Endpoint too long");
+  }
+
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch (e) {
+    throw new Error("Endpoint must be a valid URL");
+  }
+
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error("Endpoint must use http or https");
+  }
+
+  if (url.username || url.password) {
+    throw new Error("Endpoint must not contain credentials");
+  }
+
+  // Normalise away trailing slashes so paths can be appended
+  return trimmed.replace(/\/+$/, "");
+}
+
 /**
  * Validate share token
  */
@@ -191,15 +377,16 @@ export function validatePosition(position: { x: number; y: number }): { x: numbe
 }
 
 /**
- * Validate model name
+ * Validate model name (and, when a provider is given, that the provider offers it)
  */
-export function validateModelName(model: string): string {
+export function validateModelName(model: string, provider?: string): string {
   if (typeof model !== 'string') {
     throw new Error("Model name must be a string");
   }
 
-  // Only allow alphanumeric, hyphens, underscores, and dots
-  if (!/^[a-zA-Z0-9._-]+$/.test(model)) {
+  // Only allow alphanumeric, hyphens, underscores, dots, and the ":" / "/"
+  // used by self-hosted model tags (e.g. "llama3.1:8b", "org/model")
+  if (!/^[a-zA-Z0-9._:/-]+$/.test(model)) {
     throw new Error("Model name contains invalid characters");
   }
 
@@ -207,6 +394,10 @@ export function validateModelName(model: string): string {
     throw new Error("Model name too long");
   }
 
+  if (provider !== undefined && !isModelAllowed(provider, model)) {
+    throw new Error(`Model ${model} is not available for provider ${getProvider(provider).label}`);
+  }
+
   return model;
 }
 
@@ -227,6 +418,10 @@ export function validateProviderName(provider: string): string {
     throw new Error("Provider name too long");
   }
 
+  if (!isProviderId(provider)) {
+    throw new Error(`Provider ${provider} not yet supported`);
+  }
+
   return provider;
 }
 
@@ -0,0 +1,160 @@
+import { query, mutation, internalMutation } from "./_generated/server";
+import { v } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import { requireAuth } from "./security";
+
+/**
+ * Response version history: every generation of a response node is kept.
+ * The node's own content always mirrors its current version, so context
+ * building and exports need no knowledge of versions.
+ */
+
+export const listResponseVersions = query({
+  args: { nodeId: v.id("nodes") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+
+    const node = await ctx.db.get(args.nodeId);
+    if (!node) {
+      throw new Error("Node not found");
+    }
+
+    // Check board access (public boards are readable, as in listNodesByBoard)
+    const board = await ctx.db.get(node.boardId);
+    if (!board || (board.ownerUserId !== userId && !board.isPublic)) {
+      throw new Error("Access denied");
+    }
+
+    const versions = await ctx.db
+      .query("responseVersions")
+      .withIndex("by_node", (q) => q.eq("nodeId", args.nodeId))
+      .collect();
+
+    return versions.sort((a, b) => a.createdAt - b.createdAt);
+  },
+});
+
+export const selectResponseVersion = mutation({
+  args: {
+    nodeId: v.id("nodes"),
+    versionId: v.id("responseVersions"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+
+    const node = await ctx.db.get(args.nodeId);
+    if (!node) {
+      throw new Error("Node not found");
+    }
+
+    // Check board access
+    const board = await ctx.db.get(node.boardId);
+    if (!board || board.ownerUserId !== userId) {
+      throw new Error("Access denied");
+    }
+
+    const version = await ctx.db.get(args.versionId);
+    if (!version || version.nodeId !== args.nodeId) {
+      throw new Error("Version not found");
+    }
+
+    await ctx.db.patch(args.nodeId, {
+      content: version.content,
+      meta: {
+        ...node.meta,
+        model: version.model,
+        provider: version.provider,
+        tokens: version.tokens,
+        sources: version.sources,
+        structured: version.structured,
+        currentVersionId: version._id,
+      },
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Record the node's current content as a version. With `extend`, the current
+ * version is updated in place instead (continuations belong to the same generation).
+ */
+export const saveResponseVersion = internalMutation({
+  args: {
+    nodeId: v.id("nodes"),
+    extend: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const node = await ctx.db.get(args.nodeId);
+    if (!node) return;
+
+    const snapshot = {
+      content: node.content,
+      model: node.meta.model,
+      provider: node.meta.provider,
+      tokens: node.meta.tokens,
+      sources: node.meta.sources,
+      structured: node.meta.structured,
+    };
+
+    if (args.extend && node.meta.currentVersionId) {
+      const current = await ctx.db.get(node.meta.currentVersionId);
+      if (current) {
+        await ctx.db.patch(current._id, snapshot);
+        return;
+      }
+    }
+
+    await archiveResponse(ctx, node._id);
+  },
+});
+
+/**
+ * Store a response node's current state as a new version and make it current.
+ * Returns the existing version if the node's content is already stored.
+ */
+export async function archiveResponse(ctx: any, nodeId: Id<"nodes">): Promise<Id<"responseVersions"> | null> {
+  const node = await ctx.db.get(nodeId);
+  if (!node || !node.content) return null;
+
+  if (node.meta.currentVersionId) {
+    const current = await ctx.db.get(node.meta.currentVersionId);
+    if (current && current.content === node.content) {
+      return current._id;
+    }
+  }
+
+  const versionId = await ctx.db.insert("responseVersions", {
+    boardId: node.boardId,
+    nodeId: node._id,
+    content: node.content,
+    model: node.meta.model,
+    provider: node.meta.provider,
+    tokens: node.meta.tokens,
+    sources: node.meta.sources,
+    structured: node.meta.structured,
+    createdBy: node.createdBy,
+    createdAt: Date.now(),
+  });
+
+  await ctx.db.patch(node._id, {
+    meta: { ...node.meta, currentVersionId: versionId },
+  });
+
+  return versionId;
+}
+
+/**
+ * Delete every stored version of a node
+ */
+export async function deleteResponseVersions(ctx: any, nodeId: Id<"nodes">): Promise<number> {
+  const versions = await ctx.db
+    .query("responseVersions")
+    .withIndex("by_node", (q: any) => q.eq("nodeId", nodeId))
+    .collect();
+
+  for (const version of versions) {
+    await ctx.db.delete(version._id);
+  }
+
+  return versions.length;
+}
@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { useConvex, useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { Play, Square } from "lucide-react";
+
+interface BatchRunPanelProps {
+  frameNodeId: string;
+}
+
+type Estimate = {
+  items: number;
+  skipped: number;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  maxOutputTokens: number;
+  estimatedCost: number;
+};
+
+const formatCost = (cost: number) => (cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`);
+
+// Run one instruction against every node in a frame, with a cost estimate first and progress after
+export default function BatchRunPanel({ frameNodeId }: BatchRunPanelProps) {
+  const convex = useConvex();
+  const frameId = frameNodeId as Id<"nodes">;
+  const latestRun = useQuery(api.batches.getLatestBatchRun, { frameNodeId: frameId });
+  const startBatchRun = useMutation(api.batches.startBatchRun);
+  const cancelBatchRun = useMutation(api.batches.cancelBatchRun);
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [instruction, setInstruction] = useState("");
+  const [estimate, setEstimate] = useState<Estimate | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleReview = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      setEstimate(await convex.query(api.batches.estimateBatchRun, { frameNodeId: frameId, instruction }));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to estimate the batch");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleStart = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await startBatchRun({ frameNodeId: frameId, instruction });
+      setIsOpen(false);
+      setInstruction("");
+      setEstimate(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to start the batch");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const progress = latestRun?.progress;
+  const finished = progress ? progress.done + progress.failed + progress.stopped + progress.removed : 0;
+
+  return (
+    <div className="mt-3" onClick={(e) => e.stopPropagation()}>
+      {latestRun && progress && (
+        <div className="mb-2 text-xs text-gray-600">
+          <div className="flex items-center justify-between">
+            <span className="truncate" title={latestRun.instruction}>
+              Batch: {finished}/{progress.total} done
+              {progress.failed > 0 && ` · ${progress.failed} failed`}
+              {progress.stopped > 0 && ` · ${progress.stopped} stopped`}
+            </span>
+            {progress.generating > 0 && !latestRun.cancelled && (
+              <button
+                onClick={() => void cancelBatchRun({ batchRunId: latestRun._id })}
+                className="flex items-center gap-1 text-red-600 hover:text-red-700"
+                title="Cancel remaining generations"
+              >
+                <Square className="w-3 h-3" />
+                Cancel
+              </button>
+            )}
+          </div>
+          <div className="mt-1 h-1.5 bg-purple-100 rounded">
+            <div
+              className="h-1.5 bg-purple-500 rounded transition-all"
+              style={{ width: `${progress.total > 0 ? (finished / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+          <div className="mt-1 text-gray-400">
+            {formatCost(latestRun.actualCost)} spent of up to {formatCost(latestRun.estimatedCost)}
+          </div>
+        </div>
+      )}
+
+      {isOpen ? (
+        <div className="p-3 border border-purple-200 rounded-md bg-white space-y-2">
+          <textarea
+            value={instruction}
+            onChange={(e) => {
+              setInstruction(e.target.value);
+              setEstimate(null);
+            }}
+            placeholder="Instruction to run against each node in this frame"
+            className="w-full h-20 px-2 py-1 text-sm border border-gray-200 rounded resize-y outline-none focus:border-purple-400"
+          />
+          {estimate && (
+            <div className="text-xs text-gray-600">
+              {estimate.items} node{estimate.items === 1 ? "" : "s"} with {estimate.model}
+              {estimate.skipped > 0 && ` (${estimate.skipped} without text skipped)`}
+              {" · "}~{estimate.inputTokens.toLocaleString()} input tokens
+              {" · "}up to {formatCost(estimate.estimatedCost)}
+            </div>
+          )}
+          {error && <div className="text-xs text-red-600">{error}</div>}
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => {
+                setIsOpen(false);
+                setEstimate(null);
+                setError(null);
+              }}
+              className="px-3 py-1 text-xs text-gray-600 hover:bg-gray-100 rounded"
+            >
+              Cancel
+            </button>
+            {estimate ? (
+              <button
+                onClick={() => void handleStart()}
+                disabled={isBusy}
+                className="px-3 py-1 text-xs bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50 rounded"
+              >
+                Start batch
+              </button>
+            ) : (
+              <button
+                onClick={() => void handleReview()}
+                disabled={isBusy || !instruction.trim()}
+                className="px-3 py-1 text-xs bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50 rounded"
+              >
+                Estimate cost
+              </button>
+            )}
+          </div>
+        </div>
+      ) : (
+        <div className="flex justify-center">
+          <button
+            onClick={() => setIsOpen(true)}
+            className="px-3 py-1 text-xs text-purple-700 hover:bg-purple-100 rounded transition-colors flex items-center gap-1"
+            title="Run an instruction against every node in this frame"
+          >
+            <Play className="w-3 h-3" />
+            Run on each node
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
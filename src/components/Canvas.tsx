@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import ReactFlow, {
   Node,
   Edge,
@@ -17,16 +17,23 @@ import { useQuery, useMutation } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { Id } from "../../convex/_generated/dataModel";
 import NodeCard from "./NodeCard";
+import FrameNode from "./FrameNode";
 import FABNewPrompt from "./FABNewPrompt";
 import ZoomControls from "./ZoomControls";
 import CustomCurvedEdge from "./CustomCurvedEdge";
 import { useBoardState } from "../state/useBoardState";
-import { Map } from "lucide-react";
+import { Map as MapIcon } from "lucide-react";
 
 const nodeTypes = {
   nodeCard: NodeCard,
+  frame: FrameNode,
 };
 
+// Matches the server default for frames that were never resized
+const DEFAULT_FRAME_SIZE = { width: 800, height: 600 };
+// A collapsed frame shrinks to its header
+const COLLAPSED_FRAME_HEIGHT = 48;
+
 const edgeTypes = {
   curved: CustomCurvedEdge,
   default: CustomCurvedEdge, // Use custom curved edge as default
@@ -41,8 +48,11 @@ function CanvasInner({ boardId }: CanvasProps) {
   const { fitView, getViewport } = useReactFlow();
   const nodes = useQuery(api.nodes.listNodesByBoard, { boardId });
   const edges = useQuery(api.edges.listEdgesByBoard, { boardId });
+  const tags = useQuery(api.tags.listTags, { boardId });
+  const nodeTags = useQuery(api.tags.listBoardNodeTags, { boardId });
   const createNode = useMutation(api.nodes.createNode);
-  const updateNode = useMutation(api.nodes.updateNode);
+  const createFrame = useMutation(api.frames.createFrame);
+  const moveNode = useMutation(api.frames.moveNode);
   const createEdge = useMutation(api.edges.createEdge);
   const deleteEdge = useMutation(api.edges.deleteEdge);
 
@@ -56,26 +66,92 @@ function CanvasInner({ boardId }: CanvasProps) {
   console.log('ReactFlow edges count:', reactFlowEdges.length);
   const [connectionSource, setConnectionSource] = useState<string | null>(null);
 
-  const { selectedNodeId, setSelectedNodeId } = useBoardState();
+  const { selectedNodeId, setSelectedNodeId, tagFilter, tagFilterMode } = useBoardState();
+
+  // Start positions of a dragged frame's children, so they follow it live
+  const frameDrag = useRef<{ start: { x: number; y: number }; children: Record<string, { x: number; y: number }> } | null>(null);
 
   // Convert Convex nodes to ReactFlow nodes
   useEffect(() => {
     if (nodes) {
-      const flowNodes: Node[] = nodes.map((node) => ({
-        id: node._id,
-        type: "nodeCard",
-        position: node.position,
-        data: {
-          ...node,
-          position: node.position, // Include position in data
-          isSelected: selectedNodeId === node._id,
-          boardId: boardId,
-        },
-        selected: selectedNodeId === node._id,
-      }));
+      // Nodes inside a collapsed frame are hidden, however deeply nested
+      const nodesById = new Map(nodes.map((node) => [node._id as string, node]));
+      const inCollapsedFrame = (node: (typeof nodes)[number]) => {
+        const seen = new Set<string>();
+        for (let frameId = node.parentFrameId; frameId && !seen.has(frameId); frameId = nodesById.get(frameId)?.parentFrameId) {
+          seen.add(frameId);
+          if (nodesById.get(frameId)?.collapsed) return true;
+        }
+        return false;
+      };
+      const childCounts: Record<string, number> = {};
+      for (const node of nodes) {
+        if (node.parentFrameId) {
+          childCounts[node.parentFrameId] = (childCounts[node.parentFrameId] ?? 0) + 1;
+        }
+      }
+
+      // Each node's tags, and whether it passes the tag filter (tags deleted since are ignored)
+      const tagsById = new Map((tags ?? []).map((tag) => [tag._id as string, tag]));
+      const tagsByNode: Record<string, NonNullable<typeof tags>> = {};
+      for (const { nodeId, tagId } of nodeTags ?? []) {
+        const tag = tagsById.get(tagId);
+        if (tag) {
+          (tagsByNode[nodeId] ??= []).push(tag);
+        }
+      }
+      const activeFilter = tagFilter.filter((tagId) => tagsById.has(tagId));
+      const matchesFilter = (nodeId: string) =>
+        activeFilter.length === 0 || (tagsByNode[nodeId] ?? []).some((tag) => activeFilter.includes(tag._id));
+
+      // Frames first so they render behind everything else, larger (outer) frames behind nested ones
+      const frameArea = (node: (typeof nodes)[number]) => {
+        const size = node.size ?? DEFAULT_FRAME_SIZE;
+        return size.width * size.height;
+      };
+      const ordered = [
+        ...nodes.filter((node) => node.type === "frame").sort((a, b) => frameArea(b) - frameArea(a)),
+        ...nodes.filter((node) => node.type !== "frame"),
+      ];
+      const flowNodes: Node[] = ordered.map((node) => {
+        if (node.type === "frame") {
+          const size = node.size ?? DEFAULT_FRAME_SIZE;
+          return {
+            id: node._id,
+            type: "frame",
+            position: node.position,
+            data: {
+              ...node,
+              position: node.position,
+              childCount: childCounts[node._id] ?? 0,
+            },
+            style: { width: size.width, height: node.collapsed ? COLLAPSED_FRAME_HEIGHT : size.height },
+            zIndex: -1,
+            hidden: inCollapsedFrame(node),
+            selected: selectedNodeId === node._id,
+          };
+        }
+
+        const matches = matchesFilter(node._id);
+        return {
+          id: node._id,
+          type: "nodeCard",
+          position: node.position,
+          data: {
+            ...node,
+            position: node.position, // Include position in data
+            isSelected: selectedNodeId === node._id,
+            boardId: boardId,
+            tags: tagsByNode[node._id] ?? [],
+          },
+          hidden: inCollapsedFrame(node) || (!matches && tagFilterMode === "hide"),
+          style: !matches && tagFilterMode === "dim" ? { opacity: 0.25 } : undefined,
+          selected: selectedNodeId === node._id,
+        };
+      });
       setReactFlowNodes(flowNodes);
     }
-  }, [nodes, selectedNodeId, setReactFlowNodes]);
+  }, [nodes, tags, nodeTags, tagFilter, tagFilterMode, selectedNodeId, setReactFlowNodes]);
 
   // Convert Convex edges to ReactFlow edges
   useEffect(() => {
@@ -86,9 +162,9 @@ function CanvasInner({ boardId }: CanvasProps) {
         target: edge.dstNodeId,
         type: "curved", // Use our custom curved edge for all connections
         style: {
-          stroke: edge.kind === "lineage" ? "#6366f1" : "#9ca3af",
+          stroke: edge.kind === "lineage" ? "#6366f1" : edge.kind === "tool" ? "#f59e0b" : "#9ca3af",
           strokeWidth: 3,
-          strokeDasharray: edge.kind === "reference" ? "8,4" : undefined,
+          strokeDasharray: edge.kind === "reference" ? "8,4" : edge.kind === "tool" ? "2,6" : undefined,
         },
         data: {
           kind: edge.kind,
@@ -140,14 +216,54 @@ function CanvasInner({ boardId }: CanvasProps) {
     [boardId, createEdge, connectionSource]
   );
 
+  const onNodeDragStart = useCallback(
+    (event: any, node: Node) => {
+      if (node.type !== "frame" || !nodes) return;
+
+      // Everything inside the frame follows it, including nested frames' contents
+      const children: Record<string, { x: number; y: number }> = {};
+      const pending = [node.id];
+      while (pending.length > 0) {
+        const frameId = pending.pop();
+        for (const child of nodes) {
+          if (child.parentFrameId === frameId && !children[child._id]) {
+            children[child._id] = child.position;
+            if (child.type === "frame") pending.push(child._id);
+          }
+        }
+      }
+      frameDrag.current = { start: node.position, children };
+    },
+    [nodes]
+  );
+
+  const onNodeDrag = useCallback(
+    (event: any, node: Node) => {
+      const drag = frameDrag.current;
+      if (!drag) return;
+
+      const dx = node.position.x - drag.start.x;
+      const dy = node.position.y - drag.start.y;
+      setReactFlowNodes((current) =>
+        current.map((flowNode) => {
+          const start = drag.children[flowNode.id];
+          return start ? { ...flowNode, position: { x: start.x + dx, y: start.y + dy } } : flowNode;
+        })
+      );
+    },
+    [setReactFlowNodes]
+  );
+
   const onNodeDragStop = useCallback(
     (event: any, node: Node) => {
-      updateNode({
+      frameDrag.current = null;
+      // The server moves a frame's children and updates frame membership
+      void moveNode({
         nodeId: node.id as Id<"nodes">,
         position: node.position,
       });
     },
-    [updateNode]
+    [moveNode]
   );
 
   const onNodeClick = useCallback(
@@ -182,6 +298,14 @@ function CanvasInner({ boardId }: CanvasProps) {
     [boardId, createNode, getViewport]
   );
 
+  const getViewportCenter = useCallback(() => {
+    const viewport = getViewport();
+    return {
+      x: (-viewport.x + window.innerWidth / 2) / viewport.zoom,
+      y: (-viewport.y + window.innerHeight / 2) / viewport.zoom,
+    };
+  }, [getViewport]);
+
   const handleCreateNote = useCallback(
     async (position?: { x: number; y: number }) => {
       const viewport = getViewport();
@@ -198,6 +322,14 @@ function CanvasInner({ boardId }: CanvasProps) {
     [boardId, createNode, getViewport]
   );
 
+  const handleCreateFrame = useCallback(async () => {
+    const center = getViewportCenter();
+    await createFrame({
+      boardId,
+      position: { x: center.x - DEFAULT_FRAME_SIZE.width / 2, y: center.y - DEFAULT_FRAME_SIZE.height / 2 },
+    });
+  }, [boardId, createFrame, getViewportCenter]);
+
   return (
     <div className="w-full h-full relative">
       <ReactFlow
@@ -208,11 +340,14 @@ function CanvasInner({ boardId }: CanvasProps) {
         onConnect={onConnect}
         onConnectStart={onConnectStart}
         onConnectEnd={onConnectEnd}
+        onNodeDragStart={onNodeDragStart}
+        onNodeDrag={onNodeDrag}
         onNodeDragStop={onNodeDragStop}
         onNodeClick={onNodeClick}
         onEdgeDoubleClick={onEdgeDoubleClick}
         nodeTypes={nodeTypes}
         edgeTypes={edgeTypes}
+        elevateNodesOnSelect={false}
         fitView
         snapToGrid
         snapGrid={[32, 32]}
@@ -238,7 +373,14 @@ function CanvasInner({ boardId }: CanvasProps) {
         <MiniMap />
       </ReactFlow>
 
-      <FABNewPrompt onCreateMessage={handleCreateMessage} onCreateNote={handleCreateNote} />
+      <FABNewPrompt
+        boardId={boardId}
+        selectedNodeId={selectedNodeId}
+        getPosition={getViewportCenter}
+        onCreateMessage={(position) => void handleCreateMessage(position)}
+        onCreateNote={(position) => void handleCreateNote(position)}
+        onCreateFrame={() => void handleCreateFrame()}
+      />
 
       {/* Minimap toggle */}
       <button
@@ -248,7 +390,7 @@ function CanvasInner({ boardId }: CanvasProps) {
         }`}
         title="Toggle Minimap"
       >
-        <Map size={16} />
+        <MapIcon size={16} />
       </button>
     </div>
   );
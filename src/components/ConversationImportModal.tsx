@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { toast } from "sonner";
+import { ConversationFormat, ExportedConversation } from "../lib/conversationExports";
+
+interface ConversationImportModalProps {
+  format: ConversationFormat;
+  conversations: ExportedConversation[];
+  onClose: () => void;
+  // Called with the new board when a single conversation was imported
+  onImported: (boardId: string) => void;
+}
+
+// Pick conversations from a ChatGPT or Claude export; each becomes its own board
+export default function ConversationImportModal({ format, conversations, onClose, onImported }: ConversationImportModalProps) {
+  const importConversation = useMutation(api.imports.importConversation);
+  const [selected, setSelected] = useState<Set<number>>(() => new Set(conversations.map((_, index) => index)));
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const toggle = (index: number) => {
+    const next = new Set(selected);
+    if (next.has(index)) {
+      next.delete(index);
+    } else {
+      next.add(index);
+    }
+    setSelected(next);
+  };
+
+  // One mutation per conversation, so a large export doesn't hit per-mutation limits
+  const handleImport = async () => {
+    const indexes = [...selected].sort((a, b) => a - b);
+    const boardIds: string[] = [];
+    let skipped = 0;
+    let failed = 0;
+
+    setProgress({ done: 0, total: indexes.length });
+    for (const index of indexes) {
+      try {
+        const report = await importConversation({ format, json: JSON.stringify(conversations[index].data) });
+        boardIds.push(report.boardId);
+        skipped += report.skippedCount;
+        if (report.skippedCount > 0) {
+          console.warn(`Skipped while importing "${conversations[index].title}":`, report.skipped);
+        }
+      } catch (error) {
+        failed++;
+        console.error(`Failed to import "${conversations[index].title}":`, error);
+      }
+      setProgress({ done: boardIds.length + failed, total: indexes.length });
+    }
+
+    let summary = `Imported ${boardIds.length} conversation${boardIds.length === 1 ? "" : "s"}`;
+    if (skipped > 0) summary += `, skipped ${skipped} messages`;
+    if (failed > 0) summary += `, ${failed} failed`;
+    if (boardIds.length > 0) {
+      toast.success(summary);
+    } else {
+      toast.error(summary);
+    }
+
+    setProgress(null);
+    if (indexes.length === 1 && boardIds.length === 1) {
+      onImported(boardIds[0]);
+    } else {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-lg">
+        <h3 className="text-lg font-semibold mb-1">
+          Import {format === "chatgpt" ? "ChatGPT" : "Claude"} conversations
+        </h3>
+        <p className="text-sm text-gray-500 mb-4">Each conversation becomes a board.</p>
+
+        <div className="flex justify-between items-center mb-2 text-sm">
+          <span className="text-gray-600">{selected.size} of {conversations.length} selected</span>
+          <button
+            onClick={() =>
+              setSelected(selected.size === conversations.length ? new Set() : new Set(conversations.map((_, index) => index)))
+            }
+            disabled={progress !== null}
+            className="text-indigo-600 hover:text-indigo-700 disabled:opacity-50"
+          >
+            {selected.size === conversations.length ? "Select none" : "Select all"}
+          </button>
+        </div>
+
+        <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-100">
+          {conversations.map((conversation, index) => (
+            <label key={index} className="flex items-center gap-3 px-3 py-2 text-sm hover:bg-gray-50 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selected.has(index)}
+                onChange={() => toggle(index)}
+                disabled={progress !== null}
+              />
+              <span className="flex-1 truncate">{conversation.title}</span>
+              <span className="text-xs text-gray-400">{conversation.messageCount} messages</span>
+            </label>
+          ))}
+        </div>
+
+        <div className="flex gap-2 mt-4">
+          <button
+            onClick={() => void handleImport()}
+            disabled={selected.size === 0 || progress !== null}
+            className="flex-1 bg-indigo-600 text-white py-2 rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {progress ? `Importing ${progress.done} of ${progress.total}...` : `Import ${selected.size}`}
+          </button>
+          <button
+            onClick={onClose}
+            disabled={progress !== null}
+            className="flex-1 bg-gray-200 text-gray-800 py-2 rounded-md hover:bg-gray-300 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,32 @@
 import { useState } from "react";
-import { MessageCircle, StickyNote, Plus, X } from "lucide-react";
+import { Id } from "../../convex/_generated/dataModel";
+import { MessageCircle, StickyNote, Plus, X, FileText, Frame } from "lucide-react";
+import TemplatePicker from "./TemplatePicker";
 
 interface FABNewMessageProps {
+  boardId: Id<"boards">;
+  selectedNodeId?: string | null;
+  getPosition: () => { x: number; y: number };
   onCreateMessage: (position?: { x: number; y: number }) => void;
   onCreateNote: (position?: { x: number; y: number }) => void;
+  onCreateFrame: () => void;
 }
 
-export default function FABNewPrompt({ onCreateMessage, onCreateNote }: FABNewMessageProps) {
+export default function FABNewPrompt({ boardId, selectedNodeId, getPosition, onCreateMessage, onCreateNote, onCreateFrame }: FABNewMessageProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
 
   return (
-    <div className="fixed bottom-6 right-6 z-50">
+    <div className="fixed bottom-6 right-6 z-50 flex flex-col items-end">
+      {showTemplates && (
+        <TemplatePicker
+          boardId={boardId}
+          getPosition={getPosition}
+          selectedNodeId={selectedNodeId}
+          onClose={() => setShowTemplates(false)}
+        />
+      )}
+
       {isExpanded && (
         <div className="mb-4 flex flex-col gap-2">
           <button
@@ -34,6 +50,26 @@ export default function FABNewPrompt({ onCreateMessage, onCreateNote }: FABNewMe
           >
             <StickyNote size={16} />
           </button>
+          <button
+            onClick={() => {
+              onCreateFrame();
+              setIsExpanded(false);
+            }}
+            className="bg-purple-600 text-white p-3 rounded-full shadow-lg hover:bg-purple-700 transition-colors opacity-70 hover:opacity-100"
+            title="New Frame"
+          >
+            <Frame size={16} />
+          </button>
+          <button
+            onClick={() => {
+              setShowTemplates(true);
+              setIsExpanded(false);
+            }}
+            className="bg-green-600 text-white p-3 rounded-full shadow-lg hover:bg-green-700 transition-colors opacity-70 hover:opacity-100"
+            title="From Template"
+          >
+            <FileText size={16} />
+          </button>
         </div>
       )}
       
@@ -0,0 +1,130 @@
+import { useEffect, useState } from "react";
+import { NodeResizer } from "reactflow";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { ChevronDown, ChevronRight, Trash2 } from "lucide-react";
+import BatchRunPanel from "./BatchRunPanel";
+
+interface FrameNodeProps {
+  data: {
+    _id: string;
+    title?: string;
+    color?: string;
+    collapsed: boolean;
+    position: { x: number; y: number };
+    childCount: number;
+  };
+  selected: boolean;
+}
+
+// Tailwind classes per frame color: border, tinted body, header text, swatch
+const FRAME_COLORS: Record<string, { frame: string; title: string; swatch: string }> = {
+  purple: { frame: "border-purple-300 bg-purple-50/40", title: "text-purple-700", swatch: "bg-purple-400" },
+  blue: { frame: "border-blue-300 bg-blue-50/40", title: "text-blue-700", swatch: "bg-blue-400" },
+  green: { frame: "border-green-300 bg-green-50/40", title: "text-green-700", swatch: "bg-green-400" },
+  yellow: { frame: "border-yellow-300 bg-yellow-50/40", title: "text-yellow-700", swatch: "bg-yellow-400" },
+  red: { frame: "border-red-300 bg-red-50/40", title: "text-red-700", swatch: "bg-red-400" },
+  gray: { frame: "border-gray-300 bg-gray-50/40", title: "text-gray-700", swatch: "bg-gray-400" },
+};
+
+const MIN_WIDTH = 200;
+const MIN_HEIGHT = 120;
+
+// A resizable container drawn behind the nodes it groups
+export default function FrameNode({ data, selected }: FrameNodeProps) {
+  const updateFrame = useMutation(api.frames.updateFrame);
+  const deleteNode = useMutation(api.nodes.deleteNode);
+
+  const frameId = data._id as Id<"nodes">;
+  const colors = FRAME_COLORS[data.color || "purple"] ?? FRAME_COLORS.purple;
+  const [title, setTitle] = useState(data.title || "");
+
+  useEffect(() => {
+    setTitle(data.title || "");
+  }, [data.title]);
+
+  const saveTitle = () => {
+    if (title.trim() !== (data.title || "")) {
+      void updateFrame({ frameId, title: title.trim() });
+    }
+  };
+
+  return (
+    <div className={`w-full h-full border-2 border-dashed rounded-lg ${colors.frame}`}>
+      <NodeResizer
+        isVisible={selected && !data.collapsed}
+        minWidth={MIN_WIDTH}
+        minHeight={MIN_HEIGHT}
+        onResizeEnd={(_event, params) => {
+          void updateFrame({
+            frameId,
+            position: { x: params.x, y: params.y },
+            size: { width: params.width, height: params.height },
+          });
+        }}
+      />
+
+      <div className="flex items-center gap-2 px-3 py-2">
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            void updateFrame({ frameId, collapsed: !data.collapsed });
+          }}
+          className={`p-1 rounded hover:bg-white/60 ${colors.title}`}
+          title={data.collapsed ? "Show nodes in this frame" : "Hide nodes in this frame"}
+        >
+          {data.collapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </button>
+        <input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onBlur={saveTitle}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") e.currentTarget.blur();
+          }}
+          placeholder="Untitled frame"
+          className={`nodrag flex-1 min-w-0 bg-transparent text-sm font-semibold outline-none ${colors.title}`}
+        />
+        <span className="text-xs text-gray-500">
+          {data.childCount} node{data.childCount === 1 ? "" : "s"}
+        </span>
+
+        {selected && (
+          <div className="flex items-center gap-1">
+            {Object.entries(FRAME_COLORS).map(([color, classes]) => (
+              <button
+                key={color}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  void updateFrame({ frameId, color });
+                }}
+                className={`w-3 h-3 rounded-full ${classes.swatch} ${
+                  (data.color || "purple") === color ? "ring-2 ring-offset-1 ring-gray-400" : ""
+                }`}
+                title={color}
+              />
+            ))}
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                void deleteNode({ nodeId: frameId });
+              }}
+              className="ml-1 p-1 rounded text-gray-400 hover:text-red-600 hover:bg-white/60"
+              title="Delete frame (keeps its nodes)"
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Batch runs over the nodes inside the frame */}
+      {!data.collapsed && (
+        <div className="nodrag px-3">
+          <BatchRunPanel frameNodeId={data._id} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { Clock } from "lucide-react";
+
+interface JobsIndicatorProps {
+  boardId: string;
+}
+
+// In-flight generations on the board, with their retry state
+export default function JobsIndicator({ boardId }: JobsIndicatorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const jobs = useQuery(api.jobs.listBoardJobs, { boardId: boardId as Id<"boards"> });
+  const cancelGeneration = useMutation(api.jobs.cancelGeneration);
+
+  if (!jobs || jobs.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-2 py-1 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md flex items-center gap-1"
+        title="Generations in progress"
+      >
+        <Clock size={14} className="animate-spin" />
+        {jobs.length} generating
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 w-80 bg-white border border-gray-200 rounded-md shadow-lg z-50 py-1">
+          {jobs.map((job) => (
+            <div key={job._id} className="px-3 py-2 text-xs border-b border-gray-100 last:border-b-0">
+              <div className="flex items-center justify-between">
+                <span className="font-mono text-gray-700">{job.model}</span>
+                <button
+                  onClick={() => void cancelGeneration({ responseNodeId: job.responseNodeId })}
+                  className="text-red-600 hover:text-red-700"
+                >
+                  Cancel
+                </button>
+              </div>
+              <div className="text-gray-500 mt-0.5">
+                {job.status === "running" ? "Running" : job.attempts > 0 ? "Waiting to retry" : "Queued"}
+                {job.attempts > 1 && ` · attempt ${job.attempts}`}
+                {job.status === "queued" && job.nextAttemptAt && ` · retry at ${new Date(job.nextAttemptAt).toLocaleTimeString()}`}
+              </div>
+              {job.error && (
+                <div className="text-amber-600 mt-0.5 truncate" title={job.error}>{job.error}</div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { useState } from "react";
+import { ChevronDown, ChevronRight } from "lucide-react";
+
+interface JsonTreeProps {
+  value: unknown;
+  name?: string;
+  depth?: number;
+}
+
+// Nested levels start collapsed past this depth so large documents stay compact
+const AUTO_EXPAND_DEPTH = 2;
+
+function renderScalar(value: unknown) {
+  if (value === null) return <span className="text-gray-400">null</span>;
+  if (typeof value === "string") return <span className="text-green-700 break-all">"{value}"</span>;
+  if (typeof value === "number") return <span className="text-blue-700">{value}</span>;
+  if (typeof value === "boolean") return <span className="text-purple-700">{String(value)}</span>;
+  return <span className="text-gray-500">{JSON.stringify(value)}</span>;
+}
+
+// Collapsible view of a parsed JSON value
+export default function JsonTree({ value, name, depth = 0 }: JsonTreeProps) {
+  const [isOpen, setIsOpen] = useState(depth < AUTO_EXPAND_DEPTH);
+  const label = name !== undefined ? <span className="text-gray-600">{name}: </span> : null;
+
+  if (value === null || typeof value !== "object") {
+    return (
+      <div className={depth > 0 ? "pl-4" : ""}>
+        {label}
+        {renderScalar(value)}
+      </div>
+    );
+  }
+
+  const entries: Array<[string, unknown]> = Array.isArray(value)
+    ? value.map((item, index) => [String(index), item])
+    : Object.entries(value as Record<string, unknown>);
+  const summary = Array.isArray(value) ? `[${entries.length}]` : `{${entries.length}}`;
+
+  return (
+    <div className={depth > 0 ? "pl-4" : ""}>
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          setIsOpen(!isOpen);
+        }}
+        className="flex items-center text-left hover:bg-gray-100 rounded"
+        title={isOpen ? "Collapse" : "Expand"}
+      >
+        {isOpen ? <ChevronDown className="w-3 h-3 text-gray-400" /> : <ChevronRight className="w-3 h-3 text-gray-400" />}
+        {label}
+        <span className="text-gray-400">{summary}</span>
+      </button>
+      {isOpen && entries.map(([key, item]) => (
+        <JsonTree key={key} name={key} value={item} depth={depth + 1} />
+      ))}
+    </div>
+  );
+}
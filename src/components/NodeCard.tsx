@@ -1,19 +1,45 @@
 import { useState, useCallback, useEffect, useRef } from "react";
 import { Handle, Position, NodeProps } from "reactflow";
-import { useMutation } from "convex/react";
+import { useMutation, useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { Id } from "../../convex/_generated/dataModel";
-import { Bot, Clock, User, Trash2, StickyNote, GripVertical, GitBranch, ChevronDown, Copy } from "lucide-react";
+import JsonTree from "./JsonTree";
+import TagPicker from "./TagPicker";
+import { tagColor } from "../lib/tagColors";
+import { Bot, Clock, User, Trash2, StickyNote, GripVertical, GitBranch, ChevronDown, ChevronLeft, ChevronRight, Copy, Columns, RefreshCw, Square, Wrench, Braces, Paperclip, FileText, X, Tag } from "lucide-react";
+
+// Model choices are encoded as "provider|model" ("|" never appears in model names)
+const encodeModelChoice = (provider: string, model: string) => `${provider}|${model}`;
+const decodeModelChoice = (choice: string) => {
+  const [provider, model] = choice.split("|");
+  return { provider, model };
+};
+
+// Structured output is stored as JSON text; undefined when absent or unreadable
+const parseStructured = (parsed?: string): unknown => {
+  if (parsed === undefined) return undefined;
+  try {
+    return JSON.parse(parsed);
+  } catch (error) {
+    return undefined;
+  }
+};
 
 interface NodeData {
   _id: string;
-  type: "prompt" | "message" | "response" | "note" | "frame";
+  type: "prompt" | "message" | "response" | "note" | "frame" | "toolCall" | "toolResult";
   role?: "user" | "assistant";
   title?: string;
   content: string;
   collapsed: boolean;
   color?: string;
   position: { x: number; y: number };
+  attachments?: Array<{
+    storageId: string;
+    name: string;
+    mimeType: string;
+    size: number;
+  }>;
   meta: {
     model?: string;
     provider?: string;
@@ -21,13 +47,57 @@ interface NodeData {
       input: number;
       output: number;
     };
+    context?: {
+      included: string[];
+      truncated: string[];
+      summarized: string[];
+      dropped: string[];
+      estimatedTokens: number;
+      budget: number;
+    };
+    sources?: Array<{
+      url: string;
+      title: string;
+      at: number;
+    }>;
+    webSearch?: "off" | "auto" | "always";
+    outputSchema?: string;
+    structured?: {
+      parsed?: string;
+      valid: boolean;
+      errors?: string[];
+      attempts: number;
+    };
+    tool?: {
+      callId: string;
+      name: string;
+      isError?: boolean;
+    };
+    currentVersionId?: string;
+    status?: "generating" | "stopped" | "failed";
+    error?: string;
   };
   isSelected?: boolean;
   boardId?: string;
+  tags?: Array<{
+    _id: string;
+    name: string;
+    color: string;
+  }>;
 }
 
 export default function NodeCard({ data, selected }: NodeProps<NodeData>) {
   const [isGenerating, setIsGenerating] = useState(false);
+  const [showCompare, setShowCompare] = useState(false);
+  const [compareChoices, setCompareChoices] = useState<string[]>([]);
+  const [showSchema, setShowSchema] = useState(false);
+  const [schemaDraft, setSchemaDraft] = useState("");
+  const [schemaError, setSchemaError] = useState<string | null>(null);
+  const [showParsed, setShowParsed] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [showTags, setShowTags] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const nodeRef = useRef<HTMLDivElement>(null);
 
   const updateNode = useMutation(api.nodes.updateNode);
@@ -35,9 +105,41 @@ export default function NodeCard({ data, selected }: NodeProps<NodeData>) {
   const generateFromMessage = useMutation(api.nodes.generateFromMessage);
   const generateFromAssistant = useMutation(api.nodes.generateFromAssistant);
   const generateContinuation = useMutation(api.nodes.generateContinuation);
+  const generateFanOut = useMutation(api.nodes.generateFanOut);
+  const setNodeModel = useMutation(api.nodes.setNodeModel);
+  const setNodeWebSearch = useMutation(api.nodes.setNodeWebSearch);
+  const setNodeOutputSchema = useMutation(api.nodes.setNodeOutputSchema);
+  const generateUploadUrl = useMutation(api.attachments.generateUploadUrl);
+  const addAttachment = useMutation(api.attachments.addAttachment);
+  const removeAttachment = useMutation(api.attachments.removeAttachment);
+  const removeTagFromNode = useMutation(api.tags.removeTagFromNode);
+  const regenerateResponse = useMutation(api.nodes.regenerateResponse);
+  const selectResponseVersion = useMutation(api.versions.selectResponseVersion);
+  const cancelGeneration = useMutation(api.jobs.cancelGeneration);
   const createNode = useMutation(api.nodes.createNode);
   const createEdge = useMutation(api.edges.createEdge);
   const deleteEdge = useMutation(api.edges.deleteEdge);
+  const isMessageNode = data.type === "message" || data.type === "prompt";
+  const isToolNode = data.type === "toolCall" || data.type === "toolResult";
+  const providers = useQuery(api.providers.listProviders, isMessageNode ? {} : "skip");
+  const versions = useQuery(
+    api.versions.listResponseVersions,
+    data.type === "response" ? { nodeId: data._id as Id<"nodes"> } : "skip"
+  );
+  const versionIndex = versions?.findIndex((version) => version._id === data.meta?.currentVersionId) ?? -1;
+  const parsedOutput = parseStructured(data.meta?.structured?.parsed);
+  const attachments = useQuery(
+    api.attachments.listAttachments,
+    data.attachments && data.attachments.length > 0 ? { nodeId: data._id as Id<"nodes"> } : "skip"
+  );
+
+  // Every selectable provider/model pair (self-hosted providers offer their default model)
+  const modelChoices = (providers ?? []).flatMap((provider) =>
+    (provider.models.length > 0 ? provider.models : [{ id: provider.defaultModel, label: provider.defaultModel }]).map((model) => ({
+      value: encodeModelChoice(provider.id, model.id),
+      label: `${provider.label} · ${model.label}`,
+    }))
+  );
 
   const handleFormSubmit = useCallback(async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -139,6 +241,136 @@ export default function NodeCard({ data, selected }: NodeProps<NodeData>) {
     }
   }, [generateFromMessage, data.boardId, data._id]);
 
+  const handleModelChange = useCallback(async (choice: string) => {
+    try {
+      await setNodeModel({
+        nodeId: data._id as Id<"nodes">,
+        ...(choice ? decodeModelChoice(choice) : {}),
+      });
+    } catch (error) {
+      console.error("Failed to set model:", error);
+    }
+  }, [setNodeModel, data._id]);
+
+  const handleWebSearchChange = useCallback(async (webSearch: "off" | "auto" | "always") => {
+    try {
+      await setNodeWebSearch({ nodeId: data._id as Id<"nodes">, webSearch });
+    } catch (error) {
+      console.error("Failed to set web search:", error);
+    }
+  }, [setNodeWebSearch, data._id]);
+
+  const handleToggleSchema = useCallback(() => {
+    if (!showSchema) {
+      setSchemaDraft(data.meta?.outputSchema ?? "");
+      setSchemaError(null);
+    }
+    setShowSchema(!showSchema);
+  }, [showSchema, data.meta?.outputSchema]);
+
+  const handleSaveSchema = useCallback(async (outputSchema: string) => {
+    try {
+      const saved = await setNodeOutputSchema({ nodeId: data._id as Id<"nodes">, outputSchema });
+      setSchemaDraft(saved ?? "");
+      setSchemaError(null);
+      setShowSchema(false);
+    } catch (error) {
+      setSchemaError(error instanceof Error ? error.message : "Failed to save schema");
+    }
+  }, [setNodeOutputSchema, data._id]);
+
+  const handleAttachFiles = useCallback(async (files: FileList) => {
+    setIsUploading(true);
+    setAttachmentError(null);
+    try {
+      for (const file of Array.from(files)) {
+        const uploadUrl = await generateUploadUrl();
+        const response = await fetch(uploadUrl, {
+          method: "POST",
+          headers: { "Content-Type": file.type || "application/octet-stream" },
+          body: file,
+        });
+        if (!response.ok) {
+          throw new Error(`Upload of ${file.name} failed`);
+        }
+        const { storageId } = await response.json() as { storageId: Id<"_storage"> };
+        await addAttachment({ nodeId: data._id as Id<"nodes">, storageId, name: file.name });
+      }
+    } catch (error) {
+      setAttachmentError(error instanceof Error ? error.message : "Failed to attach file");
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+    }
+  }, [generateUploadUrl, addAttachment, data._id]);
+
+  const handleRemoveAttachment = useCallback(async (storageId: string) => {
+    try {
+      await removeAttachment({ nodeId: data._id as Id<"nodes">, storageId: storageId as Id<"_storage"> });
+    } catch (error) {
+      console.error("Failed to remove attachment:", error);
+    }
+  }, [removeAttachment, data._id]);
+
+  const handleCompare = useCallback(async () => {
+    if (!data.boardId || compareChoices.length === 0) return;
+
+    try {
+      setIsGenerating(true);
+      await generateFanOut({
+        boardId: data.boardId as Id<"boards">,
+        messageNodeId: data._id as Id<"nodes">,
+        targets: compareChoices.map(decodeModelChoice),
+      });
+      setShowCompare(false);
+      setCompareChoices([]);
+    } catch (error) {
+      console.error("Failed to generate comparison:", error);
+    } finally {
+      setIsGenerating(false);
+    }
+  }, [generateFanOut, data.boardId, data._id, compareChoices]);
+
+  const handleRegenerate = useCallback(async () => {
+    if (!data.boardId) return;
+
+    try {
+      setIsGenerating(true);
+      await regenerateResponse({
+        boardId: data.boardId as Id<"boards">,
+        responseNodeId: data._id as Id<"nodes">,
+      });
+    } catch (error) {
+      console.error("Failed to regenerate response:", error);
+    } finally {
+      setIsGenerating(false);
+    }
+  }, [regenerateResponse, data.boardId, data._id]);
+
+  const handleStop = useCallback(async () => {
+    try {
+      await cancelGeneration({ responseNodeId: data._id as Id<"nodes"> });
+    } catch (error) {
+      console.error("Failed to stop generation:", error);
+    }
+  }, [cancelGeneration, data._id]);
+
+  const handleSelectVersion = useCallback(async (index: number) => {
+    const version = versions?.[index];
+    if (!version) return;
+
+    try {
+      await selectResponseVersion({
+        nodeId: data._id as Id<"nodes">,
+        versionId: version._id,
+      });
+    } catch (error) {
+      console.error("Failed to switch version:", error);
+    }
+  }, [selectResponseVersion, versions, data._id]);
+
   const handleCopy = useCallback(async () => {
     try {
       await navigator.clipboard.writeText(data.content);
@@ -175,6 +407,8 @@ export default function NodeCard({ data, selected }: NodeProps<NodeData>) {
       case "message": return "border-blue-200 bg-blue-50";
       case "response": return "border-green-200 bg-green-50";
       case "frame": return "border-purple-200 bg-purple-50";
+      case "toolCall": return "border-amber-200 bg-amber-50";
+      case "toolResult": return data.meta?.tool?.isError ? "border-red-200 bg-red-50" : "border-amber-200 bg-amber-50";
       default: return "border-gray-200 bg-white";
     }
   };
@@ -194,6 +428,10 @@ export default function NodeCard({ data, selected }: NodeProps<NodeData>) {
     if (data.type === "prompt" || data.type === "message") {
       return "min-w-[450px] max-w-[600px]";
     }
+    // Tool calls and results sit side by side below their response
+    if (isToolNode) {
+      return "min-w-[320px] max-w-[380px]";
+    }
     // All other nodes (notes, responses) use the full doubled width
     return "min-w-[600px] max-w-[800px]";
   };
@@ -221,14 +459,52 @@ export default function NodeCard({ data, selected }: NodeProps<NodeData>) {
         <div className="flex items-center justify-between mb-3">
           {/* Left: Model chip */}
           <div className="flex items-center gap-2">
-            <div className="px-2 py-1 bg-gray-100 text-gray-600 text-xs rounded-md font-mono">
-              GPT-5
-            </div>
+            {isMessageNode ? (
+              <select
+                value={data.meta?.provider && data.meta?.model ? encodeModelChoice(data.meta.provider, data.meta.model) : ""}
+                onChange={(e) => void handleModelChange(e.target.value)}
+                onClick={(e) => e.stopPropagation()}
+                className="px-2 py-1 bg-gray-100 text-gray-600 text-xs rounded-md font-mono border-none outline-none"
+                title="Model for this message"
+              >
+                <option value="">Board default</option>
+                {modelChoices.map((choice) => (
+                  <option key={choice.value} value={choice.value}>{choice.label}</option>
+                ))}
+              </select>
+            ) : data.meta?.model ? (
+              <div className="px-2 py-1 bg-gray-100 text-gray-600 text-xs rounded-md font-mono">
+                {data.meta.model}
+              </div>
+            ) : null}
+            {isMessageNode && (
+              <select
+                value={data.meta?.webSearch ?? "auto"}
+                onChange={(e) => void handleWebSearchChange(e.target.value as "off" | "auto" | "always")}
+                onClick={(e) => e.stopPropagation()}
+                className="px-2 py-1 bg-gray-100 text-gray-600 text-xs rounded-md border-none outline-none"
+                title="Web search for this message"
+              >
+                <option value="auto">Search: board default</option>
+                <option value="always">Search: on</option>
+                <option value="off">Search: off</option>
+              </select>
+            )}
             {data.type === "note" ? (
               <>
                 <StickyNote className={`w-3 h-3 ${data.color === "red" ? "text-red-600" : data.color === "blue" ? "text-blue-600" : "text-yellow-600"}`} />
                 <span className={`text-xs font-medium ${data.color === "red" ? "text-red-700" : data.color === "blue" ? "text-blue-700" : "text-yellow-700"}`}>Note</span>
               </>
+            ) : isToolNode ? (
+              <>
+                <Wrench className={`w-3 h-3 ${data.meta?.tool?.isError ? "text-red-600" : "text-amber-600"}`} />
+                <span className={`text-xs font-medium ${data.meta?.tool?.isError ? "text-red-700" : "text-amber-700"}`}>
+                  {data.type === "toolCall" ? "Tool call" : data.meta?.tool?.isError ? "Tool error" : "Tool result"}
+                </span>
+                <span className="px-2 py-0.5 bg-white/70 text-gray-600 text-xs rounded font-mono">
+                  {data.meta?.tool?.name ?? data.title}
+                </span>
+              </>
             ) : data.role === "assistant" ? (
               <>
                 <Bot className="w-3 h-3 text-green-600" />
@@ -254,6 +530,94 @@ export default function NodeCard({ data, selected }: NodeProps<NodeData>) {
           
           {/* Right: 3 icons */}
           <div className="flex items-center gap-1">
+            {/* Version switcher - only once a response has been regenerated */}
+            {versions && versions.length > 1 && (
+              <div className="flex items-center text-xs text-gray-500 mr-1" title="Response versions">
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    void handleSelectVersion(versionIndex - 1);
+                  }}
+                  disabled={versionIndex <= 0}
+                  className="p-1 hover:bg-gray-100 rounded disabled:opacity-30"
+                  title="Previous version"
+                >
+                  <ChevronLeft className="w-3 h-3" />
+                </button>
+                <span className="font-mono">
+                  {versionIndex >= 0 ? versionIndex + 1 : "–"}/{versions.length}
+                </span>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    void handleSelectVersion(versionIndex + 1);
+                  }}
+                  disabled={versionIndex < 0 || versionIndex >= versions.length - 1}
+                  className="p-1 hover:bg-gray-100 rounded disabled:opacity-30"
+                  title="Next version"
+                >
+                  <ChevronRight className="w-3 h-3" />
+                </button>
+              </div>
+            )}
+
+            {/* Attach files - only for message nodes */}
+            {isMessageNode && (
+              <>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  accept="image/png,image/jpeg,image/gif,image/webp,application/pdf,text/plain,text/markdown,text/csv,application/json,.md,.txt,.csv,.json"
+                  className="hidden"
+                  onChange={(e) => {
+                    if (e.target.files && e.target.files.length > 0) {
+                      void handleAttachFiles(e.target.files);
+                    }
+                  }}
+                />
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    fileInputRef.current?.click();
+                  }}
+                  disabled={isUploading}
+                  className="p-1 hover:bg-gray-100 rounded text-gray-400 hover:text-blue-600 disabled:opacity-50 transition-colors"
+                  title="Attach images or files"
+                >
+                  <Paperclip className={`w-3 h-3 ${isUploading ? "animate-pulse" : ""}`} />
+                </button>
+              </>
+            )}
+
+            {/* Output schema - only for message nodes */}
+            {isMessageNode && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleToggleSchema();
+                }}
+                className={`p-1 hover:bg-gray-100 rounded transition-colors ${data.meta?.outputSchema ? "text-blue-600" : "text-gray-400 hover:text-blue-600"}`}
+                title={data.meta?.outputSchema ? "Edit output schema" : "Require JSON output matching a schema"}
+              >
+                <Braces className="w-3 h-3" />
+              </button>
+            )}
+
+            {/* Tags */}
+            {data.boardId && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setShowTags(!showTags);
+                }}
+                className={`p-1 hover:bg-gray-100 rounded transition-colors ${showTags ? "text-indigo-600" : "text-gray-400 hover:text-indigo-600"}`}
+                title="Tags"
+              >
+                <Tag className="w-3 h-3" />
+              </button>
+            )}
+
             {/* Copy button - only for assistant nodes */}
             {(data.role === "assistant" || data.type === "response") && (
               <button
@@ -294,6 +658,38 @@ export default function NodeCard({ data, selected }: NodeProps<NodeData>) {
           </div>
         </div>
         
+        {showTags && data.boardId && (
+          <TagPicker
+            boardId={data.boardId as Id<"boards">}
+            nodeId={data._id as Id<"nodes">}
+            assignedTagIds={(data.tags ?? []).map((tag) => tag._id)}
+          />
+        )}
+
+        {/* Tag chips */}
+        {data.tags && data.tags.length > 0 && (
+          <div className="mb-3 flex flex-wrap gap-1">
+            {data.tags.map((tag) => (
+              <span
+                key={tag._id}
+                className={`group inline-flex items-center gap-1 px-2 py-0.5 text-xs border rounded-full ${tagColor(tag.color).chip}`}
+              >
+                {tag.name}
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    void removeTagFromNode({ nodeId: data._id as Id<"nodes">, tagId: tag._id as Id<"tags"> });
+                  }}
+                  className="hidden group-hover:inline opacity-60 hover:opacity-100"
+                  title="Remove tag"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+
         {/* Color picker for sticky notes */}
         {data.type === "note" && (
           <div className="mb-3 flex gap-2">
@@ -339,27 +735,34 @@ export default function NodeCard({ data, selected }: NodeProps<NodeData>) {
           </div>
         )}
         
-        {/* Textarea that looks like regular text */}
-        <form onSubmit={handleFormSubmit}>
-          <textarea
-            name="content"
-            data-node-id={data._id}
-            defaultValue={data.content}
-            onChange={(e) => {
-              // Auto-resize
-              const target = e.target;
-              target.style.height = 'auto';
-              target.style.height = Math.max(60, target.scrollHeight) + 'px';
-            }}
-            onBlur={handleBlur}
-            className="w-full px-0 py-0 text-sm bg-transparent border-none outline-none resize-none overflow-hidden min-h-[60px] focus:outline-none"
-            placeholder={getPlaceholder()}
-            style={{
-              minHeight: '60px',
-              height: 'auto',
-            }}
-          />
-        </form>
+        {/* Tool input/output is a record of what happened, so it is read-only;
+            everything else edits in a textarea that looks like regular text */}
+        {isToolNode ? (
+          <pre className="text-xs font-mono whitespace-pre-wrap break-words text-gray-700 max-h-[200px] overflow-y-auto">
+            {data.content}
+          </pre>
+        ) : (
+          <form onSubmit={(e) => void handleFormSubmit(e)}>
+            <textarea
+              name="content"
+              data-node-id={data._id}
+              defaultValue={data.content}
+              onChange={(e) => {
+                // Auto-resize
+                const target = e.target;
+                target.style.height = 'auto';
+                target.style.height = Math.max(60, target.scrollHeight) + 'px';
+              }}
+              onBlur={(e) => void handleBlur(e)}
+              className="w-full px-0 py-0 text-sm bg-transparent border-none outline-none resize-none overflow-hidden min-h-[60px] focus:outline-none"
+              placeholder={getPlaceholder()}
+              style={{
+                minHeight: '60px',
+                height: 'auto',
+              }}
+            />
+          </form>
+        )}
 
         {/* Token count */}
         {data.meta?.tokens && (
@@ -368,6 +771,184 @@ export default function NodeCard({ data, selected }: NodeProps<NodeData>) {
           </div>
         )}
 
+        {/* Attachments */}
+        {attachments && attachments.length > 0 && (
+          <div className="mt-2 flex flex-wrap gap-2" onClick={(e) => e.stopPropagation()}>
+            {attachments.map((attachment) => (
+              <div key={attachment.storageId} className="relative group" title={`${attachment.name} (${Math.ceil(attachment.size / 1024)}KB)`}>
+                {attachment.kind === "image" && attachment.url ? (
+                  <a href={attachment.url} target="_blank" rel="noopener noreferrer">
+                    <img
+                      src={attachment.url}
+                      alt={attachment.name}
+                      className="w-16 h-16 object-cover rounded border border-gray-200"
+                    />
+                  </a>
+                ) : (
+                  <a
+                    href={attachment.url ?? undefined}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="w-16 h-16 flex flex-col items-center justify-center gap-1 rounded border border-gray-200 bg-gray-50 text-gray-500 hover:text-blue-600"
+                  >
+                    <FileText className="w-5 h-5" />
+                    <span className="text-[10px] w-14 truncate text-center">{attachment.name}</span>
+                  </a>
+                )}
+                {isMessageNode && (
+                  <button
+                    onClick={() => void handleRemoveAttachment(attachment.storageId)}
+                    className="absolute -top-1.5 -right-1.5 hidden group-hover:flex w-4 h-4 items-center justify-center rounded-full bg-white border border-gray-300 text-gray-500 hover:text-red-600"
+                    title="Remove attachment"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        {attachmentError && (
+          <div className="mt-1 text-xs text-red-600">{attachmentError}</div>
+        )}
+
+        {/* Output schema editor */}
+        {isMessageNode && showSchema && (
+          <div className="mt-3 p-3 border border-gray-200 rounded-md bg-white" onClick={(e) => e.stopPropagation()}>
+            <div className="text-xs font-medium text-gray-600 mb-2">JSON schema the response must follow</div>
+            <textarea
+              value={schemaDraft}
+              onChange={(e) => setSchemaDraft(e.target.value)}
+              className="w-full h-32 p-2 text-xs font-mono border border-gray-200 rounded resize-y outline-none focus:border-blue-400"
+              placeholder={'{\n  "type": "object",\n  "properties": { "answer": { "type": "string" } },\n  "required": ["answer"]\n}'}
+            />
+            {schemaError && (
+              <div className="mt-1 text-xs text-red-600">{schemaError}</div>
+            )}
+            <div className="mt-2 flex justify-end gap-2">
+              {data.meta?.outputSchema && (
+                <button
+                  onClick={() => void handleSaveSchema("")}
+                  className="px-3 py-1 text-xs text-gray-600 hover:bg-gray-100 rounded transition-colors"
+                >
+                  Remove
+                </button>
+              )}
+              <button
+                onClick={() => void handleSaveSchema(schemaDraft)}
+                className="px-3 py-1 text-xs bg-blue-600 text-white hover:bg-blue-700 rounded transition-colors"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Structured output */}
+        {data.meta?.structured && (
+          <div className="mt-2 border-t border-gray-100 pt-2">
+            <div className="flex items-center justify-between mb-1">
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setShowParsed(!showParsed);
+                }}
+                className="flex items-center gap-1 text-xs font-medium text-gray-500 hover:text-gray-700"
+              >
+                <ChevronDown className={`w-3 h-3 transition-transform ${showParsed ? "" : "-rotate-90"}`} />
+                Parsed JSON
+              </button>
+              <span
+                className={`text-xs ${data.meta.structured.valid ? "text-green-600" : "text-red-600"}`}
+                title={`${data.meta.structured.attempts} attempt${data.meta.structured.attempts === 1 ? "" : "s"}`}
+              >
+                {data.meta.structured.valid ? "Matches schema" : "Did not match schema"}
+                {data.meta.structured.attempts > 1 && ` · ${data.meta.structured.attempts} attempts`}
+              </span>
+            </div>
+            {!data.meta.structured.valid && data.meta.structured.errors && (
+              <ul className="mb-1 text-xs text-red-600 list-disc pl-4">
+                {data.meta.structured.errors.map((error, index) => (
+                  <li key={index}>{error}</li>
+                ))}
+              </ul>
+            )}
+            {showParsed && (
+              parsedOutput !== undefined ? (
+                <div className="text-xs font-mono max-h-[240px] overflow-y-auto">
+                  <JsonTree value={parsedOutput} />
+                </div>
+              ) : (
+                <div className="text-xs text-gray-400">No JSON found in the response</div>
+              )
+            )}
+          </div>
+        )}
+
+        {/* Web search citations */}
+        {data.meta?.sources && data.meta.sources.length > 0 && (
+          <div className="mt-2 border-t border-gray-100 pt-2">
+            <div className="text-xs font-medium text-gray-500 mb-1">Sources</div>
+            <ol className="space-y-0.5">
+              {data.meta.sources.map((source, index) => (
+                <li key={`${source.url}-${index}`} className="text-xs text-gray-600 truncate">
+                  <span className="text-gray-400">[{index + 1}]</span>{" "}
+                  <a
+                    href={source.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    onClick={(e) => e.stopPropagation()}
+                    className="text-blue-600 hover:underline"
+                    title={source.url}
+                  >
+                    {source.title || source.url}
+                  </a>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
+        {/* Generation state */}
+        {data.meta?.status === "generating" && (
+          <div className="mt-2 flex items-center gap-2 text-xs text-gray-500">
+            <Clock className="w-3 h-3 animate-spin" />
+            <span>Generating...</span>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                void handleStop();
+              }}
+              className="px-2 py-0.5 border border-gray-300 rounded text-gray-600 hover:bg-gray-100 flex items-center gap-1"
+              title="Stop generating"
+            >
+              <Square className="w-3 h-3" />
+              stop
+            </button>
+          </div>
+        )}
+        {data.meta?.status === "stopped" && (
+          <div className="mt-2 text-xs text-amber-600">Stopped before completion</div>
+        )}
+        {data.meta?.status === "failed" && (
+          <div className="mt-2 text-xs text-red-600">
+            Generation failed{data.meta.error ? `: ${data.meta.error}` : ""}
+          </div>
+        )}
+
+        {/* What the model saw */}
+        {data.meta?.context && (
+          <div
+            className="mt-1 text-xs text-gray-400"
+            title={`~${data.meta.context.estimatedTokens} of ${data.meta.context.budget} prompt tokens`}
+          >
+            Context: {data.meta.context.included.length} nodes
+            {data.meta.context.truncated.length > 0 && ` · ${data.meta.context.truncated.length} truncated`}
+            {data.meta.context.summarized.length > 0 && ` · ${data.meta.context.summarized.length} summarized`}
+            {data.meta.context.dropped.length > 0 && ` · ${data.meta.context.dropped.length} omitted`}
+          </div>
+        )}
+
         {/* Generate button - for user nodes and message/prompt types, but not notes */}
         {(data.role === "user" || data.type === "message" || data.type === "prompt") && data.type !== "note" && (
           <div className="mt-3 flex justify-center">
@@ -389,6 +970,48 @@ export default function NodeCard({ data, selected }: NodeProps<NodeData>) {
                 </>
               )}
             </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                setShowCompare(!showCompare);
+              }}
+              disabled={isGenerating}
+              className="ml-2 px-3 py-2 text-sm text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-md disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
+              title="Compare models side by side"
+            >
+              <Columns className="w-4 h-4" />
+              Compare
+            </button>
+          </div>
+        )}
+
+        {/* Model comparison picker */}
+        {isMessageNode && showCompare && (
+          <div className="mt-3 p-3 border border-gray-200 rounded-md bg-white" onClick={(e) => e.stopPropagation()}>
+            <div className="text-xs font-medium text-gray-600 mb-2">Generate one branch per model</div>
+            <div className="grid grid-cols-2 gap-1 max-h-40 overflow-y-auto">
+              {modelChoices.map((choice) => (
+                <label key={choice.value} className="flex items-center gap-2 text-xs text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={compareChoices.includes(choice.value)}
+                    onChange={(e) => setCompareChoices(e.target.checked
+                      ? [...compareChoices, choice.value]
+                      : compareChoices.filter((value) => value !== choice.value))}
+                  />
+                  {choice.label}
+                </label>
+              ))}
+            </div>
+            <div className="mt-2 flex justify-end">
+              <button
+                onClick={() => void handleCompare()}
+                disabled={isGenerating || compareChoices.length === 0}
+                className="px-3 py-1 text-xs bg-green-600 text-white hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed rounded transition-colors"
+              >
+                Run {compareChoices.length} model{compareChoices.length === 1 ? "" : "s"}
+              </button>
+            </div>
           </div>
         )}
 
@@ -406,6 +1029,21 @@ export default function NodeCard({ data, selected }: NodeProps<NodeData>) {
               <span>+</span>
               <span>add prompt</span>
             </button>
+
+            {data.type === "response" && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  void handleRegenerate();
+                }}
+                disabled={isGenerating}
+                className="px-3 py-1 text-xs text-gray-500 hover:text-gray-700 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed rounded transition-colors flex items-center gap-1"
+                title="Generate a new version of this response"
+              >
+                <RefreshCw className={`w-3 h-3 ${isGenerating ? "animate-spin" : ""}`} />
+                <span>regenerate</span>
+              </button>
+            )}
             
             {/* Continuation button - only show if response ends with CONTINUE? */}
             {data.content.trim().endsWith("CONTINUE?") && (
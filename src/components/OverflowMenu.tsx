@@ -1,8 +1,9 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useMutation, useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { Id } from "../../convex/_generated/dataModel";
 import { toast } from "sonner";
+import { importSummary } from "../lib/importSummary";
 
 interface OverflowMenuProps {
   boardId: string;
@@ -11,6 +12,7 @@ interface OverflowMenuProps {
 export default function OverflowMenu({ boardId }: OverflowMenuProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [showApiKeys, setShowApiKeys] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
   const [showClearConfirm, setShowClearConfirm] = useState(false);
 
   const exportMarkdown = useQuery(api.exports.exportMarkdown, 
@@ -19,7 +21,9 @@ export default function OverflowMenu({ boardId }: OverflowMenuProps) {
   const exportJson = useQuery(api.exports.exportJson, 
     { boardId: boardId as Id<"boards"> }
   );
-  const clearBoard = useMutation(api.exports.clearBoard);
+  const clearBoard = useMutation(api.boards.clearBoard);
+  const importBoardJson = useMutation(api.imports.importBoardJson);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   const handleExportMarkdown = () => {
     if (exportMarkdown) {
@@ -78,6 +82,19 @@ export default function OverflowMenu({ boardId }: OverflowMenuProps) {
     setIsOpen(false);
   };
 
+  // Add the nodes of an exported board next to this board's content
+  const handleImportJson = async (file: File) => {
+    try {
+      const report = await importBoardJson({ json: await file.text(), boardId: boardId as Id<"boards"> });
+      if (report.skippedCount > 0) {
+        console.warn("Skipped during import:", report.skipped);
+      }
+      toast.success(importSummary(report));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to import JSON");
+    }
+  };
+
   return (
     <div className="relative">
       <button
@@ -96,6 +113,12 @@ export default function OverflowMenu({ boardId }: OverflowMenuProps) {
             >
               API Keys
             </button>
+            <button
+              onClick={() => setShowSettings(true)}
+              className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+            >
+              Board Settings
+            </button>
             <button
               onClick={handleExportMarkdown}
               className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
@@ -108,6 +131,15 @@ export default function OverflowMenu({ boardId }: OverflowMenuProps) {
             >
               Export JSON
             </button>
+            <button
+              onClick={() => {
+                importInputRef.current?.click();
+                setIsOpen(false);
+              }}
+              className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+            >
+              Import JSON
+            </button>
             <div className="border-t border-gray-100 my-1"></div>
             <button
               onClick={() => setShowClearConfirm(true)}
@@ -119,8 +151,24 @@ export default function OverflowMenu({ boardId }: OverflowMenuProps) {
         </div>
       )}
 
+      <input
+        ref={importInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = "";
+          if (file) void handleImportJson(file);
+        }}
+      />
+
       {showApiKeys && (
-        <ApiKeysModal onClose={() => setShowApiKeys(false)} />
+        <ApiKeysModal boardId={boardId} onClose={() => setShowApiKeys(false)} />
+      )}
+
+      {showSettings && (
+        <BoardSettingsModal boardId={boardId} onClose={() => setShowSettings(false)} />
       )}
 
       {showClearConfirm && (
@@ -138,6 +186,9 @@ export default function OverflowMenu({ boardId }: OverflowMenuProps) {
                     const result = await clearBoard({ boardId: boardId as Id<"boards"> });
                     console.log("Clear board result:", result);
                     toast.success(`Board cleared successfully! Removed ${result.deleted.nodes} nodes, ${result.deleted.edges} edges, ${result.deleted.tags} tags, and ${result.deleted.nodeTags} node tags.`);
+                    if (result.snapshot.snapshotId === null && result.snapshot.skipped === "tooLarge") {
+                      toast.warning("The board was too large to snapshot, so clearing it can't be undone");
+                    }
                     setShowClearConfirm(false);
                   } catch (error) {
                     console.error("Failed to clear board:", error);
@@ -171,19 +222,32 @@ export default function OverflowMenu({ boardId }: OverflowMenuProps) {
   );
 }
 
-function ApiKeysModal({ onClose }: { onClose: () => void }) {
-  const [provider, setProvider] = useState<"openai" | "anthropic" | "google">("openai");
+function ApiKeysModal({ boardId, onClose }: { boardId: string; onClose: () => void }) {
+  const [provider, setProvider] = useState<"openai" | "anthropic" | "google" | "local">("openai");
   const [nickname, setNickname] = useState("");
   const [secret, setSecret] = useState("");
+  const [endpoint, setEndpoint] = useState("");
   const [isAdding, setIsAdding] = useState(false);
 
   const apiKeys = useQuery(api.keys.listApiKeys);
   const addApiKey = useMutation(api.keys.addApiKey);
   const revokeApiKey = useMutation(api.keys.revokeApiKey);
+  const board = useQuery(api.boards.getBoard, { boardId: boardId as Id<"boards"> });
+  const updateBoardMeta = useMutation(api.boards.updateBoardMeta);
+
+  const handleSetDefault = async (keyId: Id<"apiKeys"> | null) => {
+    try {
+      await updateBoardMeta({ boardId: boardId as Id<"boards">, defaultApiKeyId: keyId });
+      toast.success(keyId ? "Board default key updated" : "Board default key cleared");
+    } catch (error) {
+      toast.error("Failed to update board default key");
+    }
+  };
 
   const handleAddKey = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!nickname.trim() || !secret.trim()) return;
+    if (!nickname.trim()) return;
+    if (provider === "local" ? !endpoint.trim() : !secret.trim()) return;
 
     try {
       setIsAdding(true);
@@ -191,9 +255,11 @@ function ApiKeysModal({ onClose }: { onClose: () => void }) {
         provider,
         nickname: nickname.trim(),
         secret: secret.trim(),
+        endpoint: provider === "local" ? endpoint.trim() : undefined,
       });
       setNickname("");
       setSecret("");
+      setEndpoint("");
       toast.success("API key added successfully");
     } catch (error) {
       toast.error("Failed to add API key");
@@ -230,8 +296,23 @@ function ApiKeysModal({ onClose }: { onClose: () => void }) {
                 <option value="openai">OpenAI</option>
                 <option value="anthropic">Anthropic</option>
                 <option value="google">Google</option>
+                <option value="local">OpenAI-compatible (self-hosted)</option>
               </select>
             </div>
+            {provider === "local" && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Endpoint
+                </label>
+                <input
+                  type="url"
+                  value={endpoint}
+                  onChange={(e) => setEndpoint(e.target.value)}
+                  placeholder="http://localhost:11434/v1"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              </div>
+            )}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Nickname
@@ -252,13 +333,13 @@ function ApiKeysModal({ onClose }: { onClose: () => void }) {
                 type="password"
                 value={secret}
                 onChange={(e) => setSecret(e.target.value)}
-                placeholder="sk-..."
+                placeholder={provider === "local" ? "Optional" : "sk-..."}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
               />
             </div>
             <button
               type="submit"
-              disabled={isAdding || !nickname.trim() || !secret.trim()}
+              disabled={isAdding || !nickname.trim() || (provider === "local" ? !endpoint.trim() : !secret.trim())}
               className="w-full bg-indigo-600 text-white py-2 rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {isAdding ? "Adding..." : "Add API Key"}
@@ -280,15 +361,33 @@ function ApiKeysModal({ onClose }: { onClose: () => void }) {
                   <div>
                     <div className="font-medium">{key.nickname}</div>
                     <div className="text-sm text-gray-500">
-                      {key.provider} • ****{key.last4}
+                      {key.provider} • {key.endpoint ?? `****${key.last4}`}
                     </div>
                   </div>
-                  <button
-                    onClick={() => revokeApiKey({ keyId: key._id })}
-                    className="text-red-600 hover:text-red-700 text-sm"
-                  >
-                    Revoke
-                  </button>
+                  <div className="flex items-center gap-3">
+                    {board?.defaultApiKeyId === key._id ? (
+                      <button
+                        onClick={() => void handleSetDefault(null)}
+                        className="text-indigo-600 hover:text-indigo-700 text-sm font-medium"
+                        title="Used for generation on this board"
+                      >
+                        Board default
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => void handleSetDefault(key._id)}
+                        className="text-gray-500 hover:text-gray-700 text-sm"
+                      >
+                        Use for this board
+                      </button>
+                    )}
+                    <button
+                      onClick={() => void revokeApiKey({ keyId: key._id })}
+                      className="text-red-600 hover:text-red-700 text-sm"
+                    >
+                      Revoke
+                    </button>
+                  </div>
                 </div>
               ))}
             </div>
@@ -298,3 +397,249 @@ function ApiKeysModal({ onClose }: { onClose: () => void }) {
     </div>
   );
 }
+
+function BoardSettingsModal({ boardId, onClose }: { boardId: string; onClose: () => void }) {
+  const settings = useQuery(api.boards.getBoardSettings, { boardId: boardId as Id<"boards"> });
+  const providers = useQuery(api.providers.listProviders);
+  const updateBoardSettings = useMutation(api.boards.updateBoardSettings);
+
+  if (settings === undefined || providers === undefined) {
+    return (
+      <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+        <div className="bg-white rounded-lg p-6 text-sm text-gray-500">Loading settings...</div>
+      </div>
+    );
+  }
+
+  return (
+    <BoardSettingsForm
+      initial={settings}
+      providers={providers}
+      onSave={async (next) => {
+        try {
+          await updateBoardSettings({ boardId: boardId as Id<"boards">, settings: next });
+          toast.success("Board settings saved");
+          onClose();
+        } catch (error) {
+          toast.error(error instanceof Error ? error.message : "Failed to save board settings");
+        }
+      }}
+      onClose={onClose}
+    />
+  );
+}
+
+type BoardSettingsValues = {
+  systemPrompt?: string;
+  defaultProvider?: string;
+  defaultModel?: string;
+  temperature?: number;
+  maxTokens?: number;
+  webSearch?: "off" | "auto" | "always";
+  tools?: boolean;
+};
+
+type ProviderOption = {
+  id: string;
+  label: string;
+  defaultModel: string;
+  allowsCustomModels: boolean;
+  models: { id: string; label: string }[];
+};
+
+function BoardSettingsForm({
+  initial,
+  providers,
+  onSave,
+  onClose,
+}: {
+  initial: BoardSettingsValues;
+  providers: ProviderOption[];
+  onSave: (settings: BoardSettingsValues) => Promise<void>;
+  onClose: () => void;
+}) {
+  const [systemPrompt, setSystemPrompt] = useState(initial.systemPrompt ?? "");
+  const [provider, setProvider] = useState(initial.defaultProvider ?? "");
+  const [model, setModel] = useState(initial.defaultModel ?? "");
+  const [temperature, setTemperature] = useState(initial.temperature?.toString() ?? "");
+  const [maxTokens, setMaxTokens] = useState(initial.maxTokens?.toString() ?? "");
+  const [webSearch, setWebSearch] = useState(initial.webSearch ?? "auto");
+  const [tools, setTools] = useState(initial.tools ?? false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selectedProvider = providers.find((p) => p.id === provider);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    await onSave({
+      systemPrompt: systemPrompt.trim() || undefined,
+      defaultProvider: provider || undefined,
+      defaultModel: provider && model.trim() ? model.trim() : undefined,
+      temperature: temperature === "" ? undefined : Number(temperature),
+      maxTokens: maxTokens === "" ? undefined : Number(maxTokens),
+      webSearch,
+      tools,
+    });
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-[80vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-lg font-semibold">Board Settings</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            ✕
+          </button>
+        </div>
+
+        <form onSubmit={(e) => void handleSubmit(e)} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              System prompt
+            </label>
+            <textarea
+              value={systemPrompt}
+              onChange={(e) => setSystemPrompt(e.target.value)}
+              rows={4}
+              placeholder="You are a helpful assistant..."
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Default provider
+              </label>
+              <select
+                value={provider}
+                onChange={(e) => {
+                  setProvider(e.target.value);
+                  setModel("");
+                }}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="">Board API key / system default</option>
+                {providers.map((p) => (
+                  <option key={p.id} value={p.id}>{p.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Default model
+              </label>
+              {selectedProvider?.allowsCustomModels ? (
+                <input
+                  type="text"
+                  value={model}
+                  onChange={(e) => setModel(e.target.value)}
+                  placeholder={selectedProvider.defaultModel}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              ) : (
+                <select
+                  value={model}
+                  onChange={(e) => setModel(e.target.value)}
+                  disabled={!selectedProvider}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:bg-gray-50"
+                >
+                  <option value="">
+                    {selectedProvider ? `Provider default (${selectedProvider.defaultModel})` : "Provider default"}
+                  </option>
+                  {selectedProvider?.models.map((m) => (
+                    <option key={m.id} value={m.id}>{m.label}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Temperature
+              </label>
+              <input
+                type="number"
+                min={0}
+                max={2}
+                step={0.1}
+                value={temperature}
+                onChange={(e) => setTemperature(e.target.value)}
+                placeholder="0.7"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Max tokens
+              </label>
+              <input
+                type="number"
+                min={1}
+                max={100000}
+                step={1}
+                value={maxTokens}
+                onChange={(e) => setMaxTokens(e.target.value)}
+                placeholder="4000"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Web search
+              </label>
+              <select
+                value={webSearch}
+                onChange={(e) => setWebSearch(e.target.value as "off" | "auto" | "always")}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="auto">Per message (off unless a message turns it on)</option>
+                <option value="always">Always (unless a message turns it off)</option>
+                <option value="off">Off (never search)</option>
+              </select>
+            </div>
+          </div>
+
+          <label className="flex items-start gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={tools}
+              onChange={(e) => setTools(e.target.checked)}
+              className="mt-1"
+            />
+            <span>
+              Allow tools
+              <span className="block text-xs text-gray-500">
+                Responses may read other nodes, create notes and compute. Tool calls appear on the board; responses that use tools are not streamed.
+              </span>
+            </span>
+          </label>
+
+          <div className="flex gap-2 pt-2">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="flex-1 bg-indigo-600 text-white py-2 rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? "Saving..." : "Save"}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 bg-gray-200 text-gray-800 py-2 rounded-md hover:bg-gray-300"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
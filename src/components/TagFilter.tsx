@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { Check, Pencil, Tag, Trash2 } from "lucide-react";
+import { TAG_COLORS, tagColor } from "../lib/tagColors";
+import { useBoardState } from "../state/useBoardState";
+
+interface TagFilterProps {
+  boardId: string;
+}
+
+const colorNames = Object.keys(TAG_COLORS);
+
+// Filter the canvas by tag, and rename, recolor or delete the board's tags
+export default function TagFilter({ boardId }: TagFilterProps) {
+  const tags = useQuery(api.tags.listTags, { boardId: boardId as Id<"boards"> });
+  const renameTag = useMutation(api.tags.renameTag);
+  const recolorTag = useMutation(api.tags.recolorTag);
+  const deleteTag = useMutation(api.tags.deleteTag);
+  const { tagFilter, tagFilterMode, toggleTagFilter, setTagFilterMode, clearTagFilter } = useBoardState();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const activeCount = tagFilter.filter((tagId) => tags?.some((tag) => tag._id === tagId)).length;
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to update tag");
+    }
+  };
+
+  const handleRename = async (tagId: Id<"tags">) => {
+    await run(() => renameTag({ tagId, name: editName }));
+    setEditingId(null);
+  };
+
+  // Clicking a tag's dot moves it to the next color
+  const handleRecolor = (tagId: Id<"tags">, color: string) => {
+    const next = colorNames[(colorNames.indexOf(color) + 1) % colorNames.length];
+    void run(() => recolorTag({ tagId, color: next }));
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-1 p-2 rounded-md hover:bg-gray-100 ${
+          activeCount > 0 ? "text-indigo-600" : "text-gray-600 hover:text-gray-900"
+        }`}
+        title="Filter by tag"
+      >
+        <Tag size={16} />
+        {activeCount > 0 && <span className="text-xs font-medium">{activeCount}</span>}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 p-2 bg-white border border-gray-200 rounded-md shadow-lg z-20">
+          <div className="flex items-center justify-between px-2 pb-2 border-b border-gray-100">
+            <div className="flex text-xs border border-gray-200 rounded overflow-hidden">
+              {(["dim", "hide"] as const).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => setTagFilterMode(mode)}
+                  className={`px-2 py-1 ${tagFilterMode === mode ? "bg-indigo-600 text-white" : "text-gray-600 hover:bg-gray-100"}`}
+                >
+                  {mode === "dim" ? "Dim others" : "Hide others"}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={clearTagFilter}
+              disabled={activeCount === 0}
+              className="text-xs text-gray-500 hover:text-gray-700 disabled:opacity-50"
+            >
+              Clear
+            </button>
+          </div>
+
+          <div className="mt-1 max-h-64 overflow-y-auto">
+            {tags === undefined ? (
+              <div className="px-2 py-1 text-xs text-gray-400">Loading...</div>
+            ) : tags.length === 0 ? (
+              <div className="px-2 py-1 text-xs text-gray-400">No tags yet. Add them from a node's tag button.</div>
+            ) : (
+              tags.map((tag) => (
+                <div key={tag._id} className="group flex items-center gap-2 px-2 py-1 rounded hover:bg-gray-50">
+                  <button
+                    onClick={() => handleRecolor(tag._id, tag.color)}
+                    className={`w-3 h-3 rounded-full ${tagColor(tag.color).dot}`}
+                    title="Change color"
+                  />
+                  {editingId === tag._id ? (
+                    <input
+                      autoFocus
+                      value={editName}
+                      onChange={(e) => setEditName(e.target.value)}
+                      onBlur={() => void handleRename(tag._id)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") void handleRename(tag._id);
+                        if (e.key === "Escape") setEditingId(null);
+                      }}
+                      className="flex-1 min-w-0 px-1 text-sm border border-gray-200 rounded outline-none focus:border-indigo-400"
+                    />
+                  ) : (
+                    <button
+                      onClick={() => toggleTagFilter(tag._id)}
+                      className="flex-1 min-w-0 flex items-center gap-2 text-sm text-left"
+                    >
+                      <span className="flex-1 truncate">{tag.name}</span>
+                      {tagFilter.includes(tag._id) && <Check className="w-3 h-3 text-indigo-600" />}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => {
+                      setEditingId(tag._id);
+                      setEditName(tag.name);
+                    }}
+                    className="p-0.5 text-gray-400 hover:text-gray-600 opacity-0 group-hover:opacity-100"
+                    title="Rename tag"
+                  >
+                    <Pencil className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={() => void run(() => deleteTag({ tagId: tag._id }))}
+                    className="p-0.5 text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100"
+                    title="Delete tag from the board"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+          {error && <div className="px-2 pt-1 text-xs text-red-600">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
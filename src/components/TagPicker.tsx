@@ -0,0 +1,96 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { Check, Plus } from "lucide-react";
+import { tagColor } from "../lib/tagColors";
+
+interface TagPickerProps {
+  boardId: Id<"boards">;
+  nodeId: Id<"nodes">;
+  assignedTagIds: string[];
+}
+
+// Assign board tags to a node, or create a new tag and assign it
+export default function TagPicker({ boardId, nodeId, assignedTagIds }: TagPickerProps) {
+  const tags = useQuery(api.tags.listTags, { boardId });
+  const createTag = useMutation(api.tags.createTag);
+  const addTagToNode = useMutation(api.tags.addTagToNode);
+  const removeTagFromNode = useMutation(api.tags.removeTagFromNode);
+
+  const [newName, setNewName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleToggle = async (tagId: Id<"tags">) => {
+    setError(null);
+    try {
+      if (assignedTagIds.includes(tagId)) {
+        await removeTagFromNode({ nodeId, tagId });
+      } else {
+        await addTagToNode({ nodeId, tagId });
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to update tags");
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+    setError(null);
+    try {
+      const tagId = await createTag({ boardId, name: newName });
+      await addTagToNode({ nodeId, tagId });
+      setNewName("");
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to create tag");
+    }
+  };
+
+  return (
+    <div
+      className="nodrag absolute right-4 top-12 z-20 w-56 p-2 bg-white border border-gray-200 rounded-md shadow-lg"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="max-h-48 overflow-y-auto">
+        {tags === undefined ? (
+          <div className="px-2 py-1 text-xs text-gray-400">Loading...</div>
+        ) : tags.length === 0 ? (
+          <div className="px-2 py-1 text-xs text-gray-400">No tags on this board yet</div>
+        ) : (
+          tags.map((tag) => (
+            <button
+              key={tag._id}
+              onClick={() => void handleToggle(tag._id)}
+              className="w-full flex items-center gap-2 px-2 py-1 text-sm text-left rounded hover:bg-gray-100"
+            >
+              <span className={`w-2.5 h-2.5 rounded-full ${tagColor(tag.color).dot}`} />
+              <span className="flex-1 truncate">{tag.name}</span>
+              {assignedTagIds.includes(tag._id) && <Check className="w-3 h-3 text-indigo-600" />}
+            </button>
+          ))
+        )}
+      </div>
+
+      <div className="mt-2 pt-2 border-t border-gray-100 flex items-center gap-1">
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") void handleCreate();
+          }}
+          placeholder="New tag"
+          className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-200 rounded outline-none focus:border-indigo-400"
+        />
+        <button
+          onClick={() => void handleCreate()}
+          disabled={!newName.trim()}
+          className="p-1 text-gray-500 hover:text-indigo-600 disabled:opacity-50 rounded"
+          title="Create and add tag"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+      {error && <div className="mt-1 text-xs text-red-600">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { Trash2, X } from "lucide-react";
+
+interface TemplatePickerProps {
+  boardId: Id<"boards">;
+  // Where new message nodes go (the centre of the viewport)
+  getPosition: () => { x: number; y: number };
+  // A run can branch from the selected node
+  selectedNodeId?: string | null;
+  onClose: () => void;
+}
+
+// Prompt template library: fill in a template once, or run it for a list of inputs
+export default function TemplatePicker({ boardId, getPosition, selectedNodeId, onClose }: TemplatePickerProps) {
+  const templates = useQuery(api.templates.listTemplates, { boardId });
+  const createTemplate = useMutation(api.templates.createTemplate);
+  const deleteTemplate = useMutation(api.templates.deleteTemplate);
+  const createMessageFromTemplate = useMutation(api.templates.createMessageFromTemplate);
+  const runTemplate = useMutation(api.templates.runTemplate);
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [runVariable, setRunVariable] = useState<string | null>(null);
+  const [runInputs, setRunInputs] = useState("");
+  const [branchFromSelected, setBranchFromSelected] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [newContent, setNewContent] = useState("");
+  const [boardOnly, setBoardOnly] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = templates?.find((template) => template._id === selectedId);
+  const inputs = runInputs.split("\n").filter((input) => input.trim().length > 0);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Something went wrong");
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSelect = (templateId: string) => {
+    setSelectedId(templateId);
+    setValues({});
+    setRunVariable(null);
+    setRunInputs("");
+    setError(null);
+  };
+
+  const handleCreateTemplate = async () => {
+    const created = await run(() => createTemplate({
+      name: newName,
+      content: newContent,
+      boardId: boardOnly ? boardId : undefined,
+    }));
+    if (created) {
+      setIsCreating(false);
+      setNewName("");
+      setNewContent("");
+      setBoardOnly(false);
+    }
+  };
+
+  const handleUse = async () => {
+    if (!selected) return;
+    const done = await run(() => runVariable
+      ? runTemplate({
+        boardId,
+        templateId: selected._id,
+        variable: runVariable,
+        inputs,
+        values,
+        parentNodeId: branchFromSelected && selectedNodeId ? selectedNodeId as Id<"nodes"> : undefined,
+        position: getPosition(),
+      })
+      : createMessageFromTemplate({
+        boardId,
+        templateId: selected._id,
+        values,
+        position: getPosition(),
+      }));
+    if (done) onClose();
+  };
+
+  return (
+    <div className="mb-4 w-80 bg-white border border-gray-200 rounded-md shadow-lg text-sm">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-100">
+        <span className="font-medium text-gray-700">Prompt templates</span>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600" title="Close">
+          <X size={14} />
+        </button>
+      </div>
+
+      {!isCreating && (
+        <div className="max-h-40 overflow-y-auto py-1">
+          {templates && templates.length === 0 && (
+            <div className="px-3 py-2 text-xs text-gray-500">No templates yet</div>
+          )}
+          {templates?.map((template) => (
+            <div
+              key={template._id}
+              onClick={() => handleSelect(template._id)}
+              className={`group px-3 py-1.5 flex items-center justify-between cursor-pointer ${template._id === selectedId ? "bg-blue-50" : "hover:bg-gray-50"}`}
+            >
+              <span className="truncate text-gray-700">{template.name}</span>
+              <span className="flex items-center gap-1">
+                {template.scope === "board" && <span className="text-xs text-gray-400">board</span>}
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    if (template._id === selectedId) setSelectedId(null);
+                    void run(() => deleteTemplate({ templateId: template._id }));
+                  }}
+                  className="p-1 text-gray-300 hover:text-red-600 opacity-0 group-hover:opacity-100"
+                  title="Delete template"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isCreating ? (
+        <div className="p-3 space-y-2">
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Template name"
+            className="w-full px-2 py-1 border border-gray-200 rounded outline-none focus:border-blue-400"
+          />
+          <textarea
+            value={newContent}
+            onChange={(e) => setNewContent(e.target.value)}
+            placeholder="Summarize {{topic}} for {{audience}}"
+            className="w-full h-24 px-2 py-1 border border-gray-200 rounded resize-y outline-none focus:border-blue-400"
+          />
+          <label className="flex items-center gap-2 text-xs text-gray-600">
+            <input type="checkbox" checked={boardOnly} onChange={(e) => setBoardOnly(e.target.checked)} />
+            Only on this board
+          </label>
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setIsCreating(false)} className="px-3 py-1 text-xs text-gray-600 hover:bg-gray-100 rounded">
+              Cancel
+            </button>
+            <button
+              onClick={() => void handleCreateTemplate()}
+              disabled={isBusy || !newName.trim() || !newContent.trim()}
+              className="px-3 py-1 text-xs bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 rounded"
+            >
+              Save template
+            </button>
+          </div>
+        </div>
+      ) : selected ? (
+        <div className="p-3 space-y-2 border-t border-gray-100">
+          <div className="text-xs text-gray-500 whitespace-pre-wrap max-h-20 overflow-y-auto">{selected.content}</div>
+          {selected.variables.map((variable) => (
+            <div key={variable}>
+              <div className="flex items-center justify-between text-xs text-gray-600">
+                <span className="font-mono">{`{{${variable}}}`}</span>
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={runVariable === variable}
+                    onChange={(e) => setRunVariable(e.target.checked ? variable : null)}
+                  />
+                  for each
+                </label>
+              </div>
+              {runVariable === variable ? (
+                <textarea
+                  value={runInputs}
+                  onChange={(e) => setRunInputs(e.target.value)}
+                  placeholder="One input per line"
+                  className="w-full h-20 px-2 py-1 border border-gray-200 rounded resize-y outline-none focus:border-blue-400"
+                />
+              ) : (
+                <input
+                  value={values[variable] ?? ""}
+                  onChange={(e) => setValues({ ...values, [variable]: e.target.value })}
+                  className="w-full px-2 py-1 border border-gray-200 rounded outline-none focus:border-blue-400"
+                />
+              )}
+            </div>
+          ))}
+          {runVariable && selectedNodeId && (
+            <label className="flex items-center gap-2 text-xs text-gray-600">
+              <input type="checkbox" checked={branchFromSelected} onChange={(e) => setBranchFromSelected(e.target.checked)} />
+              Branch from the selected node
+            </label>
+          )}
+          <div className="flex justify-end">
+            <button
+              onClick={() => void handleUse()}
+              disabled={isBusy || (!!runVariable && inputs.length === 0)}
+              className="px-3 py-1 text-xs bg-green-600 text-white hover:bg-green-700 disabled:opacity-50 rounded"
+            >
+              {runVariable ? `Run for ${inputs.length} input${inputs.length === 1 ? "" : "s"}` : "Create message"}
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {error && <div className="px-3 pb-2 text-xs text-red-600">{error}</div>}
+
+      {!isCreating && (
+        <div className="px-3 py-2 border-t border-gray-100">
+          <button onClick={() => setIsCreating(true)} className="text-xs text-blue-600 hover:text-blue-700">
+            + New template
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
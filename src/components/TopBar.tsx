@@ -4,6 +4,8 @@ import { useMutation } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { SignOutButton } from "../SignOutButton";
 import OverflowMenu from "./OverflowMenu";
+import JobsIndicator from "./JobsIndicator";
+import TagFilter from "./TagFilter";
 import { Search, ExternalLink, Undo2, Redo2 } from "lucide-react";
 
 interface TopBarProps {
@@ -67,6 +69,8 @@ export default function TopBar({ board }: TopBarProps) {
           </button>
         </div>
 
+        <TagFilter boardId={board._id} />
+        <JobsIndicator boardId={board._id} />
         <OverflowMenu boardId={board._id} />
         <SignOutButton />
       </div>
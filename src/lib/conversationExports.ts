@@ -0,0 +1,35 @@
+// Recognize ChatGPT and Claude data exports (conversations.json), which are
+// imported one conversation per board (see importConversation in convex/imports.ts)
+
+export type ConversationFormat = "chatgpt" | "claude";
+
+export type ExportedConversation = {
+  title: string;
+  messageCount: number;
+  // Sent to the server as JSON when imported
+  data: Record<string, any>;
+};
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export function detectConversationFormat(data: unknown): ConversationFormat | undefined {
+  if (!Array.isArray(data) || !isRecord(data[0])) return undefined;
+  if (isRecord(data[0].mapping)) return "chatgpt";
+  if (Array.isArray(data[0].chat_messages)) return "claude";
+  return undefined;
+}
+
+export function listConversations(format: ConversationFormat, data: unknown[]): ExportedConversation[] {
+  return data.filter(isRecord).map((conversation) => {
+    const title = format === "chatgpt" ? conversation.title : conversation.name;
+    const messageCount = format === "chatgpt"
+      ? Object.values(conversation.mapping ?? {}).filter((entry) => isRecord(entry) && isRecord(entry.message)).length
+      : (conversation.chat_messages ?? []).length;
+    return {
+      title: typeof title === "string" && title.trim() ? title : "Untitled conversation",
+      messageCount,
+      data: conversation,
+    };
+  });
+}
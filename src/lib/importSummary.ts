@@ -0,0 +1,14 @@
+// Toast text for the report returned by the board import mutations (see convex/imports.ts)
+export function importSummary(report: {
+  imported: { nodes: number; edges: number; tags: number };
+  skipped: { kind: string; id?: string; reason: string }[];
+  skippedCount: number;
+}): string {
+  const { nodes, edges, tags } = report.imported;
+  let summary = `Imported ${nodes} nodes, ${edges} edges and ${tags} tags`;
+  if (report.skippedCount > 0) {
+    const first = report.skipped[0];
+    summary += `. Skipped ${report.skippedCount}` + (first ? ` (e.g. ${first.kind}: ${first.reason})` : "");
+  }
+  return summary;
+}
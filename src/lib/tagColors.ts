@@ -0,0 +1,13 @@
+// Tailwind classes for each tag color (see NODE_COLORS in convex/validation.ts)
+export const TAG_COLORS: Record<string, { chip: string; dot: string }> = {
+  yellow: { chip: "bg-yellow-100 text-yellow-800 border-yellow-200", dot: "bg-yellow-400" },
+  red: { chip: "bg-red-100 text-red-800 border-red-200", dot: "bg-red-400" },
+  blue: { chip: "bg-blue-100 text-blue-800 border-blue-200", dot: "bg-blue-400" },
+  green: { chip: "bg-green-100 text-green-800 border-green-200", dot: "bg-green-400" },
+  purple: { chip: "bg-purple-100 text-purple-800 border-purple-200", dot: "bg-purple-400" },
+  gray: { chip: "bg-gray-100 text-gray-700 border-gray-200", dot: "bg-gray-400" },
+};
+
+export function tagColor(color: string) {
+  return TAG_COLORS[color] ?? TAG_COLORS.gray;
+}
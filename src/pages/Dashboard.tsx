@@ -2,8 +2,12 @@ import { Authenticated, Unauthenticated, useQuery, useMutation } from "convex/re
 import { api } from "../../convex/_generated/api";
 import { SignInForm } from "../SignInForm";
 import { SignOutButton } from "../SignOutButton";
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { importSummary } from "../lib/importSummary";
+import { ConversationFormat, ExportedConversation, detectConversationFormat, listConversations } from "../lib/conversationExports";
+import ConversationImportModal from "../components/ConversationImportModal";
 
 export default function Dashboard() {
   const loggedInUser = useQuery(api.auth.loggedInUser);
@@ -11,6 +15,12 @@ export default function Dashboard() {
   const createBoard = useMutation(api.boards.createBoard);
   const [isCreating, setIsCreating] = useState(false);
   const [newBoardTitle, setNewBoardTitle] = useState("");
+  const importBoardJson = useMutation(api.imports.importBoardJson);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [conversationImport, setConversationImport] = useState<{
+    format: ConversationFormat;
+    conversations: ExportedConversation[];
+  } | null>(null);
   const navigate = useNavigate();
 
   const handleCreateBoard = async (e: React.FormEvent) => {
@@ -28,6 +38,35 @@ export default function Dashboard() {
     }
   };
 
+  // Create a new board from an exported board file, or offer the conversations
+  // of a ChatGPT or Claude export for import
+  const handleImportBoard = async (file: File) => {
+    try {
+      const json = await file.text();
+      let data: unknown;
+      try {
+        data = JSON.parse(json);
+      } catch {
+        throw new Error("Import file is not valid JSON");
+      }
+
+      const format = detectConversationFormat(data);
+      if (format) {
+        setConversationImport({ format, conversations: listConversations(format, data as unknown[]) });
+        return;
+      }
+
+      const report = await importBoardJson({ json });
+      if (report.skippedCount > 0) {
+        console.warn("Skipped during import:", report.skipped);
+      }
+      toast.success(importSummary(report));
+      void navigate(`/b/${report.boardId}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to import board");
+    }
+  };
+
   if (loggedInUser === undefined) {
     return (
       <div className="flex justify-center items-center min-h-screen">
@@ -55,12 +94,32 @@ export default function Dashboard() {
                   Welcome back, {loggedInUser?.email ?? "friend"}!
                 </p>
               </div>
-              <button
-                onClick={() => setIsCreating(true)}
-                className="bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 transition-colors"
-              >
-                New Board
-              </button>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  className="bg-white text-gray-700 border border-gray-300 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors"
+                  title="Import a board export, or a ChatGPT or Claude conversations.json"
+                >
+                  Import Board
+                </button>
+                <button
+                  onClick={() => setIsCreating(true)}
+                  className="bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 transition-colors"
+                >
+                  New Board
+                </button>
+              </div>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = "";
+                  if (file) void handleImportBoard(file);
+                }}
+              />
             </div>
 
             {isCreating && (
@@ -131,6 +190,15 @@ export default function Dashboard() {
               </div>
             )}
           </div>
+
+          {conversationImport && (
+            <ConversationImportModal
+              format={conversationImport.format}
+              conversations={conversationImport.conversations}
+              onClose={() => setConversationImport(null)}
+              onImported={(boardId) => void navigate(`/b/${boardId}`)}
+            />
+          )}
         </Authenticated>
 
         <Unauthenticated>
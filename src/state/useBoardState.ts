@@ -1,11 +1,29 @@
 import { create } from "zustand";
 
+export type TagFilterMode = "dim" | "hide";
+
 interface BoardState {
   selectedNodeId: string | null;
   setSelectedNodeId: (nodeId: string | null) => void;
+  // Nodes with any of these tags stay visible; the rest are dimmed or hidden
+  tagFilter: string[];
+  tagFilterMode: TagFilterMode;
+  toggleTagFilter: (tagId: string) => void;
+  setTagFilterMode: (mode: TagFilterMode) => void;
+  clearTagFilter: () => void;
 }
 
 export const useBoardState = create<BoardState>((set) => ({
   selectedNodeId: null,
   setSelectedNodeId: (nodeId) => set({ selectedNodeId: nodeId }),
+  tagFilter: [],
+  tagFilterMode: "dim",
+  toggleTagFilter: (tagId) =>
+    set((state) => ({
+      tagFilter: state.tagFilter.includes(tagId)
+        ? state.tagFilter.filter((id) => id !== tagId)
+        : [...state.tagFilter, tagId],
+    })),
+  setTagFilterMode: (mode) => set({ tagFilterMode: mode }),
+  clearTagFilter: () => set({ tagFilter: [] }),
 }));
@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    // Convex functions run in an edge-like runtime; convex-test runs them the same way
+    environment: "edge-runtime",
+    server: { deps: { inline: ["convex-test"] } },
+  },
+});